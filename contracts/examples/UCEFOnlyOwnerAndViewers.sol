@@ -0,0 +1,13 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {UCEFAccessControlled} from "@appliedblockchain/ucef/contracts/UCEFAccessControlled.sol";
+
+contract UCEFOnlyOwnerAndViewers is UCEFAccessControlled {
+
+    constructor() UCEFAccessControlled(msg.sender, 'UCEFOnlyOwnerAndViewers', 'uOOT') {}
+
+    function mint(address account, uint256 amount) public {
+        _mint(account, amount);
+    }
+}
@@ -0,0 +1,55 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {UCEF} from "@appliedblockchain/ucef/contracts/UCEF.sol";
+import {UCEFOwned} from "@appliedblockchain/ucef/contracts/UCEFOwned.sol";
+import {UCEFClaimViewers} from "@appliedblockchain/ucef/contracts/extensions/UCEFClaimViewers.sol";
+import {IOnchainIDIdentityRegistry} from "@appliedblockchain/ucef/contracts/interfaces/IOnchainID.sol";
+
+contract UCEFOnlyOwnerClaimViewers is UCEFOwned, UCEFClaimViewers {
+    address private immutable _admin;
+
+    error UCEFOnlyOwnerClaimViewersUnauthorizedAccount(address account);
+
+    constructor(
+        IOnchainIDIdentityRegistry identityRegistry_,
+        uint256[] memory claimTopics
+    ) UCEFOwned("UCEFOnlyOwnerClaimViewers", "uOOCV") UCEFClaimViewers(identityRegistry_) {
+        _admin = msg.sender;
+        _setViewerClaimTopics(claimTopics);
+    }
+
+    function mint(address account, uint256 amount) public {
+        _mint(account, amount);
+    }
+
+    function setViewerClaimTopics(uint256[] memory claimTopics) public {
+        if (msg.sender != _admin) {
+            revert UCEFOnlyOwnerClaimViewersUnauthorizedAccount(msg.sender);
+        }
+        _setViewerClaimTopics(claimTopics);
+    }
+
+    function _authorizeBalance(address account) internal view override(UCEF, UCEFOwned) returns (bool) {
+        if (msg.sender != account && hasViewerClaim(msg.sender)) {
+            return true;
+        }
+        return super._authorizeBalance(account);
+    }
+
+    function _getTransferEventViewers(
+        address from,
+        address to,
+        uint256 value
+    ) internal view override(UCEF, UCEFClaimViewers) returns (address[] memory) {
+        return super._getTransferEventViewers(from, to, value);
+    }
+
+    function _getApprovalEventViewers(
+        address owner,
+        address spender,
+        uint256 value
+    ) internal view override(UCEF, UCEFClaimViewers) returns (address[] memory) {
+        return super._getApprovalEventViewers(owner, spender, value);
+    }
+}
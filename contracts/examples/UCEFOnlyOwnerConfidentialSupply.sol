@@ -0,0 +1,32 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {UCEF} from "@appliedblockchain/ucef/contracts/UCEF.sol";
+import {UCEFOwned} from "@appliedblockchain/ucef/contracts/UCEFOwned.sol";
+import {UCEFCapped} from "@appliedblockchain/ucef/contracts/extensions/UCEFCapped.sol";
+import {UCEFConfidentialSupply} from "@appliedblockchain/ucef/contracts/extensions/UCEFConfidentialSupply.sol";
+
+contract UCEFOnlyOwnerConfidentialSupply is UCEFOwned, UCEFConfidentialSupply, UCEFCapped {
+    constructor() UCEFOwned("UCEFOnlyOwnerConfidentialSupply", "uOOCS") UCEFCapped(1_000_000 ether) {
+        _setSupplyViewer(msg.sender, true);
+    }
+
+    function mint(address account, uint256 amount) public {
+        _mint(account, amount);
+    }
+
+    function setSupplyViewer(address viewer, bool allowed) public {
+        if (!isSupplyViewer(msg.sender)) {
+            revert UCEFUnauthorizedSupplyAccess(msg.sender);
+        }
+        _setSupplyViewer(viewer, allowed);
+    }
+
+    function _authorizeSupply() internal view override(UCEF, UCEFConfidentialSupply) returns (bool) {
+        return super._authorizeSupply();
+    }
+
+    function _update(address from, address to, uint256 value) internal override(UCEF, UCEFCapped) {
+        super._update(from, to, value);
+    }
+}
@@ -0,0 +1,30 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {UCEF} from "@appliedblockchain/ucef/contracts/UCEF.sol";
+import {UCEFOwned} from "@appliedblockchain/ucef/contracts/UCEFOwned.sol";
+import {ERC4626} from "@appliedblockchain/ucef/contracts/extensions/ERC4626.sol";
+import {UCEFConfidentialVault} from "@appliedblockchain/ucef/contracts/extensions/UCEFConfidentialVault.sol";
+import {IUCEF} from "@appliedblockchain/ucef/contracts/interfaces/IUCEF.sol";
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+contract UCEFOnlyOwnerConfidentialVault is UCEFOwned, UCEFConfidentialVault {
+    constructor(IUCEF asset_) UCEFOwned("UCEFOnlyOwnerConfidentialVault", "uOOCVT") ERC4626(asset_) {
+        _setSupplyViewer(msg.sender, true);
+    }
+
+    function setSupplyViewer(address viewer, bool allowed) public {
+        if (!isSupplyViewer(msg.sender)) {
+            revert UCEFUnauthorizedSupplyAccess(msg.sender);
+        }
+        _setSupplyViewer(viewer, allowed);
+    }
+
+    function decimals() public view override(ERC20, UCEFConfidentialVault) returns (uint8) {
+        return super.decimals();
+    }
+
+    function _authorizeSupply() internal view override(UCEF, UCEFConfidentialVault) returns (bool) {
+        return super._authorizeSupply();
+    }
+}
@@ -0,0 +1,28 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {UCEF} from "@appliedblockchain/ucef/contracts/UCEF.sol";
+import {UCEFOwned} from "@appliedblockchain/ucef/contracts/UCEFOwned.sol";
+import {UCEFConfidentialVotes} from "@appliedblockchain/ucef/contracts/extensions/UCEFConfidentialVotes.sol";
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+
+contract UCEFOnlyOwnerConfidentialVotes is UCEFOwned, UCEFConfidentialVotes, Ownable {
+    constructor()
+        UCEFOwned("UCEFOnlyOwnerConfidentialVotes", "uOOCV")
+        EIP712("UCEFOnlyOwnerConfidentialVotes", "1")
+        Ownable(msg.sender)
+    {}
+
+    function mint(address account, uint256 amount) public {
+        _mint(account, amount);
+    }
+
+    function setVoteTallier(address tallier, bool allowed) public onlyOwner {
+        _setVoteTallier(tallier, allowed);
+    }
+
+    function _update(address from, address to, uint256 value) internal override(UCEF, UCEFConfidentialVotes) {
+        super._update(from, to, value);
+    }
+}
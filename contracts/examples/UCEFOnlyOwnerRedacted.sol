@@ -0,0 +1,22 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {UCEF} from "@appliedblockchain/ucef/contracts/UCEF.sol";
+import {UCEFOwned} from "@appliedblockchain/ucef/contracts/UCEFOwned.sol";
+import {UCEFCapped} from "@appliedblockchain/ucef/contracts/extensions/UCEFCapped.sol";
+
+contract UCEFOnlyOwnerRedacted is UCEFOwned, UCEFCapped {
+    constructor() UCEFOwned("UCEFOnlyOwnerRedacted", "uOOR") UCEFCapped(1_000_000 ether) {}
+
+    function mint(address account, uint256 amount) public {
+        _mint(account, amount);
+    }
+
+    function _redactErrors() internal pure override returns (bool) {
+        return true;
+    }
+
+    function _update(address from, address to, uint256 value) internal override(UCEF, UCEFCapped) {
+        super._update(from, to, value);
+    }
+}
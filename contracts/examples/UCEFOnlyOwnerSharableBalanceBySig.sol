@@ -0,0 +1,49 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {UCEF} from "@appliedblockchain/ucef/contracts/UCEF.sol";
+import {UCEFSharable} from "@appliedblockchain/ucef/contracts/UCEFSharable.sol";
+import {UCEFBalanceBySig} from "@appliedblockchain/ucef/contracts/extensions/UCEFBalanceBySig.sol";
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+
+contract UCEFOnlyOwnerSharableBalanceBySig is UCEFSharable, UCEFBalanceBySig {
+
+    constructor()
+        UCEFSharable(msg.sender, 'UCEFOnlyOwnerSharableBalanceBySig', 'uOOT')
+        EIP712('UCEFOnlyOwnerSharableBalanceBySig', '1')
+    {}
+
+    function mint(address account, uint256 amount) public {
+        _mint(account, amount);
+    }
+
+    /**
+     * @notice Accept signed balance queries from the same viewers as `balanceOf`
+     */
+    function _authorizeSignedBalance(address viewer, address account) internal view override returns (bool) {
+        return
+            super._authorizeSignedBalance(viewer, account) ||
+            _hasActiveGrant(account, viewer, SCOPE_BALANCE) ||
+            (supervisor() != address(0) && viewer == supervisor());
+    }
+
+    function allowance(address owner, address spender) public view override(UCEF, UCEFSharable) returns (uint256) {
+        return super.allowance(owner, spender);
+    }
+
+    function _getTransferEventViewers(
+        address from,
+        address to,
+        uint256 value
+    ) internal view override(UCEF, UCEFSharable) returns (address[] memory) {
+        return super._getTransferEventViewers(from, to, value);
+    }
+
+    function _getApprovalEventViewers(
+        address owner,
+        address spender,
+        uint256 value
+    ) internal view override(UCEF, UCEFSharable) returns (address[] memory) {
+        return super._getApprovalEventViewers(owner, spender, value);
+    }
+}
@@ -0,0 +1,18 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {UCEFSharable} from "@appliedblockchain/ucef/contracts/UCEFSharable.sol";
+import {UCEFSharableBySig} from "@appliedblockchain/ucef/contracts/extensions/UCEFSharableBySig.sol";
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+
+contract UCEFOnlyOwnerSharableBySig is UCEFSharableBySig {
+
+    constructor()
+        UCEFSharable(msg.sender, 'UCEFOnlyOwnerSharableBySig', 'uOOT')
+        EIP712('UCEFOnlyOwnerSharableBySig', '1')
+    {}
+
+    function mint(address account, uint256 amount) public {
+        _mint(account, amount);
+    }
+}
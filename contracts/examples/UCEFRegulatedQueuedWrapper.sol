@@ -0,0 +1,58 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {UCEF} from "@appliedblockchain/ucef/contracts/UCEF.sol";
+import {UCEFRegulated} from "@appliedblockchain/ucef/contracts/UCEFRegulated.sol";
+import {UCEFWrapper} from "@appliedblockchain/ucef/contracts/extensions/UCEFWrapper.sol";
+import {UCEFQueuedWrapper} from "@appliedblockchain/ucef/contracts/extensions/UCEFQueuedWrapper.sol";
+import {IUCEF} from "@appliedblockchain/ucef/contracts/interfaces/IUCEF.sol";
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+contract UCEFRegulatedQueuedWrapper is UCEFRegulated, UCEFQueuedWrapper {
+    constructor(
+        IUCEF underlyingToken
+    ) UCEFRegulated(msg.sender, "UCEFRegulatedQueuedWrapper", "uRQW") UCEFWrapper(underlyingToken) {}
+
+    function setWithdrawalDelay(uint48 delay) public onlyRegulator {
+        _setWithdrawalDelay(delay);
+    }
+
+    function setWithdrawalBatchInterval(uint48 interval) public onlyRegulator {
+        _setWithdrawalBatchInterval(interval);
+    }
+
+    function decimals() public view override(ERC20, UCEFWrapper) returns (uint8) {
+        return super.decimals();
+    }
+
+    function _getTransferEventViewers(
+        address from,
+        address to,
+        uint256 value
+    ) internal view override(UCEF, UCEFRegulated) returns (address[] memory) {
+        return super._getTransferEventViewers(from, to, value);
+    }
+
+    function _getApprovalEventViewers(
+        address owner,
+        address spender,
+        uint256 value
+    ) internal view override(UCEF, UCEFRegulated) returns (address[] memory) {
+        return super._getApprovalEventViewers(owner, spender, value);
+    }
+
+    function _authorizeWithdrawalRequest(address owner) internal view override returns (bool) {
+        return msg.sender == owner || msg.sender == regulator();
+    }
+
+    function _getWithdrawalEventViewers(
+        address owner
+    ) internal view override returns (address[] memory allowedViewers) {
+        if (owner == regulator()) {
+            return super._getWithdrawalEventViewers(owner);
+        }
+        allowedViewers = new address[](2);
+        allowedViewers[0] = regulator();
+        allowedViewers[1] = owner;
+    }
+}
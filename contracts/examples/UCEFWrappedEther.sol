@@ -0,0 +1,9 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {UCEFOwned} from "@appliedblockchain/ucef/contracts/UCEFOwned.sol";
+import {UCEFNativeWrapper} from "@appliedblockchain/ucef/contracts/extensions/UCEFNativeWrapper.sol";
+
+contract UCEFWrappedEther is UCEFOwned, UCEFNativeWrapper {
+    constructor() UCEFOwned("Confidential Wrapped Ether", "cWETH") {}
+}
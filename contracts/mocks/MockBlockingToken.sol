@@ -0,0 +1,26 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {UCEFOwned} from "@appliedblockchain/ucef/contracts/UCEFOwned.sol";
+
+contract MockBlockingToken is UCEFOwned {
+    mapping(address => bool) private _blocked;
+
+    constructor() UCEFOwned("MockBlockingToken", "MBT") {}
+
+    function mint(address account, uint256 amount) public {
+        _mint(account, amount);
+    }
+
+    /**
+     * @dev used for testing purpose
+     */
+    function setBlocked(address account, bool blocked) external {
+        _blocked[account] = blocked;
+    }
+
+    function _update(address from, address to, uint256 value) internal override {
+        require(!_blocked[to], "receiver is blocked");
+        super._update(from, to, value);
+    }
+}
@@ -0,0 +1,22 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+contract MockClaimIssuer {
+    mapping(address => mapping(uint256 => bool)) private _revoked;
+
+    function isClaimValid(
+        address _identity,
+        uint256 _claimTopic,
+        bytes calldata /*sig*/,
+        bytes calldata /*data*/
+    ) external view returns (bool) {
+        return !_revoked[_identity][_claimTopic];
+    }
+
+    /**
+     * @dev used for testing purpose
+     */
+    function setClaimRevoked(address _identity, uint256 _claimTopic, bool _status) external {
+        _revoked[_identity][_claimTopic] = _status;
+    }
+}
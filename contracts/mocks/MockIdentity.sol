@@ -0,0 +1,50 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+contract MockIdentity {
+    struct Claim {
+        uint256 topic;
+        address issuer;
+        bytes signature;
+        bytes data;
+    }
+
+    mapping(bytes32 => mapping(uint256 => bool)) private _keyPurposes;
+    mapping(bytes32 => Claim) private _claims;
+
+    function keyHasPurpose(bytes32 _key, uint256 _purpose) external view returns (bool) {
+        return _keyPurposes[_key][_purpose];
+    }
+
+    /**
+     * @dev used for testing purpose
+     */
+    function setKeyPurpose(address _wallet, uint256 _purpose, bool _status) external {
+        _keyPurposes[keccak256(abi.encode(_wallet))][_purpose] = _status;
+    }
+
+    function getClaim(
+        bytes32 _claimId
+    )
+        external
+        view
+        returns (
+            uint256 topic,
+            uint256 scheme,
+            address issuer,
+            bytes memory signature,
+            bytes memory data,
+            string memory uri
+        )
+    {
+        Claim memory claim = _claims[_claimId];
+        return (claim.topic, 1, claim.issuer, claim.signature, claim.data, "");
+    }
+
+    /**
+     * @dev used for testing purpose
+     */
+    function addClaim(uint256 _topic, address _issuer) external {
+        _claims[keccak256(abi.encode(_issuer, _topic))] = Claim(_topic, _issuer, hex"01", hex"02");
+    }
+}
@@ -7,6 +7,8 @@ struct IdentityData {
 
 contract MockIdentityRegistry {
     mapping(address => IdentityData) private _verified;
+    mapping(address => address) private _identities;
+    address private _issuersRegistry;
 
     function isVerified(address _userAddress) external view returns (bool) {
         return _verified[_userAddress].isVerified;
@@ -31,12 +33,42 @@ contract MockIdentityRegistry {
     /**
      * @dev used for testing purpose
      */
-    function registerIdentity(address _userAddress, uint256 _country, bool _isVerified) external {
+    function setIdentity(address _userAddress, uint256 _country, bool _isVerified) external {
         _verified[_userAddress] = IdentityData(_isVerified, _country);
     }
 
-    function identity(address /*_userAddress*/) public pure returns (address) {
-        // Returning hardcoded address for testing
-        return 0x26291175Fa0Ea3C8583fEdEB56805eA68289b105;
+    /**
+     * @dev Called by the token on wallet recovery, registers the wallet as verified
+     */
+    function registerIdentity(address _userAddress, address _identity, uint16 _country) external {
+        _verified[_userAddress] = IdentityData(true, _country);
+        _identities[_userAddress] = _identity;
+    }
+
+    /**
+     * @dev Called by the token on wallet recovery
+     */
+    function deleteIdentity(address _userAddress) external {
+        delete _verified[_userAddress];
+        delete _identities[_userAddress];
+    }
+
+    function investorCountry(address _userAddress) external view returns (uint16) {
+        return uint16(_verified[_userAddress].country);
+    }
+
+    function identity(address _userAddress) public view returns (address) {
+        return _identities[_userAddress];
+    }
+
+    function issuersRegistry() external view returns (address) {
+        return _issuersRegistry;
     }
-} 
\ No newline at end of file
+
+    /**
+     * @dev used for testing purpose
+     */
+    function setIssuersRegistry(address _registry) external {
+        _issuersRegistry = _registry;
+    }
+}
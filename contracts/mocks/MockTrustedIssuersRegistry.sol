@@ -0,0 +1,17 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+contract MockTrustedIssuersRegistry {
+    mapping(uint256 => address[]) private _trustedIssuers;
+
+    function getTrustedIssuersForClaimTopic(uint256 _claimTopic) external view returns (address[] memory) {
+        return _trustedIssuers[_claimTopic];
+    }
+
+    /**
+     * @dev used for testing purpose
+     */
+    function setTrustedIssuers(uint256 _claimTopic, address[] calldata _issuers) external {
+        _trustedIssuers[_claimTopic] = _issuers;
+    }
+}
@@ -0,0 +1,59 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {IERC5805} from "@openzeppelin/contracts/interfaces/IERC5805.sol";
+
+/**
+ * @dev Minimal Governor-like contract tallying votes from its own address, reading them with getPastVotes and the
+ * quorum with getPastTotalSupply as GovernorVotes and GovernorVotesQuorumFraction do
+ */
+contract MockVoteTallier {
+    uint256 private constant QUORUM_NUMERATOR = 4;
+    uint256 private constant QUORUM_DENOMINATOR = 100;
+
+    IERC5805 private immutable _token;
+
+    uint256 private _proposalCount;
+    mapping(uint256 proposalId => uint256) private _snapshots;
+    mapping(uint256 proposalId => uint256) private _forVotes;
+    mapping(uint256 proposalId => mapping(address voter => bool)) private _hasVoted;
+
+    constructor(IERC5805 token) {
+        _token = token;
+    }
+
+    function propose() external returns (uint256 proposalId) {
+        proposalId = ++_proposalCount;
+        _snapshots[proposalId] = _token.clock();
+    }
+
+    function castVote(uint256 proposalId) external {
+        uint256 snapshot = _snapshots[proposalId];
+        require(snapshot != 0, "unknown proposal");
+        require(_token.clock() > snapshot, "voting not started");
+        require(!_hasVoted[proposalId][msg.sender], "already voted");
+
+        _hasVoted[proposalId][msg.sender] = true;
+        _forVotes[proposalId] += _token.getPastVotes(msg.sender, snapshot);
+    }
+
+    function proposalCount() external view returns (uint256) {
+        return _proposalCount;
+    }
+
+    function proposalSnapshot(uint256 proposalId) external view returns (uint256) {
+        return _snapshots[proposalId];
+    }
+
+    function proposalVotes(uint256 proposalId) external view returns (uint256) {
+        return _forVotes[proposalId];
+    }
+
+    function quorum(uint256 timepoint) public view returns (uint256) {
+        return (_token.getPastTotalSupply(timepoint) * QUORUM_NUMERATOR) / QUORUM_DENOMINATOR;
+    }
+
+    function quorumReached(uint256 proposalId) external view returns (bool) {
+        return quorum(_snapshots[proposalId]) <= _forVotes[proposalId];
+    }
+}
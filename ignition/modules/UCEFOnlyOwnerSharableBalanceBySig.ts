@@ -0,0 +1,9 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules'
+
+export default buildModule('UCEFOnlyOwnerSharableBalanceBySigModule', (m) => {
+  const ucefOnlyOwnerSharableBalanceBySig = m.contract('UCEFOnlyOwnerSharableBalanceBySig', [], {
+    id: 'UCEFOnlyOwnerSharableBalanceBySig',
+  })
+
+  return { ucefOnlyOwnerSharableBalanceBySig }
+})
@@ -0,0 +1,9 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules'
+
+export default buildModule('UCEFWrappedEtherModule', (m) => {
+  const ucefWrappedEther = m.contract('UCEFWrappedEther', [], {
+    id: 'UCEFWrappedEther',
+  })
+
+  return { ucefWrappedEther }
+})
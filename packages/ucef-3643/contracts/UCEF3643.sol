@@ -3,9 +3,370 @@
 pragma solidity ^0.8.17;
 
 import {Token} from "@tokenysolutions/t-rex/contracts/token/Token.sol";
-import {IIdentityRegistry} from "@tokenysolutions/t-rex/contracts/registry/interface/IIdentityRegistry.sol";
+import {IIdentity} from "@onchain-id/solidity/contracts/interface/IIdentity.sol";
+import {IClaimIssuer} from "@onchain-id/solidity/contracts/interface/IClaimIssuer.sol";
+import {ITrustedIssuersRegistry} from "@tokenysolutions/t-rex/contracts/registry/interface/ITrustedIssuersRegistry.sol";
+import {IModularCompliance} from "@tokenysolutions/t-rex/contracts/compliance/modular/IModularCompliance.sol";
+import {EnumerableSet} from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
 
+/**
+ * @title UCEF3643
+ * @dev ERC-3643 (T-REX v4.1.6) token with confidential balances and Private Events.
+ *
+ * Balances and allowances are only readable by the accounts involved, and every event carrying balance
+ * information is emitted as a Silent Data PrivateEvent, using the same scheme as UCEF:
+ * - allowedViewers: addresses authorized to view the event
+ * - eventType: hash of the original event signature
+ * - payload: ABI-encoded event arguments
+ *
+ * This covers transfers, mints, burns, approvals, partial and address freezes, forced transfers and recovery.
+ * The viewers of those events are configured by the token owner as a combination of:
+ * - EVENT_VIEWERS_PARTIES - the accounts involved in the event
+ * - EVENT_VIEWERS_AGENTS - every token agent
+ * - EVENT_VIEWERS_OWNER - the token owner, who manages the token's onchainID
+ *
+ * Balances, frozen tokens and frozen status are readable by the account itself and by any MANAGEMENT or ACTION key
+ * of its registered ONCHAINID, so an investor can read every wallet linked to their identity from any of its keys.
+ * The token owner can additionally let the following roles read them for every account, as a combination of:
+ * - BALANCE_VIEWERS_AGENTS - every token agent
+ * - BALANCE_VIEWERS_OWNER - the token owner
+ * - BALANCE_VIEWERS_REGULATOR - the regulator set by the token owner, if any
+ *
+ * The token owner can also set viewer claim topics (e.g. "AUDITOR" or "REGULATOR"), so that any caller whose
+ * registered ONCHAINID carries a valid claim for one of them, from an issuer of the identity registry's trusted
+ * issuers registry, can read every balance. Claim holders are included in the private events once registered with
+ * `addClaimViewer`, and anyone can remove them with `removeClaimViewer` once their claim is no longer valid.
+ *
+ * The modules bound to the token's ModularCompliance can read every balance, so that compliance modules such as
+ * the UCEF3643-aware modules of `contracts/compliance` can enforce balance-based rules. Only bind trusted modules.
+ *
+ * The token owner can also enable redacted errors, so that callers other than the account owner can't tell an
+ * insufficient balance apart from other transfer failures.
+ *
+ * Agents are tracked by the token itself so they can be listed as viewers; agents added before upgrading to this
+ * implementation must be re-added to be included.
+ */
 contract UCEF3643 is Token {
+    using EnumerableSet for EnumerableSet.AddressSet;
+
+    // Event type constants for Private Events
+    /**
+    * @notice Transfer event parameter mapping:
+    *   - address param0: from  - Token sender (address(0) for minting)
+    *   - address param1: to    - Token receiver (address(0) for burning)
+    *   - uint256 param2: value - Amount of tokens transferred
+    * @custom:signature Transfer(address from, address to, uint256 value)
+    */
+    bytes32 public constant EVENT_TYPE_TRANSFER = keccak256("Transfer(address,address,uint256)");
+    /**
+    * @notice Approval event parameter mapping:
+    *   - address param0: owner   - Token owner
+    *   - address param1: spender - Approved spender
+    *   - uint256 param2: value   - Amount of tokens approved
+    * @custom:signature Approval(address owner, address spender, uint256 value)
+    */
+    bytes32 public constant EVENT_TYPE_APPROVAL = keccak256("Approval(address,address,uint256)");
+    /**
+    * @notice TokensFrozen event parameter mapping:
+    *   - address param0: userAddress - Holder of the frozen tokens
+    *   - uint256 param1: amount      - Amount of tokens frozen
+    * @custom:signature TokensFrozen(address userAddress, uint256 amount)
+    */
+    bytes32 public constant EVENT_TYPE_TOKENS_FROZEN = keccak256("TokensFrozen(address,uint256)");
+    /**
+    * @notice TokensUnfrozen event parameter mapping:
+    *   - address param0: userAddress - Holder of the unfrozen tokens
+    *   - uint256 param1: amount      - Amount of tokens unfrozen
+    * @custom:signature TokensUnfrozen(address userAddress, uint256 amount)
+    */
+    bytes32 public constant EVENT_TYPE_TOKENS_UNFROZEN = keccak256("TokensUnfrozen(address,uint256)");
+    /**
+    * @notice AddressFrozen event parameter mapping:
+    *   - address param0: userAddress - Wallet frozen or unfrozen
+    *   - bool    param1: isFrozen    - New frozen status of the wallet
+    *   - address param2: agent       - Agent that changed the status
+    * @custom:signature AddressFrozen(address userAddress, bool isFrozen, address agent)
+    */
+    bytes32 public constant EVENT_TYPE_ADDRESS_FROZEN = keccak256("AddressFrozen(address,bool,address)");
+    /**
+    * @notice RecoverySuccess event parameter mapping:
+    *   - address param0: lostWallet        - Wallet the tokens were recovered from
+    *   - address param1: newWallet         - Wallet the tokens were recovered to
+    *   - address param2: investorOnchainID - onchainID of the investor owning both wallets
+    * @custom:signature RecoverySuccess(address lostWallet, address newWallet, address investorOnchainID)
+    */
+    bytes32 public constant EVENT_TYPE_RECOVERY_SUCCESS = keccak256("RecoverySuccess(address,address,address)");
+    /**
+    * @notice RegulatorUpdated event parameter mapping:
+    *   - address param0: previousRegulator - Regulator being replaced (address(0) if none)
+    *   - address param1: newRegulator      - New regulator (address(0) to disable)
+    * @custom:signature RegulatorUpdated(address previousRegulator, address newRegulator)
+    */
+    bytes32 public constant EVENT_TYPE_REGULATOR_UPDATED = keccak256("RegulatorUpdated(address,address)");
+    /**
+    * @notice ClaimViewerUpdated event parameter mapping:
+    *   - address param0: viewer     - Claim holder registered or removed as an event viewer
+    *   - bool param1: registered    - Whether the claim holder is included in the private events
+    * @custom:signature ClaimViewerUpdated(address viewer, bool registered)
+    */
+    bytes32 public constant EVENT_TYPE_CLAIM_VIEWER_UPDATED = keccak256("ClaimViewerUpdated(address,bool)");
+
+    // Event viewer flags
+    uint8 public constant EVENT_VIEWERS_PARTIES = 1;
+    uint8 public constant EVENT_VIEWERS_AGENTS = 2;
+    uint8 public constant EVENT_VIEWERS_OWNER = 4;
+    uint8 public constant EVENT_VIEWERS_ALL = EVENT_VIEWERS_PARTIES | EVENT_VIEWERS_AGENTS | EVENT_VIEWERS_OWNER;
+
+    // Balance viewer flags
+    uint8 public constant BALANCE_VIEWERS_AGENTS = 1;
+    uint8 public constant BALANCE_VIEWERS_OWNER = 2;
+    uint8 public constant BALANCE_VIEWERS_REGULATOR = 4;
+    uint8 public constant BALANCE_VIEWERS_ALL =
+        BALANCE_VIEWERS_AGENTS | BALANCE_VIEWERS_OWNER | BALANCE_VIEWERS_REGULATOR;
+
+    EnumerableSet.AddressSet private _agentList;
+    // Zero until configured, meaning EVENT_VIEWERS_ALL
+    uint8 private _eventViewers;
+    uint8 private _balanceViewers;
+    address private _regulator;
+    bool private _redactedErrors;
+    uint256[] private _viewerClaimTopics;
+    EnumerableSet.AddressSet private _claimViewers;
+
+    /**
+     * @dev Private Event for selective visibility of on-chain events
+     * @param allowedViewers List of addresses authorized to view the event
+     * @param eventType The keccak256 hash of the original event signature
+     * @param payload The ABI-encoded event arguments
+     */
+    event PrivateEvent(
+        address[] allowedViewers,
+        bytes32 indexed eventType,
+        bytes payload
+    );
+
+    /**
+     * @dev Emitted when the token owner changes the viewers of the private events
+     * @param eventViewers The new combination of EVENT_VIEWERS_* flags
+     */
+    event EventViewersUpdated(uint8 eventViewers);
+
+    /**
+     * @dev Emitted when the token owner changes the roles allowed to read every balance
+     * @param balanceViewers The new combination of BALANCE_VIEWERS_* flags
+     */
+    event BalanceViewersUpdated(uint8 balanceViewers);
+
+    /**
+     * @dev Emitted when the token owner enables or disables redacted errors
+     * @param enabled Whether errors are redacted
+     */
+    event RedactedErrorsUpdated(bool enabled);
+
+    /**
+     * @dev Emitted when the token owner changes the claim topics granting visibility
+     * @param claimTopics The new viewer claim topics
+     */
+    event ViewerClaimTopicsUpdated(uint256[] claimTopics);
+
+    /**
+     * @dev Returns the viewers included in private events, as a combination of EVENT_VIEWERS_* flags
+     */
+    function eventViewers() public view returns (uint8) {
+        return _eventViewers == 0 ? EVENT_VIEWERS_ALL : _eventViewers;
+    }
+
+    /**
+     * @dev Sets the viewers included in private events
+     * @param _viewers Combination of EVENT_VIEWERS_PARTIES, EVENT_VIEWERS_AGENTS and EVENT_VIEWERS_OWNER
+     *
+     * Requirements:
+     * - Only the token owner can call this function
+     * - At least one flag must be set, and no unknown flags
+     *
+     * Emits an EventViewersUpdated event
+     */
+    function setEventViewers(uint8 _viewers) external onlyOwner {
+        require(_viewers != 0 && _viewers & ~EVENT_VIEWERS_ALL == 0, "invalid event viewers");
+        _eventViewers = _viewers;
+        emit EventViewersUpdated(_viewers);
+    }
+
+    /**
+     * @dev Returns the roles allowed to read every balance, as a combination of BALANCE_VIEWERS_* flags
+     */
+    function balanceViewers() external view returns (uint8) {
+        return _balanceViewers;
+    }
+
+    /**
+     * @dev Sets the roles allowed to read every balance
+     * @param _viewers Combination of BALANCE_VIEWERS_AGENTS, BALANCE_VIEWERS_OWNER and BALANCE_VIEWERS_REGULATOR,
+     * or zero to only let accounts read their own balance
+     *
+     * Requirements:
+     * - Only the token owner can call this function
+     * - No unknown flags
+     *
+     * Emits a BalanceViewersUpdated event
+     */
+    function setBalanceViewers(uint8 _viewers) external onlyOwner {
+        require(_viewers & ~BALANCE_VIEWERS_ALL == 0, "invalid balance viewers");
+        _balanceViewers = _viewers;
+        emit BalanceViewersUpdated(_viewers);
+    }
+
+    /**
+     * @dev Returns the current regulator address, address(0) if none
+     */
+    function regulator() external view returns (address) {
+        return _regulator;
+    }
+
+    /**
+     * @dev Sets the regulator, who can read every balance when BALANCE_VIEWERS_REGULATOR is enabled
+     * @param _newRegulator The new regulator, address(0) to disable
+     *
+     * Requirements:
+     * - Only the token owner can call this function
+     *
+     * Emits a RegulatorUpdated private event visible to the previous and new regulator
+     */
+    function setRegulator(address _newRegulator) external onlyOwner {
+        address previousRegulator = _regulator;
+        _regulator = _newRegulator;
+        _emitPrivateEvent(
+            EVENT_TYPE_REGULATOR_UPDATED,
+            previousRegulator,
+            _newRegulator,
+            abi.encode(previousRegulator, _newRegulator)
+        );
+    }
+
+    /**
+     * @dev Returns whether balance-revealing errors are redacted for callers other than the account owner
+     */
+    function redactedErrors() external view returns (bool) {
+        return _redactedErrors;
+    }
+
+    /**
+     * @dev Enables or disables redacted errors. When enabled, `transferFrom` reverts with "Transfer not possible"
+     * instead of "Insufficient Balance" for callers other than the account owner, and checks the allowance first so
+     * callers without allowance can't probe the balance at all.
+     * @param _enabled Whether errors are redacted
+     *
+     * Requirements:
+     * - Only the token owner can call this function
+     *
+     * Emits a RedactedErrorsUpdated event
+     */
+    function setRedactedErrors(bool _enabled) external onlyOwner {
+        _redactedErrors = _enabled;
+        emit RedactedErrorsUpdated(_enabled);
+    }
+
+    /**
+     * @dev Returns the claim topics granting balance and event visibility
+     */
+    function viewerClaimTopics() external view returns (uint256[] memory) {
+        return _viewerClaimTopics;
+    }
+
+    /**
+     * @dev Sets the claim topics granting balance and event visibility to the holders of a valid claim
+     * @param _claimTopics The new viewer claim topics, empty to disable claim-based visibility
+     *
+     * Requirements:
+     * - Only the token owner can call this function
+     *
+     * Emits a ViewerClaimTopicsUpdated event
+     */
+    function setViewerClaimTopics(uint256[] calldata _claimTopics) external onlyOwner {
+        _viewerClaimTopics = _claimTopics;
+        emit ViewerClaimTopicsUpdated(_claimTopics);
+    }
+
+    /**
+     * @dev Returns whether the onchainID registered for `_account` carries a valid claim for one of the viewer
+     * claim topics from a trusted issuer
+     * @param _account The address to check
+     * @return bool True if `_account` holds a viewer claim
+     */
+    function hasViewerClaim(address _account) public view returns (bool) {
+        if (_viewerClaimTopics.length == 0) {
+            return false;
+        }
+        IIdentity onchainID = _tokenIdentityRegistry.identity(_account);
+        if (address(onchainID).code.length == 0) {
+            return false;
+        }
+
+        ITrustedIssuersRegistry issuersRegistry = _tokenIdentityRegistry.issuersRegistry();
+        for (uint256 i = 0; i < _viewerClaimTopics.length; i++) {
+            if (_hasValidClaim(issuersRegistry, onchainID, _viewerClaimTopics[i])) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * @dev Returns whether `_viewer` is registered to be included in private events
+     */
+    function isClaimViewer(address _viewer) external view returns (bool) {
+        return _claimViewers.contains(_viewer);
+    }
+
+    /**
+     * @dev Registers `_viewer` to be included in private events
+     * @param _viewer The claim holder to register
+     *
+     * Requirements:
+     * - `_viewer` must hold a viewer claim
+     *
+     * Emits a ClaimViewerUpdated private event if `_viewer` was not registered
+     */
+    function addClaimViewer(address _viewer) external {
+        require(hasViewerClaim(_viewer), "no viewer claim");
+        if (_claimViewers.add(_viewer)) {
+            _emitPrivateEvent(EVENT_TYPE_CLAIM_VIEWER_UPDATED, _viewer, msg.sender, abi.encode(_viewer, true));
+        }
+    }
+
+    /**
+     * @dev Stops including `_viewer` in private events
+     * @param _viewer The claim holder to remove
+     *
+     * Requirements:
+     * - The caller must be `_viewer`, or `_viewer` must no longer hold a viewer claim
+     *
+     * Emits a ClaimViewerUpdated private event if `_viewer` was registered
+     */
+    function removeClaimViewer(address _viewer) external {
+        require(msg.sender == _viewer || !hasViewerClaim(_viewer), "viewer claim still valid");
+        if (_claimViewers.remove(_viewer)) {
+            _emitPrivateEvent(EVENT_TYPE_CLAIM_VIEWER_UPDATED, _viewer, msg.sender, abi.encode(_viewer, false));
+        }
+    }
+
+    /**
+     *  @dev Tracks the agent so it can be included in private events.
+     *  @dev See {AgentRoleUpgradeable-addAgent}.
+     */
+    function addAgent(address _agent) public override {
+        super.addAgent(_agent);
+        _agentList.add(_agent);
+    }
+
+    /**
+     *  @dev Stops including the agent in private events.
+     *  @dev See {AgentRoleUpgradeable-removeAgent}.
+     */
+    function removeAgent(address _agent) public override {
+        super.removeAgent(_agent);
+        _agentList.remove(_agent);
+    }
 
     /**
      * @dev Returns the balance of the specified account if authorized
@@ -41,6 +402,42 @@ contract UCEF3643 is Token {
         return _allowance(owner, spender);
     }
 
+    /**
+     *  @dev ERC-3643 (v4.1.6) restricted to the addresses authorized by `_authorizeBalance`, since the frozen
+     *  status of a wallet reveals whether it can move its balance.
+     *  @dev See {IToken-isFrozen}.
+     */
+    function isFrozen(address _userAddress) external view override returns (bool) {
+        bool authorized = _authorizeBalance(_userAddress);
+        return authorized && _frozen[_userAddress];
+    }
+
+    /**
+     *  @dev ERC-3643 (v4.1.6) restricted to the addresses authorized by `_authorizeBalance`, since the frozen
+     *  amount is a lower bound of the balance.
+     *  @dev See {IToken-getFrozenTokens}.
+     */
+    function getFrozenTokens(address _userAddress) external view override returns (uint256) {
+        bool authorized = _authorizeBalance(_userAddress);
+        return authorized ? _frozenTokens[_userAddress] : 0;
+    }
+
+    /**
+     * @dev Returns the total, frozen and free balances of the specified account if authorized
+     * @param account The address to query the balances of
+     * @return total The balance of the account
+     * @return frozen The amount of tokens frozen by the agents
+     * @return free The amount of tokens the account can transfer
+     */
+    function getBalanceBreakdown(address account) external view returns (uint256 total, uint256 frozen, uint256 free) {
+        if (!_authorizeBalance(account)) {
+            return (0, 0, 0);
+        }
+        total = _balanceOf(account);
+        frozen = _frozenTokens[account];
+        free = total - frozen;
+    }
+
     /**
      *  @dev ERC-3643 (v4.1.6) replacing `balanceOf` with `_balanceOf`
      *  @notice ERC-20 overridden function that include logic to check for trade validity.
@@ -53,7 +450,7 @@ contract UCEF3643 is Token {
      */
     function transfer(address _to, uint256 _amount) public override whenNotPaused returns (bool) {
         require(!_frozen[_to] && !_frozen[msg.sender], "wallet is frozen");
-        require(_amount <= _balanceOf(msg.sender) - (_frozenTokens[msg.sender]), "Insufficient Balance");
+        _checkAvailableBalance(msg.sender, _amount);
         if (_tokenIdentityRegistry.isVerified(_to) && _tokenCompliance.canTransfer(msg.sender, _to, _amount)) {
             _transfer(msg.sender, _to, _amount);
             _tokenCompliance.transferred(msg.sender, _to, _amount);
@@ -63,7 +460,7 @@ contract UCEF3643 is Token {
     }
 
     /**
-     *  @dev ERC-3643 (v4.1.6) replacing `balanceOf` with `_balanceOf`
+     *  @dev ERC-3643 (v4.1.6) replacing `balanceOf` with `_balanceOf`; and checking the allowance first when errors are redacted
      *  @notice ERC-20 overridden function that include logic to check for trade validity.
      *  Require that the from and to addresses are not frozen.
      *  Require that the value should not exceed available balance .
@@ -79,7 +476,10 @@ contract UCEF3643 is Token {
         uint256 _amount
     ) external override whenNotPaused returns (bool) {
         require(!_frozen[_to] && !_frozen[_from], "wallet is frozen");
-        require(_amount <= _balanceOf(_from) - (_frozenTokens[_from]), "Insufficient Balance");
+        if (_redactedErrors) {
+            require(_amount <= _allowances[_from][msg.sender], "Transfer not possible");
+        }
+        _checkAvailableBalance(_from, _amount);
         if (_tokenIdentityRegistry.isVerified(_to) && _tokenCompliance.canTransfer(_from, _to, _amount)) {
             _approve(_from, msg.sender, _allowances[_from][msg.sender] - (_amount));
             _transfer(_from, _to, _amount);
@@ -90,7 +490,7 @@ contract UCEF3643 is Token {
     }
 
     /**
-     *  @dev ERC-3643 (v4.1.6) replacing `balanceOf` with `_balanceOf`; and emitting 0 amount on `TokensUnfrozen` event.
+     *  @dev ERC-3643 (v4.1.6) replacing `balanceOf` with `_balanceOf`; and emitting `TokensUnfrozen` as a private event.
      *  @dev See {IToken-forcedTransfer}.
      */
     function forcedTransfer(
@@ -103,7 +503,7 @@ contract UCEF3643 is Token {
         if (_amount > freeBalance) {
             uint256 tokensToUnfreeze = _amount - (freeBalance);
             _frozenTokens[_from] = _frozenTokens[_from] - (tokensToUnfreeze);
-            emit TokensUnfrozen(_from, 0);
+            _emitPrivateEvent(EVENT_TYPE_TOKENS_UNFROZEN, _from, msg.sender, abi.encode(_from, tokensToUnfreeze));
         }
         if (_tokenIdentityRegistry.isVerified(_to)) {
             _transfer(_from, _to, _amount);
@@ -114,7 +514,7 @@ contract UCEF3643 is Token {
     }
 
     /**
-     *  @dev ERC-3643 (v4.1.6) replacing `balanceOf` with `_balanceOf`; and emitting zero amount on `TokensUnfrozen` event.
+     *  @dev ERC-3643 (v4.1.6) replacing `balanceOf` with `_balanceOf`; and emitting `TokensUnfrozen` as a private event.
      *  @dev See {IToken-burn}.
      */
     function burn(address _userAddress, uint256 _amount) public override onlyAgent {
@@ -123,47 +523,305 @@ contract UCEF3643 is Token {
         if (_amount > freeBalance) {
             uint256 tokensToUnfreeze = _amount - (freeBalance);
             _frozenTokens[_userAddress] = _frozenTokens[_userAddress] - (tokensToUnfreeze);
-            emit TokensUnfrozen(_userAddress, 0);
+            _emitPrivateEvent(
+                EVENT_TYPE_TOKENS_UNFROZEN,
+                _userAddress,
+                msg.sender,
+                abi.encode(_userAddress, tokensToUnfreeze)
+            );
         }
         _burn(_userAddress, _amount);
         _tokenCompliance.destroyed(_userAddress, _amount);
     }
 
     /**
-     *  @dev ERC-3643 (v4.1.6) replacing `balanceOf` with `_balanceOf`; and emitting zero amount on `TokensFrozen` event
+     *  @dev ERC-3643 (v4.1.6) replacing `balanceOf` with `_balanceOf`; and emitting `TokensFrozen` as a private event.
      *  @dev See {IToken-freezePartialTokens}.
      */
     function freezePartialTokens(address _userAddress, uint256 _amount) public override onlyAgent {
         uint256 balance = _balanceOf(_userAddress);
         require(balance >= _frozenTokens[_userAddress] + _amount, "Amount exceeds available balance");
         _frozenTokens[_userAddress] = _frozenTokens[_userAddress] + (_amount);
-        emit TokensFrozen(_userAddress, 0);
+        _emitPrivateEvent(EVENT_TYPE_TOKENS_FROZEN, _userAddress, msg.sender, abi.encode(_userAddress, _amount));
     }
 
     /**
-     *   @dev ERC-3643 (v4.1.6) emitting zero amount on `TokensUnfrozen` event.
+     *  @dev ERC-3643 (v4.1.6) emitting `TokensUnfrozen` as a private event.
      *  @dev See {IToken-unfreezePartialTokens}.
      */
     function unfreezePartialTokens(address _userAddress, uint256 _amount) public override onlyAgent {
         require(_frozenTokens[_userAddress] >= _amount, "Amount should be less than or equal to frozen tokens");
         _frozenTokens[_userAddress] = _frozenTokens[_userAddress] - (_amount);
-        emit TokensUnfrozen(_userAddress, 0);
+        _emitPrivateEvent(EVENT_TYPE_TOKENS_UNFROZEN, _userAddress, msg.sender, abi.encode(_userAddress, _amount));
+    }
+
+    /**
+     *  @dev ERC-3643 (v4.1.6) emitting `AddressFrozen` as a private event.
+     *  @dev See {IToken-setAddressFrozen}.
+     */
+    function setAddressFrozen(address _userAddress, bool _freeze) public override onlyAgent {
+        _frozen[_userAddress] = _freeze;
+
+        _emitPrivateEvent(EVENT_TYPE_ADDRESS_FROZEN, _userAddress, msg.sender, abi.encode(_userAddress, _freeze, msg.sender));
+    }
+
+    /**
+     *  @dev ERC-3643 (v4.1.6) replacing `balanceOf` with `_balanceOf`; moving the frozen tokens and frozen status
+     *  directly instead of unfreezing the lost wallet through `forcedTransfer`; and emitting `TokensUnfrozen`,
+     *  `AddressFrozen`, `TokensFrozen` and `RecoverySuccess` as private events.
+     *  The token must be an agent of the identity registry to register the new wallet and delete the lost one.
+     *  @dev See {IToken-recoveryAddress}.
+     */
+    function recoveryAddress(
+        address _lostWallet,
+        address _newWallet,
+        address _investorOnchainID
+    ) external override onlyAgent returns (bool) {
+        uint256 investorTokens = _balanceOf(_lostWallet);
+        require(investorTokens != 0, "no tokens to recover");
+        IIdentity _onchainID = IIdentity(_investorOnchainID);
+        bytes32 _key = keccak256(abi.encode(_newWallet));
+        if (!_onchainID.keyHasPurpose(_key, 1)) {
+            revert("Recovery not possible");
+        }
+
+        _tokenIdentityRegistry.registerIdentity(
+            _newWallet,
+            _onchainID,
+            _tokenIdentityRegistry.investorCountry(_lostWallet)
+        );
+
+        uint256 frozenTokens = _frozenTokens[_lostWallet];
+        bool frozen = _frozen[_lostWallet];
+        if (frozenTokens > 0) {
+            _frozenTokens[_lostWallet] = 0;
+            _emitPrivateEvent(
+                EVENT_TYPE_TOKENS_UNFROZEN,
+                _lostWallet,
+                msg.sender,
+                abi.encode(_lostWallet, frozenTokens)
+            );
+        }
+        if (frozen) {
+            _frozen[_lostWallet] = false;
+            _emitPrivateEvent(
+                EVENT_TYPE_ADDRESS_FROZEN,
+                _lostWallet,
+                msg.sender,
+                abi.encode(_lostWallet, false, msg.sender)
+            );
+        }
+
+        _transfer(_lostWallet, _newWallet, investorTokens);
+        _tokenCompliance.transferred(_lostWallet, _newWallet, investorTokens);
+
+        if (frozenTokens > 0) {
+            _frozenTokens[_newWallet] = _frozenTokens[_newWallet] + frozenTokens;
+            _emitPrivateEvent(EVENT_TYPE_TOKENS_FROZEN, _newWallet, msg.sender, abi.encode(_newWallet, frozenTokens));
+        }
+        if (frozen) {
+            _frozen[_newWallet] = true;
+            _emitPrivateEvent(
+                EVENT_TYPE_ADDRESS_FROZEN,
+                _newWallet,
+                msg.sender,
+                abi.encode(_newWallet, true, msg.sender)
+            );
+        }
+
+        _tokenIdentityRegistry.deleteIdentity(_lostWallet);
+        _emitPrivateEvent(
+            EVENT_TYPE_RECOVERY_SUCCESS,
+            _lostWallet,
+            _newWallet,
+            abi.encode(_lostWallet, _newWallet, _investorOnchainID)
+        );
+        return true;
+    }
+
+    /**
+     *  @dev ERC-3643 (v4.1.6) requiring lists of the same length; each transfer goes through the confidential
+     *  `transfer`.
+     *  @dev See {IToken-batchTransfer}.
+     */
+    function batchTransfer(address[] calldata _toList, uint256[] calldata _amounts) external override {
+        require(_toList.length == _amounts.length, "batch length mismatch");
+        for (uint256 i = 0; i < _toList.length; i++) {
+            transfer(_toList[i], _amounts[i]);
+        }
+    }
+
+    /**
+     *  @dev ERC-3643 (v4.1.6) requiring lists of the same length; each transfer goes through the confidential
+     *  `forcedTransfer`.
+     *  @dev See {IToken-batchForcedTransfer}.
+     */
+    function batchForcedTransfer(
+        address[] calldata _fromList,
+        address[] calldata _toList,
+        uint256[] calldata _amounts
+    ) external override {
+        require(_fromList.length == _toList.length && _fromList.length == _amounts.length, "batch length mismatch");
+        for (uint256 i = 0; i < _fromList.length; i++) {
+            forcedTransfer(_fromList[i], _toList[i], _amounts[i]);
+        }
+    }
+
+    /**
+     *  @dev ERC-3643 (v4.1.6) requiring lists of the same length.
+     *  @dev See {IToken-batchMint}.
+     */
+    function batchMint(address[] calldata _toList, uint256[] calldata _amounts) external override {
+        require(_toList.length == _amounts.length, "batch length mismatch");
+        for (uint256 i = 0; i < _toList.length; i++) {
+            mint(_toList[i], _amounts[i]);
+        }
+    }
+
+    /**
+     *  @dev ERC-3643 (v4.1.6) requiring lists of the same length; each burn goes through the confidential `burn`.
+     *  @dev See {IToken-batchBurn}.
+     */
+    function batchBurn(address[] calldata _userAddresses, uint256[] calldata _amounts) external override {
+        require(_userAddresses.length == _amounts.length, "batch length mismatch");
+        for (uint256 i = 0; i < _userAddresses.length; i++) {
+            burn(_userAddresses[i], _amounts[i]);
+        }
+    }
+
+    /**
+     *  @dev ERC-3643 (v4.1.6) requiring lists of the same length; each change goes through the confidential
+     *  `setAddressFrozen`.
+     *  @dev See {IToken-batchSetAddressFrozen}.
+     */
+    function batchSetAddressFrozen(address[] calldata _userAddresses, bool[] calldata _freeze) external override {
+        require(_userAddresses.length == _freeze.length, "batch length mismatch");
+        for (uint256 i = 0; i < _userAddresses.length; i++) {
+            setAddressFrozen(_userAddresses[i], _freeze[i]);
+        }
+    }
+
+    /**
+     *  @dev ERC-3643 (v4.1.6) requiring lists of the same length; each freeze goes through the confidential
+     *  `freezePartialTokens`.
+     *  @dev See {IToken-batchFreezePartialTokens}.
+     */
+    function batchFreezePartialTokens(
+        address[] calldata _userAddresses,
+        uint256[] calldata _amounts
+    ) external override {
+        require(_userAddresses.length == _amounts.length, "batch length mismatch");
+        for (uint256 i = 0; i < _userAddresses.length; i++) {
+            freezePartialTokens(_userAddresses[i], _amounts[i]);
+        }
+    }
+
+    /**
+     *  @dev ERC-3643 (v4.1.6) requiring lists of the same length; each unfreeze goes through the confidential
+     *  `unfreezePartialTokens`.
+     *  @dev See {IToken-batchUnfreezePartialTokens}.
+     */
+    function batchUnfreezePartialTokens(
+        address[] calldata _userAddresses,
+        uint256[] calldata _amounts
+    ) external override {
+        require(_userAddresses.length == _amounts.length, "batch length mismatch");
+        for (uint256 i = 0; i < _userAddresses.length; i++) {
+            unfreezePartialTokens(_userAddresses[i], _amounts[i]);
+        }
     }
 
     /**
      * @dev Internal function to determine if an address is authorized to view a balance
-     * This implementation only owner or sender's identity are allowed to see balance. Can be overridden on derived contracts.
+     * This implementation only allows the balance viewers defined by {_canViewBalance}. Can be overridden on derived contracts.
      * @param account The address to check authorization for
      * @return bool True if authorized, false otherwise
      */
     function _authorizeBalance(address account) internal view virtual returns (bool) {
-        require(
-            msg.sender == account || address(IIdentityRegistry(_tokenIdentityRegistry).identity(msg.sender)) == account, 
-            'Unauthorized balance access'
-        );
+        require(_canViewBalance(msg.sender, account), 'Unauthorized balance access');
         return true;
     }
 
+    /**
+     * @dev Internal function to determine if `viewer` can see the balance of `account`
+     * Allows the account itself and the keys of its registered identity, plus the agents, token owner and regulator
+     * when enabled by {setBalanceViewers}, the modules of the token's compliance, and the holders of a viewer claim
+     * @param viewer The address attempting to view the balance
+     * @param account The address whose balance is being viewed
+     * @return bool True if `viewer` can view the balance
+     */
+    function _canViewBalance(address viewer, address account) internal view virtual returns (bool) {
+        if (viewer == account || _isIdentityKey(viewer, account)) {
+            return true;
+        }
+
+        uint8 viewers = _balanceViewers;
+        return
+            (viewers & BALANCE_VIEWERS_AGENTS != 0 && isAgent(viewer)) ||
+            (viewers & BALANCE_VIEWERS_OWNER != 0 && viewer == owner()) ||
+            (viewers & BALANCE_VIEWERS_REGULATOR != 0 && _regulator != address(0) && viewer == _regulator) ||
+            _isComplianceModule(viewer) ||
+            hasViewerClaim(viewer);
+    }
+
+    /**
+     * @dev Internal function to determine if `viewer` is a module bound to the token's compliance
+     * Returns false for compliance contracts that are not a ModularCompliance, such as legacy compliances
+     * @param viewer The address attempting to view the balance
+     * @return bool True if `viewer` is a module of the token's compliance
+     */
+    function _isComplianceModule(address viewer) internal view virtual returns (bool) {
+        address compliance = address(_tokenCompliance);
+        if (compliance.code.length == 0) {
+            return false;
+        }
+        try IModularCompliance(compliance).isModuleBound(viewer) returns (bool bound) {
+            return bound;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * @dev Internal function to determine if `viewer` is a MANAGEMENT (1) or ACTION (2) key of the ONCHAINID
+     * registered for `account` in the identity registry
+     * Returns false if `account` has no identity, or if the registered identity is not a contract or doesn't
+     * implement keyHasPurpose
+     * @param viewer The address attempting to view the balance
+     * @param account The address whose balance is being viewed
+     * @return bool True if `viewer` holds a MANAGEMENT or ACTION key on the identity of `account`
+     */
+    function _isIdentityKey(address viewer, address account) internal view virtual returns (bool) {
+        IIdentity onchainID = _tokenIdentityRegistry.identity(account);
+        if (address(onchainID).code.length == 0) {
+            return false;
+        }
+        bytes32 key = keccak256(abi.encode(viewer));
+        try onchainID.keyHasPurpose(key, 1) returns (bool isManagementKey) {
+            if (isManagementKey) {
+                return true;
+            }
+        } catch {
+            return false;
+        }
+        try onchainID.keyHasPurpose(key, 2) returns (bool isActionKey) {
+            return isActionKey;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * @dev Internal function to check that `_account` has at least `_amount` unfrozen tokens
+     * Reverts with "Insufficient Balance", or with "Transfer not possible" when errors are redacted and the caller
+     * is not `_account`, so the failure can't be told apart from identity and compliance failures
+     */
+    function _checkAvailableBalance(address _account, uint256 _amount) internal view {
+        if (_amount > _balanceOf(_account) - _frozenTokens[_account]) {
+            revert(_redactedErrors && msg.sender != _account ? "Transfer not possible" : "Insufficient Balance");
+        }
+    }
+
     /**
      * @dev Internal function to get the actual balance of an account
      * @param account The address to query the balance of
@@ -188,7 +846,7 @@ contract UCEF3643 is Token {
 
         _balances[_from] = _balances[_from] - _amount;
         _balances[_to] = _balances[_to] + _amount;
-        emit Transfer(address(0), address(0), 0);
+        _emitPrivateEvent(EVENT_TYPE_TRANSFER, _from, _to, abi.encode(_from, _to, _amount));
     }
 
     /**
@@ -201,7 +859,7 @@ contract UCEF3643 is Token {
 
         _totalSupply = _totalSupply + _amount;
         _balances[_userAddress] = _balances[_userAddress] + _amount;
-        emit Transfer(address(0), address(0), 0);
+        _emitPrivateEvent(EVENT_TYPE_TRANSFER, address(0), _userAddress, abi.encode(address(0), _userAddress, _amount));
     }
 
     /**
@@ -214,7 +872,7 @@ contract UCEF3643 is Token {
 
         _balances[_userAddress] = _balances[_userAddress] - _amount;
         _totalSupply = _totalSupply - _amount;
-        emit Transfer(address(0), address(0), 0);
+        _emitPrivateEvent(EVENT_TYPE_TRANSFER, _userAddress, address(0), abi.encode(_userAddress, address(0), _amount));
     }
 
     /**
@@ -229,7 +887,7 @@ contract UCEF3643 is Token {
         require(_spender != address(0), "ERC20: approve to the zero address");
 
         _allowances[_owner][_spender] = _amount;
-        emit Approval(address(0), address(0), 0);
+        _emitPrivateEvent(EVENT_TYPE_APPROVAL, _owner, _spender, abi.encode(_owner, _spender, _amount));
     }
 
     /**
@@ -238,4 +896,111 @@ contract UCEF3643 is Token {
     function _allowance(address owner, address spender) internal view returns (uint256) {
         return _allowances[owner][spender];
     }
+
+    /**
+     * @dev Internal function to emit private events
+     * Can be overridden by derived contracts to implement custom emission logic
+     * @param eventType The keccak256 hash of the original event signature
+     * @param party1 First account involved in the event, address(0) if none
+     * @param party2 Second account involved in the event, address(0) if none
+     * @param payload The ABI-encoded event arguments
+     */
+    function _emitPrivateEvent(bytes32 eventType, address party1, address party2, bytes memory payload) internal virtual {
+        emit PrivateEvent(_getEventViewers(eventType, party1, party2), eventType, payload);
+    }
+
+    /**
+     * @dev Internal function to determine who can view private events
+     * Can be overridden by derived contracts to implement custom viewer logic
+     * Default implementation: the parties, agents and token owner, as configured by {setEventViewers}, followed by
+     * the registered claim viewers while viewer claim topics are set
+     * @param eventType The keccak256 hash of the original event signature (available for derived contracts)
+     * @param party1 First account involved in the event, address(0) if none
+     * @param party2 Second account involved in the event, address(0) if none
+     * @return allowedViewers Array of unique addresses authorized to view the event
+     */
+    function _getEventViewers(
+        bytes32 eventType,
+        address party1,
+        address party2
+    ) internal view virtual returns (address[] memory allowedViewers) {
+        eventType; // Available for derived contracts
+
+        uint8 viewers = eventViewers();
+        uint256 agentCount = viewers & EVENT_VIEWERS_AGENTS != 0 ? _agentList.length() : 0;
+        uint256 claimViewerCount = _viewerClaimTopics.length != 0 ? _claimViewers.length() : 0;
+        allowedViewers = new address[](agentCount + claimViewerCount + 3);
+
+        uint256 viewerCount = 0;
+        if (viewers & EVENT_VIEWERS_PARTIES != 0) {
+            viewerCount = _addViewer(allowedViewers, viewerCount, party1);
+            viewerCount = _addViewer(allowedViewers, viewerCount, party2);
+        }
+        for (uint256 i = 0; i < agentCount; i++) {
+            viewerCount = _addViewer(allowedViewers, viewerCount, _agentList.at(i));
+        }
+        if (viewers & EVENT_VIEWERS_OWNER != 0) {
+            viewerCount = _addViewer(allowedViewers, viewerCount, owner());
+        }
+        for (uint256 i = 0; i < claimViewerCount; i++) {
+            viewerCount = _addViewer(allowedViewers, viewerCount, _claimViewers.at(i));
+        }
+
+        assembly ("memory-safe") {
+            mstore(allowedViewers, viewerCount)
+        }
+    }
+
+    /**
+     * @dev Returns whether `_onchainID` carries a valid claim of `_claimTopic` from an issuer trusted for that topic
+     * Issuers reverting on validation are skipped, as done by the identity registry, and identities reverting on getClaim
+     * are treated as holding no claim
+     */
+    function _hasValidClaim(
+        ITrustedIssuersRegistry _issuersRegistry,
+        IIdentity _onchainID,
+        uint256 _claimTopic
+    ) private view returns (bool) {
+        IClaimIssuer[] memory issuers = _issuersRegistry.getTrustedIssuersForClaimTopic(_claimTopic);
+        for (uint256 i = 0; i < issuers.length; i++) {
+            bytes32 claimId = keccak256(abi.encode(issuers[i], _claimTopic));
+            try _onchainID.getClaim(claimId) returns (
+                uint256 topic,
+                uint256,
+                address issuer,
+                bytes memory sig,
+                bytes memory data,
+                string memory
+            ) {
+                if (topic != _claimTopic) {
+                    continue;
+                }
+                try IClaimIssuer(issuer).isClaimValid(_onchainID, _claimTopic, sig, data) returns (bool valid) {
+                    if (valid) {
+                        return true;
+                    }
+                } catch {}
+            } catch {
+                return false;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * @dev Adds `viewer` to a viewer list unless it is the zero address or already listed
+     * @return The new number of viewers in the list
+     */
+    function _addViewer(address[] memory viewers, uint256 viewerCount, address viewer) private pure returns (uint256) {
+        if (viewer == address(0)) {
+            return viewerCount;
+        }
+        for (uint256 i = 0; i < viewerCount; i++) {
+            if (viewers[i] == viewer) {
+                return viewerCount;
+            }
+        }
+        viewers[viewerCount] = viewer;
+        return viewerCount + 1;
+    }
 }
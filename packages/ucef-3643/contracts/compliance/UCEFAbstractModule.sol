@@ -0,0 +1,65 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.17;
+
+import {AbstractModule} from "@tokenysolutions/t-rex/contracts/compliance/modular/modules/AbstractModule.sol";
+import {IModularCompliance} from "@tokenysolutions/t-rex/contracts/compliance/modular/IModularCompliance.sol";
+import {IToken} from "@tokenysolutions/t-rex/contracts/token/IToken.sol";
+
+/**
+ * @title UCEFAbstractModule
+ * @dev Base of the UCEF3643-aware compliance modules.
+ *
+ * T-REX modules keep their own copy of the holders' state behind public getters and events, or read balances
+ * from contracts that UCEF3643 doesn't authorize. UCEF3643 lets the modules bound to its ModularCompliance read
+ * every balance, so these modules read the token balances directly and keep any other state private.
+ *
+ * Since a bound module can read every balance, and any contract can bind itself to a module, the functions reading
+ * balances must be restricted with {onlyTokenCompliance}: otherwise anyone could call them through a fake compliance
+ * to probe balances.
+ *
+ * NOTE: `canTransfer` of the ModularCompliance is public, so the result of the checks depending on balances, such as
+ * the maximum balance, can still be queried by anyone.
+ */
+abstract contract UCEFAbstractModule is AbstractModule {
+    /**
+     * @dev Throws if `_compliance` is not the caller, or if it is not the compliance of the token it is bound to.
+     */
+    modifier onlyTokenCompliance(address _compliance) {
+        require(msg.sender == _compliance, "only token compliance can call");
+        require(address(_getToken(_compliance).compliance()) == _compliance, "only token compliance can call");
+        _;
+    }
+
+    /**
+     * @dev Internal function to get the token bound to `_compliance`
+     */
+    function _getToken(address _compliance) internal view returns (IToken) {
+        return IToken(IModularCompliance(_compliance).getTokenBound());
+    }
+
+    /**
+     * @dev Internal function to get the balance of `_account` on the token bound to `_compliance`
+     * Requires the token to let the compliance modules read balances, as UCEF3643 does
+     */
+    function _balanceOf(address _compliance, address _account) internal view returns (uint256) {
+        return _getToken(_compliance).balanceOf(_account);
+    }
+
+    /**
+     * @dev Internal function to get the investor owning `_account`: its identity in the identity registry of the
+     * token bound to `_compliance`, or the wallet itself if it has no registered identity
+     */
+    function _investorOf(address _compliance, address _account) internal view returns (address) {
+        address identity = address(_getToken(_compliance).identityRegistry().identity(_account));
+        return identity == address(0) ? _account : identity;
+    }
+
+    /**
+     * @dev Internal function to get the country of `_account` in the identity registry of the token bound to
+     * `_compliance`
+     */
+    function _investorCountry(address _compliance, address _account) internal view returns (uint16) {
+        return _getToken(_compliance).identityRegistry().investorCountry(_account);
+    }
+}
@@ -0,0 +1,152 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.17;
+
+import {UCEFAbstractModule} from "./UCEFAbstractModule.sol";
+
+/**
+ * @title UCEFCountryRestrictionsModule
+ * @dev Compliance module restricting the countries of the receivers, as registered in the identity registry.
+ *
+ * Combines an allow list and a deny list: receivers from a denied country are rejected, and while the allow list
+ * is not empty, receivers from a country outside of it are rejected too. Countries are expressed following the
+ * numeric ISO 3166-1 standard.
+ *
+ * The lists are set per compliance by its owner, through {IModularCompliance-callModuleFunction}.
+ */
+contract UCEFCountryRestrictionsModule is UCEFAbstractModule {
+    /// allowed countries per modular compliance
+    mapping(address => mapping(uint16 => bool)) private _allowedCountries;
+
+    /// number of allowed countries per modular compliance
+    mapping(address => uint256) private _allowedCountryCount;
+
+    /// denied countries per modular compliance
+    mapping(address => mapping(uint16 => bool)) private _deniedCountries;
+
+    /**
+     * @dev Emitted when a country is added to or removed from the allow list of a compliance
+     * @param _compliance The modular compliance concerned
+     * @param _country The numeric ISO 3166-1 code of the country
+     * @param _allowed Whether the country is in the allow list
+     */
+    event CountryAllowedSet(address indexed _compliance, uint16 _country, bool _allowed);
+
+    /**
+     * @dev Emitted when a country is added to or removed from the deny list of a compliance
+     * @param _compliance The modular compliance concerned
+     * @param _country The numeric ISO 3166-1 code of the country
+     * @param _denied Whether the country is in the deny list
+     */
+    event CountryDeniedSet(address indexed _compliance, uint16 _country, bool _denied);
+
+    /**
+     * @dev Adds `_countries` to the allow list, or removes them from it
+     * Only the owner of the Compliance smart contract can call this function
+     * @param _countries The numeric ISO 3166-1 codes of the countries
+     * @param _allowed Whether the countries are allowed
+     */
+    function batchSetAllowedCountries(uint16[] calldata _countries, bool _allowed) external onlyComplianceCall {
+        for (uint256 i = 0; i < _countries.length; i++) {
+            if (_allowedCountries[msg.sender][_countries[i]] == _allowed) {
+                continue;
+            }
+            _allowedCountries[msg.sender][_countries[i]] = _allowed;
+            if (_allowed) {
+                _allowedCountryCount[msg.sender]++;
+            } else {
+                _allowedCountryCount[msg.sender]--;
+            }
+            emit CountryAllowedSet(msg.sender, _countries[i], _allowed);
+        }
+    }
+
+    /**
+     * @dev Adds `_countries` to the deny list, or removes them from it
+     * Only the owner of the Compliance smart contract can call this function
+     * @param _countries The numeric ISO 3166-1 codes of the countries
+     * @param _denied Whether the countries are denied
+     */
+    function batchSetDeniedCountries(uint16[] calldata _countries, bool _denied) external onlyComplianceCall {
+        for (uint256 i = 0; i < _countries.length; i++) {
+            if (_deniedCountries[msg.sender][_countries[i]] == _denied) {
+                continue;
+            }
+            _deniedCountries[msg.sender][_countries[i]] = _denied;
+            emit CountryDeniedSet(msg.sender, _countries[i], _denied);
+        }
+    }
+
+    /**
+     * @dev Returns whether `_country` is in the allow list of `_compliance`
+     */
+    function isCountryAllowed(address _compliance, uint16 _country) external view returns (bool) {
+        return _allowedCountries[_compliance][_country];
+    }
+
+    /**
+     * @dev Returns whether `_country` is in the deny list of `_compliance`
+     */
+    function isCountryDenied(address _compliance, uint16 _country) external view returns (bool) {
+        return _deniedCountries[_compliance][_country];
+    }
+
+    /**
+     * @dev See {IModule-moduleTransferAction}.
+     * no transfer action required in this module
+     */
+    // solhint-disable-next-line no-empty-blocks
+    function moduleTransferAction(address _from, address _to, uint256 _value) external override onlyComplianceCall {}
+
+    /**
+     * @dev See {IModule-moduleMintAction}.
+     * no mint action required in this module
+     */
+    // solhint-disable-next-line no-empty-blocks
+    function moduleMintAction(address _to, uint256 _value) external override onlyComplianceCall {}
+
+    /**
+     * @dev See {IModule-moduleBurnAction}.
+     * no burn action required in this module
+     */
+    // solhint-disable-next-line no-empty-blocks
+    function moduleBurnAction(address _from, uint256 _value) external override onlyComplianceCall {}
+
+    /**
+     * @dev See {IModule-moduleCheck}.
+     * Returns false if the country of `_to` is denied, or if it is not allowed while the allow list is not empty
+     */
+    function moduleCheck(
+        address /*_from*/,
+        address _to,
+        uint256 /*_value*/,
+        address _compliance
+    ) external view override returns (bool) {
+        uint16 country = _investorCountry(_compliance, _to);
+        if (_deniedCountries[_compliance][country]) {
+            return false;
+        }
+        return _allowedCountryCount[_compliance] == 0 || _allowedCountries[_compliance][country];
+    }
+
+    /**
+     * @dev See {IModule-canComplianceBind}.
+     */
+    function canComplianceBind(address /*_compliance*/) external pure override returns (bool) {
+        return true;
+    }
+
+    /**
+     * @dev See {IModule-isPlugAndPlay}.
+     */
+    function isPlugAndPlay() external pure override returns (bool) {
+        return true;
+    }
+
+    /**
+     * @dev See {IModule-name}.
+     */
+    function name() public pure override returns (string memory _name) {
+        return "UCEFCountryRestrictionsModule";
+    }
+}
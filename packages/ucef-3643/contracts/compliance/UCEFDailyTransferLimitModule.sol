@@ -0,0 +1,127 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.17;
+
+import {UCEFAbstractModule} from "./UCEFAbstractModule.sol";
+
+/**
+ * @title UCEFDailyTransferLimitModule
+ * @dev Compliance module limiting the amount each investor can transfer per day (UTC) across its wallets.
+ *
+ * As in the T-REX TimeTransfersLimitsModule, transfers are counted per ONCHAINID, so that investors can't get around
+ * the limit by spreading their tokens over several wallets. Wallets without a registered identity are counted on
+ * their own. Unlike the T-REX module, whose counters are public, the amount transferred by each investor is
+ * kept private to the module, and the checks can only be run by the token compliance. Mints are not limited, while
+ * forced transfers and recoveries, which skip the compliance checks, are still counted.
+ *
+ * The limit is set per compliance by its owner, through {IModularCompliance-callModuleFunction}. A limit of zero
+ * disables the module.
+ */
+contract UCEFDailyTransferLimitModule is UCEFAbstractModule {
+    struct TransferCounter {
+        uint256 day;
+        uint256 value;
+    }
+
+    /// daily transfer limit per investor per modular compliance
+    mapping(address => uint256) private _dailyLimit;
+
+    /// amount transferred by each investor on its last transfer day per modular compliance
+    mapping(address => mapping(address => TransferCounter)) private _counters;
+
+    /**
+     * @dev Emitted when the daily transfer limit is set for a compliance
+     * @param _compliance The modular compliance concerned
+     * @param _dailyLimit The maximum amount each investor can transfer per day
+     */
+    event DailyTransferLimitSet(address indexed _compliance, uint256 _dailyLimit);
+
+    /**
+     * @dev Sets the maximum amount each investor can transfer per day
+     * Only the owner of the Compliance smart contract can call this function
+     * @param _limit The daily transfer limit, zero to disable the limit
+     */
+    function setDailyTransferLimit(uint256 _limit) external onlyComplianceCall {
+        _dailyLimit[msg.sender] = _limit;
+        emit DailyTransferLimitSet(msg.sender, _limit);
+    }
+
+    /**
+     * @dev Returns the daily transfer limit of `_compliance`
+     */
+    function getDailyTransferLimit(address _compliance) external view returns (uint256) {
+        return _dailyLimit[_compliance];
+    }
+
+    /**
+     * @dev See {IModule-moduleTransferAction}.
+     * Adds `_value` to the amount transferred by the investor of `_from` today
+     */
+    function moduleTransferAction(
+        address _from,
+        address /*_to*/,
+        uint256 _value
+    ) external override onlyComplianceCall onlyTokenCompliance(msg.sender) {
+        TransferCounter storage counter = _counters[msg.sender][_investorOf(msg.sender, _from)];
+        uint256 today = block.timestamp / 1 days;
+        if (counter.day != today) {
+            counter.day = today;
+            counter.value = 0;
+        }
+        counter.value += _value;
+    }
+
+    /**
+     * @dev See {IModule-moduleMintAction}.
+     * no mint action required in this module
+     */
+    // solhint-disable-next-line no-empty-blocks
+    function moduleMintAction(address _to, uint256 _value) external override onlyComplianceCall {}
+
+    /**
+     * @dev See {IModule-moduleBurnAction}.
+     * no burn action required in this module
+     */
+    // solhint-disable-next-line no-empty-blocks
+    function moduleBurnAction(address _from, uint256 _value) external override onlyComplianceCall {}
+
+    /**
+     * @dev See {IModule-moduleCheck}.
+     * Returns false if the investor of `_from` would exceed the daily transfer limit
+     */
+    function moduleCheck(
+        address _from,
+        address /*_to*/,
+        uint256 _value,
+        address _compliance
+    ) external view override onlyTokenCompliance(_compliance) returns (bool) {
+        uint256 limit = _dailyLimit[_compliance];
+        if (_from == address(0) || limit == 0) {
+            return true;
+        }
+        TransferCounter storage counter = _counters[_compliance][_investorOf(_compliance, _from)];
+        uint256 transferred = counter.day == block.timestamp / 1 days ? counter.value : 0;
+        return transferred + _value <= limit;
+    }
+
+    /**
+     * @dev See {IModule-canComplianceBind}.
+     */
+    function canComplianceBind(address /*_compliance*/) external pure override returns (bool) {
+        return true;
+    }
+
+    /**
+     * @dev See {IModule-isPlugAndPlay}.
+     */
+    function isPlugAndPlay() external pure override returns (bool) {
+        return true;
+    }
+
+    /**
+     * @dev See {IModule-name}.
+     */
+    function name() public pure override returns (string memory _name) {
+        return "UCEFDailyTransferLimitModule";
+    }
+}
@@ -0,0 +1,140 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.17;
+
+import {UCEFAbstractModule} from "./UCEFAbstractModule.sol";
+
+/**
+ * @title UCEFMaxBalanceModule
+ * @dev Compliance module limiting the balance each investor can hold across its wallets.
+ *
+ * As in the T-REX MaxBalanceModule, balances are tracked per ONCHAINID, so that investors can't get around the limit
+ * by spreading their tokens over several wallets. Wallets without a registered identity are tracked on their own.
+ * The balances are updated after each transfer, mint and burn, so the module must be bound before the first mint,
+ * and unlike the T-REX module they are kept private to the module.
+ *
+ * Balances are tracked under the identity of the wallets at the time of each operation, so tokens held by a wallet
+ * whose identity is updated stay counted for its previous identity.
+ *
+ * The limit is set per compliance by its owner, through {IModularCompliance-callModuleFunction}.
+ */
+contract UCEFMaxBalanceModule is UCEFAbstractModule {
+    /// maximum balance per investor per modular compliance
+    mapping(address => uint256) private _maxBalance;
+
+    /// balance of each investor per modular compliance
+    mapping(address => mapping(address => uint256)) private _investorBalances;
+
+    /**
+     * @dev Emitted when the max balance is set for a compliance
+     * @param _compliance The modular compliance concerned
+     * @param _maxBalance The maximum balance each investor can hold
+     */
+    event MaxBalanceSet(address indexed _compliance, uint256 _maxBalance);
+
+    /**
+     * @dev Sets the maximum balance each investor can hold
+     * Only the owner of the Compliance smart contract can call this function
+     * @param _max The maximum balance
+     */
+    function setMaxBalance(uint256 _max) external onlyComplianceCall {
+        _maxBalance[msg.sender] = _max;
+        emit MaxBalanceSet(msg.sender, _max);
+    }
+
+    /**
+     * @dev Returns the maximum balance each investor can hold for `_compliance`
+     */
+    function getMaxBalance(address _compliance) external view returns (uint256) {
+        return _maxBalance[_compliance];
+    }
+
+    /**
+     * @dev See {IModule-moduleTransferAction}.
+     * Moves `_value` from the balance of the investor of `_from` to the balance of the investor of `_to`
+     */
+    function moduleTransferAction(
+        address _from,
+        address _to,
+        uint256 _value
+    ) external override onlyComplianceCall onlyTokenCompliance(msg.sender) {
+        address fromInvestor = _investorOf(msg.sender, _from);
+        address toInvestor = _investorOf(msg.sender, _to);
+        if (fromInvestor == toInvestor) {
+            return;
+        }
+        _decreaseBalance(msg.sender, fromInvestor, _value);
+        _investorBalances[msg.sender][toInvestor] += _value;
+    }
+
+    /**
+     * @dev See {IModule-moduleMintAction}.
+     * Adds `_value` to the balance of the investor of `_to`
+     */
+    function moduleMintAction(
+        address _to,
+        uint256 _value
+    ) external override onlyComplianceCall onlyTokenCompliance(msg.sender) {
+        _investorBalances[msg.sender][_investorOf(msg.sender, _to)] += _value;
+    }
+
+    /**
+     * @dev See {IModule-moduleBurnAction}.
+     * Removes `_value` from the balance of the investor of `_from`
+     */
+    function moduleBurnAction(
+        address _from,
+        uint256 _value
+    ) external override onlyComplianceCall onlyTokenCompliance(msg.sender) {
+        _decreaseBalance(msg.sender, _investorOf(msg.sender, _from), _value);
+    }
+
+    /**
+     * @dev See {IModule-moduleCheck}.
+     * Returns false if the balance of the investor of `_to` would exceed the maximum balance
+     * Transfers between wallets of the same investor are always allowed, as they don't change its balance
+     */
+    function moduleCheck(
+        address _from,
+        address _to,
+        uint256 _value,
+        address _compliance
+    ) external view override onlyTokenCompliance(_compliance) returns (bool) {
+        address toInvestor = _investorOf(_compliance, _to);
+        if (_from != address(0) && _investorOf(_compliance, _from) == toInvestor) {
+            return true;
+        }
+        return _investorBalances[_compliance][toInvestor] + _value <= _maxBalance[_compliance];
+    }
+
+    /**
+     * @dev See {IModule-canComplianceBind}.
+     * The investor balances start at zero, so the token must have no supply
+     */
+    function canComplianceBind(address _compliance) external view override returns (bool) {
+        return _getToken(_compliance).totalSupply() == 0;
+    }
+
+    /**
+     * @dev See {IModule-isPlugAndPlay}.
+     */
+    function isPlugAndPlay() external pure override returns (bool) {
+        return false;
+    }
+
+    /**
+     * @dev See {IModule-name}.
+     */
+    function name() public pure override returns (string memory _name) {
+        return "UCEFMaxBalanceModule";
+    }
+
+    /**
+     * @dev Removes `_value` from the balance of `_investor`, which holds less than that if the tokens were counted for
+     * another identity of the wallet
+     */
+    function _decreaseBalance(address _compliance, address _investor, uint256 _value) private {
+        uint256 balance = _investorBalances[_compliance][_investor];
+        _investorBalances[_compliance][_investor] = balance > _value ? balance - _value : 0;
+    }
+}
@@ -0,0 +1,134 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.17;
+
+import {UCEFAbstractModule} from "./UCEFAbstractModule.sol";
+
+/**
+ * @title UCEFMaxHoldersModule
+ * @dev Compliance module limiting the number of wallets holding the token.
+ *
+ * The holder count is updated after each transfer, mint and burn from the token balances of the wallets involved,
+ * so the module must be bound before the first mint. The count is kept private to the module.
+ *
+ * The limit is set per compliance by its owner, through {IModularCompliance-callModuleFunction}.
+ */
+contract UCEFMaxHoldersModule is UCEFAbstractModule {
+    /// maximum number of holders per modular compliance
+    mapping(address => uint256) private _maxHolders;
+
+    /// number of holders per modular compliance
+    mapping(address => uint256) private _holderCount;
+
+    /**
+     * @dev Emitted when the max holders are set for a compliance
+     * @param _compliance The modular compliance concerned
+     * @param _maxHolders The maximum number of wallets holding the token
+     */
+    event MaxHoldersSet(address indexed _compliance, uint256 _maxHolders);
+
+    /**
+     * @dev Sets the maximum number of wallets holding the token
+     * Only the owner of the Compliance smart contract can call this function
+     * @param _max The maximum number of holders
+     */
+    function setMaxHolders(uint256 _max) external onlyComplianceCall {
+        _maxHolders[msg.sender] = _max;
+        emit MaxHoldersSet(msg.sender, _max);
+    }
+
+    /**
+     * @dev Returns the maximum number of wallets holding the token for `_compliance`
+     */
+    function getMaxHolders(address _compliance) external view returns (uint256) {
+        return _maxHolders[_compliance];
+    }
+
+    /**
+     * @dev See {IModule-moduleTransferAction}.
+     * Counts `_to` as a new holder if it only holds the transferred tokens, and removes `_from` if it holds none
+     */
+    function moduleTransferAction(
+        address _from,
+        address _to,
+        uint256 _value
+    ) external override onlyComplianceCall onlyTokenCompliance(msg.sender) {
+        if (_from == _to || _value == 0) {
+            return;
+        }
+        if (_balanceOf(msg.sender, _to) == _value) {
+            _holderCount[msg.sender]++;
+        }
+        if (_balanceOf(msg.sender, _from) == 0) {
+            _holderCount[msg.sender]--;
+        }
+    }
+
+    /**
+     * @dev See {IModule-moduleMintAction}.
+     * Counts `_to` as a new holder if it only holds the minted tokens
+     */
+    function moduleMintAction(
+        address _to,
+        uint256 _value
+    ) external override onlyComplianceCall onlyTokenCompliance(msg.sender) {
+        if (_value != 0 && _balanceOf(msg.sender, _to) == _value) {
+            _holderCount[msg.sender]++;
+        }
+    }
+
+    /**
+     * @dev See {IModule-moduleBurnAction}.
+     * Removes `_from` from the holders if it holds no tokens left
+     */
+    function moduleBurnAction(
+        address _from,
+        uint256 _value
+    ) external override onlyComplianceCall onlyTokenCompliance(msg.sender) {
+        if (_value != 0 && _balanceOf(msg.sender, _from) == 0) {
+            _holderCount[msg.sender]--;
+        }
+    }
+
+    /**
+     * @dev See {IModule-moduleCheck}.
+     * Returns false if `_to` would be a new holder once the maximum number of holders is reached, unless `_from`
+     * transfers its whole balance
+     */
+    function moduleCheck(
+        address _from,
+        address _to,
+        uint256 _value,
+        address _compliance
+    ) external view override onlyTokenCompliance(_compliance) returns (bool) {
+        if (_from == _to || _value == 0 || _holderCount[_compliance] < _maxHolders[_compliance]) {
+            return true;
+        }
+        if (_balanceOf(_compliance, _to) != 0) {
+            return true;
+        }
+        return _from != address(0) && _balanceOf(_compliance, _from) == _value;
+    }
+
+    /**
+     * @dev See {IModule-canComplianceBind}.
+     * The holder count starts at zero, so the token must have no supply
+     */
+    function canComplianceBind(address _compliance) external view override returns (bool) {
+        return _getToken(_compliance).totalSupply() == 0;
+    }
+
+    /**
+     * @dev See {IModule-isPlugAndPlay}.
+     */
+    function isPlugAndPlay() external pure override returns (bool) {
+        return false;
+    }
+
+    /**
+     * @dev See {IModule-name}.
+     */
+    function name() public pure override returns (string memory _name) {
+        return "UCEFMaxHoldersModule";
+    }
+}
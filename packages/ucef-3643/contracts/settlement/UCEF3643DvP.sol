@@ -0,0 +1,379 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.17;
+
+import {IToken} from "@tokenysolutions/t-rex/contracts/token/IToken.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+/**
+ * @dev Tokens exposing a regulator, such as UCEF3643 and UCEFRegulated
+ */
+interface IRegulatedToken {
+    function regulator() external view returns (address);
+}
+
+/**
+ * @title UCEF3643DvP
+ * @dev Delivery-versus-payment settlement of UCEF3643 securities against a confidential cash token (e.g. a UCEF
+ * token), removing the counterparty risk of two separate transfers.
+ *
+ * A settlement is created by the seller or the buyer with the terms of both legs, then each counterparty locks its
+ * leg:
+ * - the seller's securities are frozen in place with `freezePartialTokens`, so the DvP must be an agent of the
+ *   securities token. They stay in the seller's wallet, which keeps the holder-based compliance rules accurate
+ * - the buyer's cash is held by the DvP, which must be approved to transfer it
+ *
+ * Once both legs are locked, either counterparty can settle: the securities are unfrozen and moved from the seller
+ * to the buyer with `transferFrom`, and the cash from the DvP to the seller, in the same transaction. The seller must
+ * therefore approve the DvP to transfer the securities. Going through `transferFrom` rather than an agent transfer
+ * lets the securities token enforce its own checks: it must not be paused, neither wallet may be frozen, the buyer
+ * must be verified in the identity registry and the compliance must accept the transfer from the seller to the
+ * buyer. The DvP never reads the balances or frozen status of the counterparties, so it doesn't need to be allowed to
+ * view them. Until it is settled, either counterparty can cancel the settlement, which unfreezes the securities and
+ * refunds the cash of the locked legs.
+ *
+ * The terms of a settlement are only readable by its counterparties and the regulators of both tokens, and every
+ * state change is emitted as a Silent Data PrivateEvent visible to them only, using the same scheme as UCEF3643.
+ */
+contract UCEF3643DvP {
+    using SafeERC20 for IERC20;
+
+    // Event type constants for Private Events
+    /**
+    * @notice SettlementCreated event parameter mapping:
+    *   - uint256 param0: settlementId     - Identifier of the settlement
+    *   - address param1: seller           - Counterparty delivering the securities
+    *   - address param2: buyer            - Counterparty paying the cash
+    *   - address param3: securities       - UCEF3643 token delivered
+    *   - uint256 param4: securitiesAmount - Amount of securities delivered
+    *   - address param5: cash             - Token paid
+    *   - uint256 param6: cashAmount       - Amount of cash paid
+    * @custom:signature SettlementCreated(uint256 settlementId, address seller, address buyer, address securities, uint256 securitiesAmount, address cash, uint256 cashAmount)
+    */
+    bytes32 public constant EVENT_TYPE_SETTLEMENT_CREATED =
+        keccak256("SettlementCreated(uint256,address,address,address,uint256,address,uint256)");
+    /**
+    * @notice SettlementLegLocked event parameter mapping:
+    *   - uint256 param0: settlementId - Identifier of the settlement
+    *   - address param1: party        - Counterparty that locked its leg
+    *   - address param2: token        - Token locked
+    *   - uint256 param3: amount       - Amount of tokens locked
+    * @custom:signature SettlementLegLocked(uint256 settlementId, address party, address token, uint256 amount)
+    */
+    bytes32 public constant EVENT_TYPE_SETTLEMENT_LEG_LOCKED =
+        keccak256("SettlementLegLocked(uint256,address,address,uint256)");
+    /**
+    * @notice SettlementExecuted event parameter mapping:
+    *   - uint256 param0: settlementId - Identifier of the settlement
+    * @custom:signature SettlementExecuted(uint256 settlementId)
+    */
+    bytes32 public constant EVENT_TYPE_SETTLEMENT_EXECUTED = keccak256("SettlementExecuted(uint256)");
+    /**
+    * @notice SettlementCancelled event parameter mapping:
+    *   - uint256 param0: settlementId - Identifier of the settlement
+    *   - address param1: cancelledBy  - Counterparty that cancelled the settlement
+    * @custom:signature SettlementCancelled(uint256 settlementId, address cancelledBy)
+    */
+    bytes32 public constant EVENT_TYPE_SETTLEMENT_CANCELLED = keccak256("SettlementCancelled(uint256,address)");
+
+    enum SettlementStatus {
+        None,
+        Pending,
+        Executed,
+        Cancelled
+    }
+
+    struct Settlement {
+        address seller;
+        address buyer;
+        IToken securities;
+        uint256 securitiesAmount;
+        IERC20 cash;
+        uint256 cashAmount;
+        bool securitiesLocked;
+        bool cashLocked;
+        SettlementStatus status;
+    }
+
+    mapping(uint256 => Settlement) private _settlements;
+    uint256 private _nextSettlementId;
+
+    /**
+     * @dev Private Event for selective visibility of on-chain events
+     * @param allowedViewers List of addresses authorized to view the event
+     * @param eventType The keccak256 hash of the original event signature
+     * @param payload The ABI-encoded event arguments
+     */
+    event PrivateEvent(address[] allowedViewers, bytes32 indexed eventType, bytes payload);
+
+    /**
+     * @dev Returns the terms and state of a settlement
+     * @param _settlementId The identifier of the settlement
+     *
+     * Requirements:
+     * - The caller must be a counterparty or the regulator of one of the tokens
+     */
+    function getSettlement(uint256 _settlementId) external view returns (Settlement memory) {
+        Settlement storage settlement = _getSettlement(_settlementId);
+        require(_canViewSettlement(msg.sender, settlement), "Unauthorized settlement access");
+        return settlement;
+    }
+
+    /**
+     * @dev Creates a settlement delivering `_securitiesAmount` of `_securities` from `_seller` to `_buyer` against
+     * `_cashAmount` of `_cash` from `_buyer` to `_seller`
+     * @return settlementId The identifier of the settlement
+     *
+     * Requirements:
+     * - The caller must be `_seller` or `_buyer`
+     * - `_seller` and `_buyer` must be different non-zero addresses
+     * - Both amounts must be non-zero
+     *
+     * Emits a SettlementCreated private event
+     */
+    function createSettlement(
+        address _seller,
+        address _buyer,
+        IToken _securities,
+        uint256 _securitiesAmount,
+        IERC20 _cash,
+        uint256 _cashAmount
+    ) external returns (uint256 settlementId) {
+        require(msg.sender == _seller || msg.sender == _buyer, "only counterparties can create");
+        require(_seller != address(0) && _buyer != address(0) && _seller != _buyer, "invalid counterparties");
+        require(address(_securities) != address(0) && address(_cash) != address(0), "invalid tokens");
+        require(_securitiesAmount != 0 && _cashAmount != 0, "invalid amounts");
+
+        settlementId = _nextSettlementId++;
+        Settlement storage settlement = _settlements[settlementId];
+        settlement.seller = _seller;
+        settlement.buyer = _buyer;
+        settlement.securities = _securities;
+        settlement.securitiesAmount = _securitiesAmount;
+        settlement.cash = _cash;
+        settlement.cashAmount = _cashAmount;
+        settlement.status = SettlementStatus.Pending;
+
+        _emitPrivateEvent(
+            settlement,
+            EVENT_TYPE_SETTLEMENT_CREATED,
+            abi.encode(
+                settlementId,
+                _seller,
+                _buyer,
+                address(_securities),
+                _securitiesAmount,
+                address(_cash),
+                _cashAmount
+            )
+        );
+    }
+
+    /**
+     * @dev Locks the securities leg by freezing the securities of the seller
+     * @param _settlementId The identifier of the settlement
+     *
+     * Requirements:
+     * - The caller must be the seller of a pending settlement whose securities are not locked yet
+     * - The DvP must be an agent of the securities token
+     * - The seller must hold enough unfrozen securities
+     *
+     * Emits a SettlementLegLocked private event
+     */
+    function lockSecurities(uint256 _settlementId) external {
+        Settlement storage settlement = _getPendingSettlement(_settlementId);
+        require(msg.sender == settlement.seller, "only seller can lock securities");
+        require(!settlement.securitiesLocked, "securities already locked");
+
+        settlement.securitiesLocked = true;
+        settlement.securities.freezePartialTokens(settlement.seller, settlement.securitiesAmount);
+
+        _emitPrivateEvent(
+            settlement,
+            EVENT_TYPE_SETTLEMENT_LEG_LOCKED,
+            abi.encode(_settlementId, settlement.seller, address(settlement.securities), settlement.securitiesAmount)
+        );
+    }
+
+    /**
+     * @dev Locks the cash leg by transferring the cash of the buyer to the DvP
+     * @param _settlementId The identifier of the settlement
+     *
+     * Requirements:
+     * - The caller must be the buyer of a pending settlement whose cash is not locked yet
+     * - The DvP must be allowed to transfer the cash of the buyer
+     *
+     * Emits a SettlementLegLocked private event
+     */
+    function lockCash(uint256 _settlementId) external {
+        Settlement storage settlement = _getPendingSettlement(_settlementId);
+        require(msg.sender == settlement.buyer, "only buyer can lock cash");
+        require(!settlement.cashLocked, "cash already locked");
+
+        settlement.cashLocked = true;
+        settlement.cash.safeTransferFrom(settlement.buyer, address(this), settlement.cashAmount);
+
+        _emitPrivateEvent(
+            settlement,
+            EVENT_TYPE_SETTLEMENT_LEG_LOCKED,
+            abi.encode(_settlementId, settlement.buyer, address(settlement.cash), settlement.cashAmount)
+        );
+    }
+
+    /**
+     * @dev Executes both legs of a settlement atomically
+     * @param _settlementId The identifier of the settlement
+     *
+     * Requirements:
+     * - The caller must be a counterparty of a pending settlement whose legs are both locked
+     * - The DvP must be approved to transfer the securities of the seller
+     * - The securities token must not be paused, and neither the seller nor the buyer wallets may be frozen
+     * - The buyer must be verified by the identity registry of the securities token
+     * - The compliance of the securities token must allow the transfer from the seller to the buyer
+     *
+     * Emits a SettlementExecuted private event
+     */
+    function settle(uint256 _settlementId) external {
+        Settlement storage settlement = _getPendingSettlement(_settlementId);
+        require(msg.sender == settlement.seller || msg.sender == settlement.buyer, "only counterparties can settle");
+        require(settlement.securitiesLocked && settlement.cashLocked, "settlement not locked");
+
+        settlement.status = SettlementStatus.Executed;
+        _unfreezeSecurities(settlement);
+        IERC20(address(settlement.securities)).safeTransferFrom(
+            settlement.seller,
+            settlement.buyer,
+            settlement.securitiesAmount
+        );
+        settlement.cash.safeTransfer(settlement.seller, settlement.cashAmount);
+
+        _emitPrivateEvent(settlement, EVENT_TYPE_SETTLEMENT_EXECUTED, abi.encode(_settlementId));
+    }
+
+    /**
+     * @dev Cancels a settlement, unfreezing the securities and refunding the cash of the locked legs
+     * The cash is refunded even if the securities can no longer be unfrozen, see {_unfreezeSecurities}
+     * @param _settlementId The identifier of the settlement
+     *
+     * Requirements:
+     * - The caller must be a counterparty of a pending settlement
+     *
+     * Emits a SettlementCancelled private event
+     */
+    function cancel(uint256 _settlementId) external {
+        Settlement storage settlement = _getPendingSettlement(_settlementId);
+        require(msg.sender == settlement.seller || msg.sender == settlement.buyer, "only counterparties can cancel");
+
+        settlement.status = SettlementStatus.Cancelled;
+        if (settlement.securitiesLocked) {
+            _unfreezeSecurities(settlement);
+        }
+        if (settlement.cashLocked) {
+            settlement.cash.safeTransfer(settlement.buyer, settlement.cashAmount);
+        }
+
+        _emitPrivateEvent(settlement, EVENT_TYPE_SETTLEMENT_CANCELLED, abi.encode(_settlementId, msg.sender));
+    }
+
+    /**
+     * @dev Internal function to determine if `_viewer` can see the terms of `_settlement`
+     * Allows the counterparties and the regulators of both tokens. Can be overridden on derived contracts.
+     */
+    function _canViewSettlement(address _viewer, Settlement storage _settlement) internal view virtual returns (bool) {
+        if (_viewer == _settlement.seller || _viewer == _settlement.buyer) {
+            return true;
+        }
+        return
+            _viewer == _regulatorOf(address(_settlement.securities)) ||
+            _viewer == _regulatorOf(address(_settlement.cash));
+    }
+
+    /**
+     * @dev Internal function to emit a private event about `_settlement`
+     * @param _settlement The settlement concerned
+     * @param _eventType The keccak256 hash of the original event signature
+     * @param _payload The ABI-encoded event arguments
+     */
+    function _emitPrivateEvent(Settlement storage _settlement, bytes32 _eventType, bytes memory _payload) internal {
+        emit PrivateEvent(_getEventViewers(_settlement, _eventType), _eventType, _payload);
+    }
+
+    /**
+     * @dev Internal function to determine who can view the private events of `_settlement`
+     * Default implementation: the seller, the buyer and the regulators of both tokens, if any
+     * @param _settlement The settlement concerned
+     * @param _eventType The keccak256 hash of the original event signature (available for derived contracts)
+     * @return allowedViewers Array of unique addresses authorized to view the event
+     */
+    function _getEventViewers(
+        Settlement storage _settlement,
+        bytes32 _eventType
+    ) internal view virtual returns (address[] memory allowedViewers) {
+        _eventType; // Available for derived contracts
+
+        allowedViewers = new address[](4);
+        uint256 viewerCount = 0;
+        viewerCount = _addViewer(allowedViewers, viewerCount, _settlement.seller);
+        viewerCount = _addViewer(allowedViewers, viewerCount, _settlement.buyer);
+        viewerCount = _addViewer(allowedViewers, viewerCount, _regulatorOf(address(_settlement.securities)));
+        viewerCount = _addViewer(allowedViewers, viewerCount, _regulatorOf(address(_settlement.cash)));
+
+        assembly ("memory-safe") {
+            mstore(allowedViewers, viewerCount)
+        }
+    }
+
+    /**
+     * @dev Unfreezes the securities locked by `_settlement`
+     * Skipped if an agent of the securities token already unfroze some of the seller's tokens, in which case the tokens
+     * still frozen are left to the agents, as the DvP can't tell them apart from tokens frozen for other reasons
+     */
+    function _unfreezeSecurities(Settlement storage _settlement) private {
+        try _settlement.securities.unfreezePartialTokens(_settlement.seller, _settlement.securitiesAmount) {} catch {}
+    }
+
+    /**
+     * @dev Returns the pending settlement `_settlementId`
+     */
+    function _getPendingSettlement(uint256 _settlementId) private view returns (Settlement storage settlement) {
+        settlement = _getSettlement(_settlementId);
+        require(settlement.status == SettlementStatus.Pending, "settlement not pending");
+    }
+
+    /**
+     * @dev Returns the settlement `_settlementId`
+     */
+    function _getSettlement(uint256 _settlementId) private view returns (Settlement storage settlement) {
+        settlement = _settlements[_settlementId];
+        require(settlement.status != SettlementStatus.None, "settlement does not exist");
+    }
+
+    /**
+     * @dev Returns the regulator of `_token`, address(0) if none or if the token doesn't expose one
+     */
+    function _regulatorOf(address _token) private view returns (address) {
+        try IRegulatedToken(_token).regulator() returns (address tokenRegulator) {
+            return tokenRegulator;
+        } catch {
+            return address(0);
+        }
+    }
+
+    /**
+     * @dev Adds `viewer` to a viewer list unless it is the zero address or already listed
+     * @return The new number of viewers in the list
+     */
+    function _addViewer(address[] memory viewers, uint256 viewerCount, address viewer) private pure returns (uint256) {
+        if (viewer == address(0)) {
+            return viewerCount;
+        }
+        for (uint256 i = 0; i < viewerCount; i++) {
+            if (viewers[i] == viewer) {
+                return viewerCount;
+            }
+        }
+        viewers[viewerCount] = viewer;
+        return viewerCount + 1;
+    }
+}
@@ -1,4 +1,10 @@
-export { UCEF3643 } from './types'
+export { UCEF3643, UCEF3643DvP } from './types'
+export {
+  UCEFCountryRestrictionsModule,
+  UCEFDailyTransferLimitModule,
+  UCEFMaxBalanceModule,
+  UCEFMaxHoldersModule,
+} from './types'
 export { Identity, Token, ClaimIssuer } from './types'
 
 export type Abi = any[];
@@ -15,4 +21,9 @@ export interface Artifact<AbiT extends Abi = Abi> {
 
 export namespace UCEF3643Contracts {
   export const UCEF3643: Artifact
+  export const UCEF3643DvP: Artifact
+  export const UCEFCountryRestrictionsModule: Artifact
+  export const UCEFDailyTransferLimitModule: Artifact
+  export const UCEFMaxBalanceModule: Artifact
+  export const UCEFMaxHoldersModule: Artifact
 }
@@ -1,7 +1,17 @@
 const UCEF3643 = require('./artifacts/contracts/UCEF3643.sol/UCEF3643.json')
+const UCEF3643DvP = require('./artifacts/contracts/settlement/UCEF3643DvP.sol/UCEF3643DvP.json')
+const UCEFCountryRestrictionsModule = require('./artifacts/contracts/compliance/UCEFCountryRestrictionsModule.sol/UCEFCountryRestrictionsModule.json')
+const UCEFDailyTransferLimitModule = require('./artifacts/contracts/compliance/UCEFDailyTransferLimitModule.sol/UCEFDailyTransferLimitModule.json')
+const UCEFMaxBalanceModule = require('./artifacts/contracts/compliance/UCEFMaxBalanceModule.sol/UCEFMaxBalanceModule.json')
+const UCEFMaxHoldersModule = require('./artifacts/contracts/compliance/UCEFMaxHoldersModule.sol/UCEFMaxHoldersModule.json')
 
 const UCEF3643Contracts = {
   UCEF3643,
+  UCEF3643DvP,
+  UCEFCountryRestrictionsModule,
+  UCEFDailyTransferLimitModule,
+  UCEFMaxBalanceModule,
+  UCEFMaxHoldersModule,
 }
 
 module.exports = {
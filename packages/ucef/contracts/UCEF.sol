@@ -2,6 +2,7 @@
 pragma solidity ^0.8.24;
 
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import {EnumerableSet} from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
 
 /**
  * @title UCEF (User Confidential ERC20 Funds)
@@ -14,6 +15,11 @@ import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
  * - Private Events for selective event visibility
  * - Standard ERC20 functionality
  * - Protected balance and allowance access
+ * - Spender enumeration and optional allowance expiry for account owners
+ * - Optional redaction of balance-bearing revert data
+ * - Optional total supply visibility control
+ * - Batch transfers to many recipients with a single balance check
+ * - Transfers carrying a reference and an encrypted memo for reconciliation
  *
  * Private Events Integration:
  * This contract implements the Silent Data Private Events system, which enables selective
@@ -23,9 +29,11 @@ import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
  * - payload: ABI-encoded event arguments
  *
  * Extension system:
- * The contract provides two official extensions:
+ * The contract provides the following official extensions:
  * 1. UCEFOwned - Implements strict privacy where only account owners can view their balances
  * 2. UCEFRegulated - Adds a regulator role that can view all balances alongside account owners
+ * 3. UCEFSharable - Lets account owners share their balance with chosen viewers, under an optional supervisor
+ * 4. UCEFAccessControlled - Grants balance and event visibility to any number of role-based global viewers
  *
  * Custom extensions can be created by:
  * 1. Inheriting from this contract
@@ -33,6 +41,8 @@ import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
  * 3. Overriding _getTransferEventViewers and _getApprovalEventViewers for event privacy
  * 4. Overriding _emitTransferEvent and _emitApprovalEvent for custom emission logic
  * 5. Choosing between silent failure (return false) or explicit revert for unauthorized access
+ * 6. Overriding _redactErrors to keep balances out of revert data
+ * 7. Overriding _authorizeSupply to restrict who can view the total supply, see UCEFConfidentialSupply
  *
  * Security considerations:
  * - Balance authorization must be properly implemented in derived contracts
@@ -41,6 +51,8 @@ import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
  * - Extensions should carefully consider their privacy model and access control
  */
 abstract contract UCEF is ERC20 {
+    using EnumerableSet for EnumerableSet.AddressSet;
+
     // Event type constants for Private Events
     /**
     * @notice Transfer event parameter mapping:
@@ -58,10 +70,23 @@ abstract contract UCEF is ERC20 {
     * @custom:signature Approval(address from, address to, uint256 value)
     */
     bytes32 public constant EVENT_TYPE_APPROVAL = keccak256("Approval(address,address,uint256)");
+    /**
+    * @notice TransferReference event parameter mapping:
+    *   - address param0: from      - Token sender
+    *   - address param1: to        - Token receiver
+    *   - uint256 param2: value     - Amount of tokens transferred
+    *   - bytes32 param3: reference - Reference of the payment, e.g. an invoice identifier
+    *   - bytes param4:   memo      - Memo of the payment, encrypted off-chain for the viewers
+    * @custom:signature TransferReference(address from, address to, uint256 value, bytes32 reference, bytes memo)
+    */
+    bytes32 public constant EVENT_TYPE_TRANSFER_REFERENCE =
+        keccak256("TransferReference(address,address,uint256,bytes32,bytes)");
 
     mapping(address account => uint256) private _balances;
     uint256 private _totalSupply;
     mapping(address account => mapping(address spender => uint256)) private _allowances;
+    mapping(address account => mapping(address spender => uint64)) private _allowanceExpiries;
+    mapping(address account => EnumerableSet.AddressSet) private _spenders;
 
     /**
      * @dev Private Event for selective visibility of on-chain events
@@ -82,6 +107,40 @@ abstract contract UCEF is ERC20 {
      */
     error UCEFUnauthorizedBalanceAccess(address sender, address account);
 
+    /**
+     * @dev Thrown when an unauthorized address attempts to view the total supply
+     * @param sender The address attempting to view the total supply
+     */
+    error UCEFUnauthorizedSupplyAccess(address sender);
+
+    /**
+     * @dev Thrown when an allowance expiry is not in the future
+     * @param expiry The invalid expiry timestamp
+     */
+    error UCEFInvalidAllowanceExpiry(uint64 expiry);
+
+    /**
+     * @dev Thrown when spending an allowance that has expired
+     * @param spender The address attempting to spend the allowance
+     * @param expiry The timestamp at which the allowance expired
+     */
+    error UCEFExpiredAllowance(address spender, uint64 expiry);
+
+    /**
+     * @dev Thrown when decreasing an allowance below zero
+     * @param spender The address whose allowance was decreased
+     * @param currentAllowance The current allowance of `spender`
+     * @param requestedDecrease The requested decrease
+     */
+    error UCEFFailedDecreaseAllowance(address spender, uint256 currentAllowance, uint256 requestedDecrease);
+
+    /**
+     * @dev Error thrown when the recipients and values of a batch transfer don't match
+     * @param recipients The number of recipients
+     * @param values The number of values
+     */
+    error UCEFInvalidBatchLength(uint256 recipients, uint256 values);
+
     /**
      * @dev Constructor that sets the name and symbol of the token
      * @param name The name of the token
@@ -116,10 +175,34 @@ abstract contract UCEF is ERC20 {
     }
 
     /**
-     * @dev Returns the total supply of the token
+     * @dev Internal function to determine if the caller is authorized to view the total supply
+     * Default implementation: the total supply is public
+     * @return bool True if authorized, false otherwise
+     *
+     * @notice Implementations must not revert, as this function is also used to redact supply-bearing revert data
+     */
+    function _authorizeSupply() internal view virtual returns (bool) {
+        return true;
+    }
+
+    /**
+     * @dev Returns the total supply of the token if authorized
      * @return uint256 The total token supply
+     * @custom:error UCEFUnauthorizedSupplyAccess Thrown when an unauthorized address attempts to view the total supply
      */
     function totalSupply() public view override virtual returns (uint256) {
+        if (!_authorizeSupply()) {
+            revert UCEFUnauthorizedSupplyAccess(msg.sender);
+        }
+        return _totalSupply;
+    }
+
+    /**
+     * @dev Internal function to get the actual total supply, regardless of who can view it
+     * Extensions enforcing supply limits must use it instead of totalSupply
+     * @return uint256 The actual total supply
+     */
+    function _supply() internal view returns (uint256) {
         return _totalSupply;
     }
 
@@ -132,6 +215,41 @@ abstract contract UCEF is ERC20 {
         return _balances[account];
     }
 
+    /**
+     * @dev Internal function to determine whether balance-bearing revert arguments are redacted
+     * Derived contracts can override it to return true, so that errors such as ERC20InsufficientBalance
+     * don't let callers other than the account owner reconstruct a balance from revert data
+     * @return bool True if revert data is redacted, false otherwise (default)
+     */
+    function _redactErrors() internal view virtual returns (bool) {
+        return false;
+    }
+
+    /**
+     * @dev Internal function to redact a balance-bearing revert argument
+     * @param account The account the value belongs to
+     * @param value The value to redact
+     * @return uint256 `value` if errors are not redacted or the caller is `account`, 0 otherwise
+     */
+    function _redactBalance(address account, uint256 value) internal view virtual returns (uint256) {
+        if (!_redactErrors() || (account != address(0) && msg.sender == account)) {
+            return value;
+        }
+        return 0;
+    }
+
+    /**
+     * @dev Internal function to redact a revert argument derived from the total supply
+     * @param value The value to redact
+     * @return uint256 `value` if errors are not redacted and the caller can view the total supply, 0 otherwise
+     */
+    function _redactSupply(uint256 value) internal view virtual returns (uint256) {
+        if (!_redactErrors() && _authorizeSupply()) {
+            return value;
+        }
+        return 0;
+    }
+
     /**
      * @dev Internal function to update balances during transfers
      * Handles minting, burning, and transfers between addresses
@@ -146,7 +264,7 @@ abstract contract UCEF is ERC20 {
         } else {
             uint256 fromBalance = _balances[from];
             if (fromBalance < value) {
-                revert ERC20InsufficientBalance(from, fromBalance, value);
+                revert ERC20InsufficientBalance(from, _redactBalance(from, fromBalance), value);
             }
             unchecked {
                 // Overflow not possible: value <= fromBalance <= totalSupply.
@@ -195,6 +313,228 @@ abstract contract UCEF is ERC20 {
         return _allowance(owner, spender);
     }
 
+    /**
+     * @dev Returns the timestamp at which an allowance expires
+     *
+     * Access Control:
+     * - Only the token owner or the approved spender can view the allowance expiry
+     *
+     * @param owner The address that owns the tokens
+     * @param spender The address that can spend the tokens
+     * @return uint64 The expiry timestamp of the allowance (0 if it does not expire)
+     * @custom:error UCEFUnauthorizedBalanceAccess Thrown when an unauthorized address attempts to view the allowance expiry
+     */
+    function allowanceExpiry(address owner, address spender) public view virtual returns (uint64) {
+        if (msg.sender != owner && msg.sender != spender) {
+            revert UCEFUnauthorizedBalanceAccess(msg.sender, owner);
+        }
+        return _allowanceExpiries[owner][spender];
+    }
+
+    /**
+     * @dev Returns the spenders holding an unexpired allowance from `owner`
+     *
+     * Access Control:
+     * - Only the token owner can list its spenders
+     *
+     * @param owner The address that owns the tokens
+     * @return spenders The addresses of the spenders, see {allowance} for the allowance of each spender
+     * @custom:error UCEFUnauthorizedBalanceAccess Thrown when an address other than `owner` attempts to list the spenders
+     */
+    function spendersOf(address owner) public view virtual returns (address[] memory spenders) {
+        if (msg.sender != owner) {
+            revert UCEFUnauthorizedBalanceAccess(msg.sender, owner);
+        }
+
+        EnumerableSet.AddressSet storage ownerSpenders = _spenders[owner];
+        spenders = new address[](ownerSpenders.length());
+        uint256 spenderCount = 0;
+        for (uint256 i = 0; i < ownerSpenders.length(); i++) {
+            address spender = ownerSpenders.at(i);
+            if (!_isAllowanceExpired(owner, spender)) {
+                spenders[spenderCount++] = spender;
+            }
+        }
+
+        assembly ("memory-safe") {
+            mstore(spenders, spenderCount)
+        }
+    }
+
+    /**
+     * @dev Sets `value` as the allowance of `spender` over the caller's tokens, without expiry
+     * Replaces the expiry of any existing allowance, see {approveUntil}
+     * @param spender The address that can spend the tokens
+     * @param value The amount of tokens to allow
+     * @return bool True if the operation succeeded
+     */
+    function approve(address spender, uint256 value) public virtual override returns (bool) {
+        _setAllowanceExpiry(msg.sender, spender, 0);
+        _approve(msg.sender, spender, value);
+        return true;
+    }
+
+    /**
+     * @dev Sets `value` as the allowance of `spender` over the caller's tokens until a given time
+     * @param spender The address that can spend the tokens
+     * @param value The amount of tokens to allow
+     * @param expiry Timestamp at which the allowance expires
+     * @return bool True if the operation succeeded
+     *
+     * Requirements:
+     * - `expiry` must be in the future
+     */
+    function approveUntil(address spender, uint256 value, uint64 expiry) public virtual returns (bool) {
+        if (expiry <= block.timestamp) {
+            revert UCEFInvalidAllowanceExpiry(expiry);
+        }
+        _setAllowanceExpiry(msg.sender, spender, expiry);
+        _approve(msg.sender, spender, value);
+        return true;
+    }
+
+    /**
+     * @dev Atomically increases the allowance of `spender` over the caller's tokens
+     * The expiry of the allowance is kept, an expired allowance is increased from zero and no longer expires
+     * @param spender The address that can spend the tokens
+     * @param addedValue The amount to add to the allowance
+     * @return bool True if the operation succeeded
+     */
+    function increaseAllowance(address spender, uint256 addedValue) public virtual returns (bool) {
+        uint256 currentAllowance = _allowance(msg.sender, spender);
+        if (_isAllowanceExpired(msg.sender, spender)) {
+            _setAllowanceExpiry(msg.sender, spender, 0);
+        }
+        _approve(msg.sender, spender, currentAllowance + addedValue);
+        return true;
+    }
+
+    /**
+     * @dev Atomically decreases the allowance of `spender` over the caller's tokens
+     * The expiry of the allowance is kept
+     * @param spender The address that can spend the tokens
+     * @param requestedDecrease The amount to subtract from the allowance
+     * @return bool True if the operation succeeded
+     *
+     * Requirements:
+     * - The current allowance must be at least `requestedDecrease`
+     */
+    function decreaseAllowance(address spender, uint256 requestedDecrease) public virtual returns (bool) {
+        uint256 currentAllowance = _allowance(msg.sender, spender);
+        if (currentAllowance < requestedDecrease) {
+            revert UCEFFailedDecreaseAllowance(spender, currentAllowance, requestedDecrease);
+        }
+        unchecked {
+            _approve(msg.sender, spender, currentAllowance - requestedDecrease);
+        }
+        return true;
+    }
+
+    /**
+     * @dev Revokes the allowances of every spender of the caller, including expired allowances
+     *
+     * Emits an Approval event for each revoked spender
+     */
+    function revokeAllApprovals() public virtual {
+        EnumerableSet.AddressSet storage ownerSpenders = _spenders[msg.sender];
+        while (ownerSpenders.length() > 0) {
+            _approve(msg.sender, ownerSpenders.at(ownerSpenders.length() - 1), 0);
+        }
+    }
+
+    /**
+     * @dev Moves `values[i]` tokens from the caller to `to[i]` for each recipient
+     * The balance of the caller is checked once against the total of the batch
+     * @param to The addresses receiving the tokens
+     * @param values The amounts of tokens to transfer
+     * @return bool True if the operation succeeded
+     *
+     * Requirements:
+     * - `to` and `values` must have the same length
+     * - The caller must have a balance of at least the total of `values`
+     *
+     * Emits a Transfer private event for each recipient
+     */
+    function batchTransfer(address[] calldata to, uint256[] calldata values) public virtual returns (bool) {
+        address owner = _msgSender();
+        _batchTransfer(owner, to, values, _batchTotal(to, values));
+        return true;
+    }
+
+    /**
+     * @dev Moves `values[i]` tokens from `from` to `to[i]` for each recipient using the allowance of the caller
+     * The allowance is spent and the balance of `from` checked once against the total of the batch
+     * @param from The address sending the tokens
+     * @param to The addresses receiving the tokens
+     * @param values The amounts of tokens to transfer
+     * @return bool True if the operation succeeded
+     *
+     * Requirements:
+     * - `to` and `values` must have the same length
+     * - The caller must have an allowance of at least the total of `values`
+     * - `from` must have a balance of at least the total of `values`
+     *
+     * Emits a Transfer private event for each recipient
+     */
+    function batchTransferFrom(
+        address from,
+        address[] calldata to,
+        uint256[] calldata values
+    ) public virtual returns (bool) {
+        uint256 total = _batchTotal(to, values);
+        _spendAllowance(from, _msgSender(), total);
+        _batchTransfer(from, to, values, total);
+        return true;
+    }
+
+    /**
+     * @dev Moves `value` tokens from the caller to `to` with a reference and a memo for reconciliation
+     * The memo is stored as given, so it should be encrypted off-chain for the intended viewers
+     * @param to The address receiving the tokens
+     * @param value The amount of tokens to transfer
+     * @param ref The reference of the payment, e.g. an invoice identifier
+     * @param memo The memo of the payment
+     * @return bool True if the operation succeeded
+     *
+     * Emits a Transfer private event followed by a TransferReference private event visible to the same viewers
+     */
+    function transferWithReference(
+        address to,
+        uint256 value,
+        bytes32 ref,
+        bytes calldata memo
+    ) public virtual returns (bool) {
+        address owner = _msgSender();
+        _transfer(owner, to, value);
+        _emitTransferReferenceEvent(owner, to, value, ref, memo);
+        return true;
+    }
+
+    /**
+     * @dev Moves `value` tokens from `from` to `to` using the allowance of the caller, with a reference and a memo
+     * See {transferWithReference}
+     * @param from The address sending the tokens
+     * @param to The address receiving the tokens
+     * @param value The amount of tokens to transfer
+     * @param ref The reference of the payment
+     * @param memo The memo of the payment
+     * @return bool True if the operation succeeded
+     *
+     * Emits a Transfer private event followed by a TransferReference private event visible to the same viewers
+     */
+    function transferFromWithReference(
+        address from,
+        address to,
+        uint256 value,
+        bytes32 ref,
+        bytes calldata memo
+    ) public virtual returns (bool) {
+        _spendAllowance(from, _msgSender(), value);
+        _transfer(from, to, value);
+        _emitTransferReferenceEvent(from, to, value, ref, memo);
+        return true;
+    }
+
     /**
      * @dev Internal helper function to access the allowance mapping directly.
      * This function provides raw access to the allowance value without any access control checks.
@@ -202,20 +542,43 @@ abstract contract UCEF is ERC20 {
      *
      * @param owner The address that owns the tokens and has granted the allowance
      * @param spender The address that has been granted spending privileges
-     * @return uint256 The raw allowance value from the mapping
+     * @return uint256 The raw allowance value from the mapping, 0 if the allowance has expired
      *
      * Note: This function is separated from the public allowance() function to maintain
      * a clear separation between access-controlled and internal raw data access
      */
     function _allowance(address owner, address spender) internal view returns (uint256) {
+        if (_isAllowanceExpired(owner, spender)) {
+            return 0;
+        }
         return _allowances[owner][spender];
     }
 
+    /**
+     * @dev Internal function to set the expiry of an allowance, 0 for an allowance without expiry
+     * Must be called before {_approve}, which clears the expiry when the allowance is set to zero
+     * @param owner The address that owns the tokens
+     * @param spender The address that can spend the tokens
+     * @param expiry Timestamp at which the allowance expires
+     */
+    function _setAllowanceExpiry(address owner, address spender, uint64 expiry) internal virtual {
+        _allowanceExpiries[owner][spender] = expiry;
+    }
+
+    /**
+     * @dev Internal function to check if an allowance has expired
+     */
+    function _isAllowanceExpired(address owner, address spender) internal view returns (bool) {
+        uint64 expiry = _allowanceExpiries[owner][spender];
+        return expiry != 0 && expiry <= block.timestamp;
+    }
+
     /**
      * @dev Sets `value` as the allowance of `spender` over the `owner` s tokens.
      * 
      * This internal function is equivalent to `approve`, and can be used to
      * e.g. set automatic allowances for certain subsystems, etc.
+     * It keeps the set of spenders of `owner` up to date, and clears the expiry of allowances set to zero.
      *
      * Requirements:
      * - `owner` cannot be the zero address
@@ -234,6 +597,12 @@ abstract contract UCEF is ERC20 {
             revert ERC20InvalidSpender(address(0));
         }
         _allowances[owner][spender] = value;
+        if (value == 0) {
+            _spenders[owner].remove(spender);
+            delete _allowanceExpiries[owner][spender];
+        } else {
+            _spenders[owner].add(spender);
+        }
         if (emitEvent) {
             _emitApprovalEvent(owner, spender, value);
         }
@@ -247,8 +616,10 @@ abstract contract UCEF is ERC20 {
      * - If the current allowance is the maximum uint256 value, it represents an infinite allowance
      *   and will not be reduced (acts as an infinite approval)
      * - If the requested value exceeds the current allowance, the transaction will revert
+     * - If the allowance has expired, the transaction will revert
      * 
      * Requirements:
+     * - The allowance must not have expired
      * - `value` must not exceed the current allowance
      * - Current allowance must be finite (less than max uint256) for it to be reduced
      *
@@ -260,6 +631,9 @@ abstract contract UCEF is ERC20 {
      * unnecessary event emissions during transfers
      */
     function _spendAllowance(address owner, address spender, uint256 value) internal override virtual {
+        if (_isAllowanceExpired(owner, spender)) {
+            revert UCEFExpiredAllowance(spender, _allowanceExpiries[owner][spender]);
+        }
         uint256 currentAllowance = allowance(owner, spender);
         if (currentAllowance < type(uint256).max) {
             if (currentAllowance < value) {
@@ -271,6 +645,32 @@ abstract contract UCEF is ERC20 {
         }
     }
 
+    /**
+     * @dev Returns the total of a batch transfer, reverts if the recipients and values don't match
+     */
+    function _batchTotal(address[] calldata to, uint256[] calldata values) private pure returns (uint256 total) {
+        if (to.length != values.length) {
+            revert UCEFInvalidBatchLength(to.length, values.length);
+        }
+        for (uint256 i = 0; i < values.length; ++i) {
+            total += values[i];
+        }
+    }
+
+    /**
+     * @dev Checks the balance of `from` against the total of the batch once, then transfers to each recipient
+     * Each transfer goes through {_transfer}, so extensions hooking {_update} apply to every recipient
+     */
+    function _batchTransfer(address from, address[] calldata to, uint256[] calldata values, uint256 total) private {
+        uint256 fromBalance = _balances[from];
+        if (fromBalance < total) {
+            revert ERC20InsufficientBalance(from, _redactBalance(from, fromBalance), total);
+        }
+        for (uint256 i = 0; i < to.length; ++i) {
+            _transfer(from, to[i], values[i]);
+        }
+    }
+
     /**
      * @dev Internal function to emit Transfer events
      * Can be overridden by derived contracts to implement custom emission logic
@@ -319,6 +719,29 @@ abstract contract UCEF is ERC20 {
         }
     }
 
+    /**
+     * @dev Internal function to emit TransferReference events
+     * Can be overridden by derived contracts to implement custom emission logic
+     * Default implementation: the viewers of the matching Transfer event can view
+     * @param from The sending address
+     * @param to The receiving address
+     * @param value The amount of tokens transferred
+     * @param ref The reference of the payment
+     * @param memo The memo of the payment
+     */
+    function _emitTransferReferenceEvent(
+        address from,
+        address to,
+        uint256 value,
+        bytes32 ref,
+        bytes memory memo
+    ) internal virtual {
+        address[] memory allowedViewers = _getTransferEventViewers(from, to, value);
+        bytes memory payload = abi.encode(from, to, value, ref, memo);
+
+        emit PrivateEvent(allowedViewers, EVENT_TYPE_TRANSFER_REFERENCE, payload);
+    }
+
     /**
      * @dev Internal function to emit Approval events
      * Can be overridden by derived contracts to implement custom emission logic
@@ -366,4 +789,25 @@ abstract contract UCEF is ERC20 {
             allowedViewers[index] = spender;
         }
     }
+
+    /**
+     * @dev Internal helper to add `viewer` to a viewer list unless it is the zero address or already listed
+     * The list must be allocated with room for the viewer, and trimmed to the returned count before emission
+     * @param viewers The viewer list being populated
+     * @param viewerCount The number of viewers already in the list
+     * @param viewer The address to add
+     * @return The new number of viewers in the list
+     */
+    function _addViewer(address[] memory viewers, uint256 viewerCount, address viewer) internal pure returns (uint256) {
+        if (viewer == address(0)) {
+            return viewerCount;
+        }
+        for (uint256 i = 0; i < viewerCount; i++) {
+            if (viewers[i] == viewer) {
+                return viewerCount;
+            }
+        }
+        viewers[viewerCount] = viewer;
+        return viewerCount + 1;
+    }
 } 
\ No newline at end of file
@@ -0,0 +1,298 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {AccessControl} from "@openzeppelin/contracts/access/AccessControl.sol";
+import {EnumerableSet} from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import {UCEF} from "./UCEF.sol";
+
+/**
+ * @title UCEFAccessControlled
+ * @dev Extension for UCEF token that implements a role-based authorization model.
+ * This model allows any number of global viewers (e.g. auditors, tax authorities, risk desks)
+ * to be granted balance and/or event visibility through OpenZeppelin-compatible roles.
+ *
+ * Roles:
+ * - DEFAULT_ADMIN_ROLE: Manages all roles unless another admin role is configured
+ * - BALANCE_VIEWER_ROLE: Can view the balance of every account
+ * - EVENT_VIEWER_ROLE: Included in the viewers of every Transfer and Approval event
+ *
+ * Event Behavior:
+ * - Transfer events: Visible to sender, receiver, and all event viewers
+ * - Approval events: Visible to owner, spender, and all event viewers
+ * - RoleGranted and RoleRevoked events: Visible to the account, the sender, and the members of the role admin role
+ * - RoleAdminChanged events: Visible to the members of the previous and new admin roles
+ *
+ * The {IAccessControl} RoleGranted, RoleRevoked and RoleAdminChanged events are never emitted publicly,
+ * role changes are only announced through Private Events so the viewer list remains confidential.
+ * The role management functions and ERC-165 support are inherited from {AccessControl}, whose internal role
+ * storage is replaced with an enumerable one so that the emit paths can be overridden.
+ *
+ * Security considerations:
+ * - Role members have visibility into all account balances and/or events according to their role
+ * - Role members can only be enumerated by the members of the role admin role
+ * - The initial admin cannot be the zero address to avoid locking role management
+ */
+contract UCEFAccessControlled is UCEF, AccessControl {
+    using EnumerableSet for EnumerableSet.AddressSet;
+
+    bytes32 public constant BALANCE_VIEWER_ROLE = keccak256("BALANCE_VIEWER_ROLE");
+    bytes32 public constant EVENT_VIEWER_ROLE = keccak256("EVENT_VIEWER_ROLE");
+
+    // Event type constants for Private Events
+    /**
+    * @notice RoleGranted event parameter mapping:
+    *   - bytes32 param0: role    - The role granted
+    *   - address param1: account - The account the role was granted to
+    *   - address param2: sender  - The account that granted the role
+    * @custom:signature RoleGranted(bytes32 role, address account, address sender)
+    */
+    bytes32 public constant EVENT_TYPE_ROLE_GRANTED = keccak256("RoleGranted(bytes32,address,address)");
+    /**
+    * @notice RoleRevoked event parameter mapping:
+    *   - bytes32 param0: role    - The role revoked
+    *   - address param1: account - The account the role was revoked from
+    *   - address param2: sender  - The account that revoked the role (the account itself when renounced)
+    * @custom:signature RoleRevoked(bytes32 role, address account, address sender)
+    */
+    bytes32 public constant EVENT_TYPE_ROLE_REVOKED = keccak256("RoleRevoked(bytes32,address,address)");
+    /**
+    * @notice RoleAdminChanged event parameter mapping:
+    *   - bytes32 param0: role              - The role whose admin role changed
+    *   - bytes32 param1: previousAdminRole - The previous admin role
+    *   - bytes32 param2: newAdminRole      - The new admin role
+    * @custom:signature RoleAdminChanged(bytes32 role, bytes32 previousAdminRole, bytes32 newAdminRole)
+    */
+    bytes32 public constant EVENT_TYPE_ROLE_ADMIN_CHANGED = keccak256("RoleAdminChanged(bytes32,bytes32,bytes32)");
+
+    struct EnumerableRoleData {
+        EnumerableSet.AddressSet members;
+        bytes32 adminRole;
+    }
+
+    mapping(bytes32 role => EnumerableRoleData) private _roleData;
+
+    /**
+     * @dev Error thrown when attempting to set an invalid initial admin address
+     * @param admin The invalid address that was provided
+     */
+    error UCEFAccessControlledInvalidAdmin(address admin);
+
+    /**
+     * @dev Constructor that grants the admin role to the initial admin
+     * @param initialAdmin The address to be granted DEFAULT_ADMIN_ROLE
+     *
+     * Requirements:
+     * - `initialAdmin` cannot be the zero address
+     */
+    constructor(address initialAdmin, string memory name, string memory symbol) UCEF(name, symbol) {
+        if (initialAdmin == address(0)) {
+            revert UCEFAccessControlledInvalidAdmin(address(0));
+        }
+
+        _grantRole(DEFAULT_ADMIN_ROLE, initialAdmin);
+    }
+
+    /**
+     * @dev Returns true if `account` has been granted `role`
+     */
+    function hasRole(bytes32 role, address account) public view virtual override returns (bool) {
+        return _roleData[role].members.contains(account);
+    }
+
+    /**
+     * @dev Returns the admin role that controls `role`
+     */
+    function getRoleAdmin(bytes32 role) public view virtual override returns (bytes32) {
+        return _roleData[role].adminRole;
+    }
+
+    /**
+     * @dev Returns all the accounts that have been granted `role`
+     * @param role The role to enumerate
+     * @return The members of the role
+     *
+     * Requirements:
+     * - The caller must have the admin role of `role`
+     */
+    function getRoleMembers(bytes32 role) public view virtual onlyRole(getRoleAdmin(role)) returns (address[] memory) {
+        return _roleData[role].members.values();
+    }
+
+    /**
+     * @dev Sets `adminRole` as the admin role of `role`
+     *
+     * Emits a RoleAdminChanged private event
+     */
+    function _setRoleAdmin(bytes32 role, bytes32 adminRole) internal virtual override {
+        bytes32 previousAdminRole = getRoleAdmin(role);
+        _roleData[role].adminRole = adminRole;
+        _emitRoleAdminChangedEvent(role, previousAdminRole, adminRole);
+    }
+
+    /**
+     * @dev Grants `role` to `account` without access restriction
+     * @return bool True if the role was granted, false if `account` already had it
+     *
+     * Emits a RoleGranted private event if the role was granted
+     */
+    function _grantRole(bytes32 role, address account) internal virtual override returns (bool) {
+        if (!_roleData[role].members.add(account)) {
+            return false;
+        }
+
+        _emitRoleUpdatedEvent(EVENT_TYPE_ROLE_GRANTED, role, account, msg.sender);
+        return true;
+    }
+
+    /**
+     * @dev Revokes `role` from `account` without access restriction
+     * @return bool True if the role was revoked, false if `account` did not have it
+     *
+     * Emits a RoleRevoked private event if the role was revoked
+     */
+    function _revokeRole(bytes32 role, address account) internal virtual override returns (bool) {
+        if (!_roleData[role].members.remove(account)) {
+            return false;
+        }
+
+        _emitRoleUpdatedEvent(EVENT_TYPE_ROLE_REVOKED, role, account, msg.sender);
+        return true;
+    }
+
+    /**
+     * @dev Implementation of the balance authorization check
+     * @param account The account address to check authorization for
+     * @return bool True if authorized, reverts otherwise
+     *
+     * Requirements:
+     * - The caller must be either the account owner or a member of BALANCE_VIEWER_ROLE
+     */
+    function _authorizeBalance(address account) internal view virtual override returns (bool) {
+        if (msg.sender != account && !hasRole(BALANCE_VIEWER_ROLE, msg.sender)) {
+            revert UCEFUnauthorizedBalanceAccess(msg.sender, account);
+        }
+        return true;
+    }
+
+    /**
+     * @dev Override to include the event viewers in the viewers of transfers
+     * @param from The sending address
+     * @param to The receiving address
+     * @return allowedViewers Array containing sender, receiver, and all event viewers
+     */
+    function _getTransferEventViewers(
+        address from,
+        address to,
+        uint256 /* value */
+    ) internal view virtual override returns (address[] memory allowedViewers) {
+        return _withRoleMembers(EVENT_VIEWER_ROLE, from, to);
+    }
+
+    /**
+     * @dev Override to include the event viewers in the viewers of approvals
+     * @param owner The address that owns the tokens
+     * @param spender The address that can spend the tokens
+     * @return allowedViewers Array containing owner, spender, and all event viewers
+     */
+    function _getApprovalEventViewers(
+        address owner,
+        address spender,
+        uint256 /* value */
+    ) internal view virtual override returns (address[] memory allowedViewers) {
+        return _withRoleMembers(EVENT_VIEWER_ROLE, owner, spender);
+    }
+
+    /**
+     * @dev Internal function to emit RoleGranted and RoleRevoked events
+     * Can be overridden by derived contracts to implement custom emission logic
+     * @param eventType EVENT_TYPE_ROLE_GRANTED or EVENT_TYPE_ROLE_REVOKED
+     * @param role The role granted or revoked
+     * @param account The account the role was granted to or revoked from
+     * @param sender The account that performed the change
+     */
+    function _emitRoleUpdatedEvent(bytes32 eventType, bytes32 role, address account, address sender) internal virtual {
+        address[] memory allowedViewers = _getRoleUpdatedEventViewers(role, account, sender);
+        bytes memory payload = abi.encode(role, account, sender);
+
+        emit PrivateEvent(allowedViewers, eventType, payload);
+    }
+
+    /**
+     * @dev Internal function to determine who can view RoleGranted and RoleRevoked events
+     * @param role The role granted or revoked
+     * @param account The account the role was granted to or revoked from
+     * @param sender The account that performed the change
+     * @return allowedViewers Array containing account, sender, and the members of the role admin role
+     */
+    function _getRoleUpdatedEventViewers(
+        bytes32 role,
+        address account,
+        address sender
+    ) internal view virtual returns (address[] memory allowedViewers) {
+        return _withRoleMembers(getRoleAdmin(role), account, sender);
+    }
+
+    /**
+     * @dev Internal function to emit RoleAdminChanged events
+     * Can be overridden by derived contracts to implement custom emission logic
+     * Default implementation: visible to the members of the previous and new admin roles
+     * @param role The role whose admin role changed
+     * @param previousAdminRole The previous admin role
+     * @param newAdminRole The new admin role
+     */
+    function _emitRoleAdminChangedEvent(bytes32 role, bytes32 previousAdminRole, bytes32 newAdminRole) internal virtual {
+        address[] memory previousAdmins = _roleData[previousAdminRole].members.values();
+        address[] memory newAdmins = _roleData[newAdminRole].members.values();
+
+        address[] memory allowedViewers = new address[](previousAdmins.length + newAdmins.length);
+        uint256 viewerCount = 0;
+        for (uint256 i = 0; i < previousAdmins.length; i++) {
+            allowedViewers[viewerCount++] = previousAdmins[i];
+        }
+        for (uint256 i = 0; i < newAdmins.length; i++) {
+            if (!_roleData[previousAdminRole].members.contains(newAdmins[i])) {
+                allowedViewers[viewerCount++] = newAdmins[i];
+            }
+        }
+        _shrink(allowedViewers, viewerCount);
+
+        bytes memory payload = abi.encode(role, previousAdminRole, newAdminRole);
+
+        emit PrivateEvent(allowedViewers, EVENT_TYPE_ROLE_ADMIN_CHANGED, payload);
+    }
+
+    /**
+     * @dev Returns the members of `role` followed by `first` and `second`, skipping the zero address
+     * and duplicates
+     */
+    function _withRoleMembers(
+        bytes32 role,
+        address first,
+        address second
+    ) internal view returns (address[] memory viewers) {
+        EnumerableSet.AddressSet storage members = _roleData[role].members;
+        viewers = new address[](members.length() + 2);
+
+        uint256 viewerCount = 0;
+        for (uint256 i = 0; i < members.length(); i++) {
+            viewers[viewerCount++] = members.at(i);
+        }
+        if (first != address(0) && !members.contains(first)) {
+            viewers[viewerCount++] = first;
+        }
+        if (second != address(0) && second != first && !members.contains(second)) {
+            viewers[viewerCount++] = second;
+        }
+
+        _shrink(viewers, viewerCount);
+    }
+
+    /**
+     * @dev Shrinks a memory array to its first `length` elements
+     */
+    function _shrink(address[] memory array, uint256 length) private pure {
+        assembly ("memory-safe") {
+            mstore(array, length)
+        }
+    }
+}
@@ -1,6 +1,7 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.20;
 
+import {EnumerableSet} from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
 import {UCEF} from "./UCEF.sol";
 
 /**
@@ -11,28 +12,36 @@ import {UCEF} from "./UCEF.sol";
  *
  * Features:
  * - Account owners can grant and revoke balance viewing permissions
+ * - Grants can expire and be scoped to balances, transfer events and/or allowances
  * - Multiple viewers can be authorized per account
  * - Optional supervisor with universal balance and event viewing privileges
  * - Supervisor can be permanently disabled by setting to zero address
  * - Events for selective visibility of permission changes
  *
  * Event Behavior:
- * - Transfer events: Visible to sender, receiver, and supervisor (if enabled)
+ * - Transfer events: Visible to sender, receiver, supervisor (if enabled), and the viewers of sender and receiver
+ *   holding an active grant with the transfer events scope
  * - Approval events: Visible to owner, spender, and supervisor (if enabled)
  * - ViewerPermissionUpdated events: Visible to account, viewer, and supervisor (if enabled)
+ * - ViewerGrantUpdated events: Visible to account, viewer, and supervisor (if enabled)
  * - SupervisorUpdated events: Visible only to old and new supervisor
  *
  * Security considerations:
  * - Only account owners can manage their viewing permissions
  * - Viewers can only see balances of accounts that have explicitly granted them permission
- * - Viewers can only see balances, not transaction events (unless direct participants)
+ * - Viewers can only see what the scope of their grant allows, until the grant expires
+ * - Transfers iterate over the viewers of both parties, so each account can hold at most MAX_VIEWERS grants,
+ *   expired grants being revoked to make room for new viewers
  * - When enabled, the supervisor has visibility into all account balances and events
  * - Only the current supervisor can update the supervisor address
  * - Setting supervisor to zero address permanently disables supervision
  * - Once supervision is disabled, it cannot be re-enabled
  * - Permission changes are tracked through events for auditability while maintaining privacy
+ * - Viewer lists can only be enumerated by the account owner and the supervisor
  */
 contract UCEFSharable is UCEF {
+    using EnumerableSet for EnumerableSet.AddressSet;
+
     // Event type constants for Private Events
     /**
     * @notice ViewerPermissionUpdated event parameter mapping:
@@ -43,6 +52,17 @@ contract UCEFSharable is UCEF {
     */
     bytes32 public constant EVENT_TYPE_VIEWER_PERMISSION_UPDATED = keccak256("ViewerPermissionUpdated(address,address,bool)");
     /**
+    * @notice ViewerGrantUpdated event parameter mapping:
+    *   - address param0: account - The account that granted the viewing permission
+    *   - address param1: viewer  - The address that was granted viewing permission
+    *   - uint64 param2: expiry   - Timestamp at which the grant expires
+    *   - uint8 param3: scope     - Scope flags of the grant
+    * @dev Emitted alongside ViewerPermissionUpdated when granting, rather than extending its payload with the expiry
+    * and scope, so that the signature and payload of ViewerPermissionUpdated stay unchanged for existing consumers
+    * @custom:signature ViewerGrantUpdated(address account, address viewer, uint64 expiry, uint8 scope)
+    */
+    bytes32 public constant EVENT_TYPE_VIEWER_GRANT_UPDATED = keccak256("ViewerGrantUpdated(address,address,uint64,uint8)");
+    /**
     * @notice SupervisorUpdated event parameter mapping:
     *   - address param0: previousSupervisor - Address of the previous supervisor
     *   - address param1: newSupervisor      - Address of the new supervisor (zero address means supervision permanently disabled)
@@ -50,8 +70,28 @@ contract UCEFSharable is UCEF {
     */
     bytes32 public constant EVENT_TYPE_SUPERVISOR_UPDATED = keccak256("SupervisorUpdated(address,address)");
 
-    // Mapping from account address to viewer address to permission status
-    mapping(address account => mapping(address viewer => bool)) private _authorizedViewers;
+    // Grant scope flags
+    uint8 public constant SCOPE_BALANCE = 1;
+    uint8 public constant SCOPE_TRANSFER_EVENTS = 2;
+    uint8 public constant SCOPE_ALLOWANCES = 4;
+    uint8 public constant SCOPE_ALL = SCOPE_BALANCE | SCOPE_TRANSFER_EVENTS | SCOPE_ALLOWANCES;
+
+    // Expiry of grants without time limit
+    uint64 public constant NO_EXPIRY = type(uint64).max;
+
+    // Maximum number of viewers holding a grant, expired or not, for each account
+    uint256 public constant MAX_VIEWERS = 16;
+
+    struct ViewerGrant {
+        uint64 expiry;
+        uint8 scope;
+    }
+
+    // Mapping from account address to viewer address to grant
+    mapping(address account => mapping(address viewer => ViewerGrant)) private _viewerGrants;
+
+    // Viewers holding a grant, expired or not, for each account
+    mapping(address account => EnumerableSet.AddressSet) private _viewers;
 
     // Supervisor address for auditing purposes (zero address means supervision is permanently disabled)
     address private _supervisor;
@@ -73,6 +113,19 @@ contract UCEFSharable is UCEF {
      */
     error UCEFSharableSupervisionPermanentlyDisabled();
 
+    /**
+     * @dev Error thrown when attempting to grant an already expired or empty viewer grant
+     * @param expiry The expiry that was provided
+     * @param scope The scope that was provided
+     */
+    error UCEFSharableInvalidGrant(uint64 expiry, uint8 scope);
+
+    /**
+     * @dev Error thrown when granting a new viewer to an account already holding MAX_VIEWERS active grants
+     * @param account The account that granted the permission
+     */
+    error UCEFSharableTooManyViewers(address account);
+
     /**
      * @dev Emitted when viewing permissions are granted or revoked
      * @param account The account whose balance viewing permissions were modified
@@ -85,6 +138,15 @@ contract UCEFSharable is UCEF {
         bool status
     );
 
+    /**
+     * @dev Emitted along with ViewerPermissionUpdated when viewing permissions are granted
+     * @param account The account that granted the viewing permission
+     * @param viewer The address that was granted viewing permission
+     * @param expiry Timestamp at which the grant expires
+     * @param scope Scope flags of the grant
+     */
+    event ViewerGrantUpdated(address indexed account, address indexed viewer, uint64 expiry, uint8 scope);
+
     /**
      * @dev Emitted when the supervisor address is updated
      * @param previousSupervisor Address of the previous supervisor
@@ -152,16 +214,35 @@ contract UCEFSharable is UCEF {
     }
 
     /**
-     * @dev Grants balance viewing permission to a specific address
+     * @dev Grants balance viewing permission to a specific address, without expiry
      * @param viewer The address to grant viewing permission to
      *
      * Requirements:
      * - Only the account owner can grant viewing permissions
+     * - The account must hold less than MAX_VIEWERS active grants, unless `viewer` already holds one
      *
-     * Emits a ViewerPermissionUpdated event
+     * Emits ViewerPermissionUpdated and ViewerGrantUpdated events
      */
     function grantViewer(address viewer) public virtual {
-        _updateViewerPermission(msg.sender, viewer, true);
+        _updateViewerPermission(msg.sender, viewer, NO_EXPIRY, SCOPE_BALANCE);
+    }
+
+    /**
+     * @dev Grants viewing permission to a specific address until a given time, replacing any existing grant
+     * @param viewer The address to grant viewing permission to
+     * @param expiry Timestamp at which the grant expires
+     * @param scope Combination of the SCOPE_BALANCE, SCOPE_TRANSFER_EVENTS and SCOPE_ALLOWANCES flags
+     *
+     * Requirements:
+     * - Only the account owner can grant viewing permissions
+     * - `expiry` must be in the future
+     * - `scope` must contain at least one flag and no unknown flag
+     * - The account must hold less than MAX_VIEWERS active grants, unless `viewer` already holds one
+     *
+     * Emits ViewerPermissionUpdated and ViewerGrantUpdated events
+     */
+    function grantViewerUntil(address viewer, uint64 expiry, uint8 scope) public virtual {
+        _grantViewerUntil(msg.sender, viewer, expiry, scope);
     }
 
     /**
@@ -174,34 +255,156 @@ contract UCEFSharable is UCEF {
      * Emits a ViewerPermissionUpdated event
      */
     function revokeViewer(address viewer) public virtual {
-        _updateViewerPermission(msg.sender, viewer, false);
+        _updateViewerPermission(msg.sender, viewer, 0, 0);
     }
 
     /**
-     * @dev Checks if an address has viewing permission for a specific account
+     * @dev Revokes the viewing permissions of every viewer of the caller, including expired grants
+     *
+     * Emits a ViewerPermissionUpdated event for each revoked viewer
+     */
+    function revokeAllViewers() public virtual {
+        EnumerableSet.AddressSet storage accountViewers = _viewers[msg.sender];
+        while (accountViewers.length() > 0) {
+            _updateViewerPermission(msg.sender, accountViewers.at(accountViewers.length() - 1), 0, 0);
+        }
+    }
+
+    /**
+     * @dev Checks if an address has an active balance viewing permission for a specific account
      * @param account The account whose permissions to check
      * @param viewer The address to check viewing permissions for
      * @return bool True if the viewer has permission, false otherwise
      */
     function hasViewPermission(address account, address viewer) public view virtual returns (bool) {
-        return _authorizedViewers[account][viewer];
+        return _hasActiveGrant(account, viewer, SCOPE_BALANCE);
+    }
+
+    /**
+     * @dev Returns the active grant of a viewer for a specific account
+     * @param account The account whose permissions to check
+     * @param viewer The address to check viewing permissions for
+     * @return expiry Timestamp at which the grant expires (0 if there is no active grant)
+     * @return scope Scope flags of the grant (0 if there is no active grant)
+     */
+    function viewerGrant(address account, address viewer) public view virtual returns (uint64 expiry, uint8 scope) {
+        ViewerGrant memory grant = _viewerGrants[account][viewer];
+        if (grant.expiry <= block.timestamp) {
+            return (0, 0);
+        }
+        return (grant.expiry, grant.scope);
+    }
+
+    /**
+     * @dev Returns the viewers holding an active grant for a specific account
+     * @param account The account whose viewers to list
+     * @return viewers The addresses of the viewers, see {viewerGrant} for the details of each grant
+     *
+     * Requirements:
+     * - The caller must be either the account owner or the current supervisor (if supervision is enabled)
+     */
+    function viewersOf(address account) public view virtual returns (address[] memory viewers) {
+        if (msg.sender != account && (_supervisor == address(0) || msg.sender != _supervisor)) {
+            revert UCEFSharableUnauthorizedViewer(msg.sender);
+        }
+
+        EnumerableSet.AddressSet storage accountViewers = _viewers[account];
+        viewers = new address[](accountViewers.length());
+        uint256 viewerCount = 0;
+        for (uint256 i = 0; i < accountViewers.length(); i++) {
+            address viewer = accountViewers.at(i);
+            if (_viewerGrants[account][viewer].expiry > block.timestamp) {
+                viewers[viewerCount++] = viewer;
+            }
+        }
+
+        assembly ("memory-safe") {
+            mstore(viewers, viewerCount)
+        }
+    }
+
+    /**
+     * @dev Internal function to grant viewing permission until a given time after validating the grant
+     * @param account The account granting the permission
+     * @param viewer The address to grant viewing permission to
+     * @param expiry Timestamp at which the grant expires
+     * @param scope Combination of the SCOPE_BALANCE, SCOPE_TRANSFER_EVENTS and SCOPE_ALLOWANCES flags
+     *
+     * Emits ViewerPermissionUpdated and ViewerGrantUpdated events
+     */
+    function _grantViewerUntil(address account, address viewer, uint64 expiry, uint8 scope) internal virtual {
+        if (expiry <= block.timestamp || scope == 0 || scope & ~SCOPE_ALL != 0) {
+            revert UCEFSharableInvalidGrant(expiry, scope);
+        }
+
+        _updateViewerPermission(account, viewer, expiry, scope);
     }
 
     /**
      * @dev Internal function to update viewer permissions
      * @param account The account whose permissions are being updated
      * @param viewer The viewer whose permissions are being updated
-     * @param status The new permission status
+     * @param expiry Timestamp at which the grant expires (0 to revoke)
+     * @param scope Scope flags of the grant (0 to revoke)
      *
-     * Emits a ViewerPermissionUpdated event
+     * Emits a ViewerPermissionUpdated event, and a ViewerGrantUpdated event when granting
+     * Expired grants are revoked, emitting ViewerPermissionUpdated events, when the account holds MAX_VIEWERS grants
      */
     function _updateViewerPermission(
         address account,
         address viewer,
-        bool status
+        uint64 expiry,
+        uint8 scope
     ) internal virtual {
-        _authorizedViewers[account][viewer] = status;
+        bool status = expiry != 0 && scope != 0;
+        if (status) {
+            EnumerableSet.AddressSet storage accountViewers = _viewers[account];
+            if (!accountViewers.contains(viewer) && accountViewers.length() >= MAX_VIEWERS) {
+                _revokeExpiredViewers(account);
+                if (accountViewers.length() >= MAX_VIEWERS) {
+                    revert UCEFSharableTooManyViewers(account);
+                }
+            }
+            _viewerGrants[account][viewer] = ViewerGrant(expiry, scope);
+            accountViewers.add(viewer);
+        } else {
+            delete _viewerGrants[account][viewer];
+            _viewers[account].remove(viewer);
+        }
+
         _emitViewerPermissionUpdatedEvent(account, viewer, status);
+        if (status) {
+            _emitViewerGrantUpdatedEvent(account, viewer, expiry, scope);
+        }
+    }
+
+    /**
+     * @dev Internal function to revoke the expired grants of an account
+     * @param account The account whose expired grants to revoke
+     *
+     * Emits a ViewerPermissionUpdated event for each revoked viewer
+     */
+    function _revokeExpiredViewers(address account) internal virtual {
+        EnumerableSet.AddressSet storage accountViewers = _viewers[account];
+        // Iterate backwards as revoking swaps the last viewer into the removed slot
+        for (uint256 i = accountViewers.length(); i > 0; i--) {
+            address viewer = accountViewers.at(i - 1);
+            if (_viewerGrants[account][viewer].expiry <= block.timestamp) {
+                _updateViewerPermission(account, viewer, 0, 0);
+            }
+        }
+    }
+
+    /**
+     * @dev Internal function to check if a viewer holds an active grant covering `scope` for an account
+     * @param account The account whose permissions to check
+     * @param viewer The address to check viewing permissions for
+     * @param scope The scope flag to check
+     * @return bool True if the grant is active and covers `scope`
+     */
+    function _hasActiveGrant(address account, address viewer, uint8 scope) internal view virtual returns (bool) {
+        ViewerGrant memory grant = _viewerGrants[account][viewer];
+        return grant.expiry > block.timestamp && grant.scope & scope != 0;
     }
 
     /**
@@ -212,7 +415,7 @@ contract UCEFSharable is UCEF {
      * Requirements:
      * - The caller must be either:
      *   1. The account owner
-     *   2. An authorized viewer for the account
+     *   2. A viewer with an active balance grant for the account
      *   3. The current supervisor (if supervision is enabled)
      *
      * Note:
@@ -220,43 +423,57 @@ contract UCEFSharable is UCEF {
      */
     function _authorizeBalance(address account) internal view virtual override returns (bool) {
         if (msg.sender != account && 
-            !_authorizedViewers[account][msg.sender] && 
+            !_hasActiveGrant(account, msg.sender, SCOPE_BALANCE) && 
             (_supervisor == address(0) || msg.sender != _supervisor)) {
             revert UCEFSharableUnauthorizedViewer(msg.sender);
         }
         return true;
     }
 
+    /**
+     * @dev Override to also allow viewers with an active allowances grant from the owner,
+     * and the supervisor (if enabled), to view allowances
+     * @param owner The address that owns the tokens
+     * @param spender The address that can spend the tokens
+     * @return uint256 The number of tokens the spender is allowed to spend
+     */
+    function allowance(address owner, address spender) public view virtual override returns (uint256) {
+        if (msg.sender != owner && 
+            msg.sender != spender && 
+            !_hasActiveGrant(owner, msg.sender, SCOPE_ALLOWANCES) && 
+            (_supervisor == address(0) || msg.sender != _supervisor)) {
+            revert UCEFUnauthorizedBalanceAccess(msg.sender, owner);
+        }
+        return _allowance(owner, spender);
+    }
+
     /**
      * @dev Override to implement supervisor-inclusive event visibility for transfers
-     * Supervisor can view all transfers for oversight alongside the involved parties
+     * Supervisor can view all transfers for oversight alongside the involved parties,
+     * and so can the viewers of either party holding an active transfer events grant
      * @param from The sending address
      * @param to The receiving address
-     * @return allowedViewers Array containing sender, receiver, and supervisor (if enabled)
+     * @return allowedViewers Array containing sender, receiver, supervisor (if enabled), and granted viewers
      */
     function _getTransferEventViewers(
         address from,
         address to,
         uint256 /* value */
     ) internal view virtual override returns (address[] memory allowedViewers) {
-        // Count unique non-zero addresses including supervisor (if enabled)
+        allowedViewers = new address[](3 + _viewers[from].length() + _viewers[to].length());
         uint256 viewerCount = 0;
-        if (_supervisor != address(0)) viewerCount++; // Include supervisor if enabled
-        if (from != address(0) && from != _supervisor) viewerCount++;
-        if (to != address(0) && to != from && to != _supervisor) viewerCount++;
-
-        allowedViewers = new address[](viewerCount);
-        uint256 index = 0;
 
-        // Populate viewer list
-        if (_supervisor != address(0)) {
-            allowedViewers[index++] = _supervisor;
-        }
-        if (from != address(0) && from != _supervisor) {
-            allowedViewers[index++] = from;
+        // Populate viewer list, skipping the zero address and duplicates
+        viewerCount = _addViewer(allowedViewers, viewerCount, _supervisor);
+        viewerCount = _addViewer(allowedViewers, viewerCount, from);
+        viewerCount = _addViewer(allowedViewers, viewerCount, to);
+        viewerCount = _addTransferEventViewers(allowedViewers, viewerCount, from, from, to);
+        if (to != from) {
+            viewerCount = _addTransferEventViewers(allowedViewers, viewerCount, to, from, to);
         }
-        if (to != address(0) && to != from && to != _supervisor) {
-            allowedViewers[index] = to;
+
+        assembly ("memory-safe") {
+            mstore(allowedViewers, viewerCount)
         }
     }
 
@@ -293,6 +510,39 @@ contract UCEFSharable is UCEF {
         }
     }
 
+    /**
+     * @dev Adds the viewers of `account` holding an active transfer events grant to the viewer list of a transfer
+     * The viewers of an account are unique, so duplicates are skipped without scanning the list: the supervisor
+     * and the parties are already listed, and so are the viewers of `from` when adding the viewers of `to`,
+     * which must not be added again for self-transfers
+     * @return The new number of viewers in the list
+     */
+    function _addTransferEventViewers(
+        address[] memory viewers,
+        uint256 viewerCount,
+        address account,
+        address from,
+        address to
+    ) private view returns (uint256) {
+        EnumerableSet.AddressSet storage accountViewers = _viewers[account];
+        uint256 length = accountViewers.length();
+        for (uint256 i = 0; i < length; i++) {
+            address viewer = accountViewers.at(i);
+            if (
+                viewer == address(0) ||
+                viewer == _supervisor ||
+                viewer == from ||
+                viewer == to ||
+                !_hasActiveGrant(account, viewer, SCOPE_TRANSFER_EVENTS) ||
+                (account != from && _hasActiveGrant(from, viewer, SCOPE_TRANSFER_EVENTS))
+            ) {
+                continue;
+            }
+            viewers[viewerCount++] = viewer;
+        }
+        return viewerCount;
+    }
+
     /**
      * @dev Internal function to emit ViewerPermissionUpdated events
      * Can be overridden by derived contracts to implement custom emission logic
@@ -308,6 +558,22 @@ contract UCEFSharable is UCEF {
         emit PrivateEvent(allowedViewers, EVENT_TYPE_VIEWER_PERMISSION_UPDATED, payload);
     }
 
+    /**
+     * @dev Internal function to emit ViewerGrantUpdated events
+     * Can be overridden by derived contracts to implement custom emission logic
+     * Default implementation: visible to the viewers of the matching ViewerPermissionUpdated event
+     * @param account The account that granted the permission
+     * @param viewer The viewer that was granted the permission
+     * @param expiry Timestamp at which the grant expires
+     * @param scope Scope flags of the grant
+     */
+    function _emitViewerGrantUpdatedEvent(address account, address viewer, uint64 expiry, uint8 scope) internal virtual {
+        address[] memory allowedViewers = _getViewerPermissionUpdatedEventViewers(account, viewer, true);
+        bytes memory payload = abi.encode(account, viewer, expiry, scope);
+
+        emit PrivateEvent(allowedViewers, EVENT_TYPE_VIEWER_GRANT_UPDATED, payload);
+    }
+
     /**
      * @dev Internal function to determine who can view ViewerPermissionUpdated events
      * @param account The account whose permissions were updated
@@ -118,7 +118,7 @@ abstract contract ERC4626 is UCEF, IERC4626 {
 
     /** @dev See {IERC4626-totalAssets}. */
     function totalAssets() public view virtual returns (uint256) {
-        return IUCEF(asset()).balanceOf(address(this));
+        return _totalAssets();
     }
 
     /** @dev See {IERC4626-convertToShares}. */
@@ -201,7 +201,7 @@ abstract contract ERC4626 is UCEF, IERC4626 {
     function withdraw(uint256 assets, address receiver, address owner) public virtual returns (uint256) {
         uint256 maxAssets = maxWithdraw(owner);
         if (assets > maxAssets) {
-            revert ERC4626ExceededMaxWithdraw(owner, assets, maxAssets);
+            revert ERC4626ExceededMaxWithdraw(owner, assets, _redactBalance(owner, maxAssets));
         }
 
         uint256 shares = previewWithdraw(assets);
@@ -214,7 +214,7 @@ abstract contract ERC4626 is UCEF, IERC4626 {
     function redeem(uint256 shares, address receiver, address owner) public virtual returns (uint256) {
         uint256 maxShares = maxRedeem(owner);
         if (shares > maxShares) {
-            revert ERC4626ExceededMaxRedeem(owner, shares, maxShares);
+            revert ERC4626ExceededMaxRedeem(owner, shares, _redactBalance(owner, maxShares));
         }
 
         uint256 assets = previewRedeem(shares);
@@ -223,18 +223,26 @@ abstract contract ERC4626 is UCEF, IERC4626 {
         return assets;
     }
 
+    /**
+     * @dev Internal function returning the total amount of underlying assets managed by the vault, used by the
+     * conversion functions regardless of who can view {totalAssets}.
+     */
+    function _totalAssets() internal view virtual returns (uint256) {
+        return IUCEF(asset()).balanceOf(address(this));
+    }
+
     /**
      * @dev Internal conversion function (from assets to shares) with support for rounding direction.
      */
     function _convertToShares(uint256 assets, Math.Rounding rounding) internal view virtual returns (uint256) {
-        return assets.mulDiv(totalSupply() + 10 ** _decimalsOffset(), totalAssets() + 1, rounding);
+        return assets.mulDiv(_supply() + 10 ** _decimalsOffset(), _totalAssets() + 1, rounding);
     }
 
     /**
      * @dev Internal conversion function (from shares to assets) with support for rounding direction.
      */
     function _convertToAssets(uint256 shares, Math.Rounding rounding) internal view virtual returns (uint256) {
-        return shares.mulDiv(totalAssets() + 1, totalSupply() + 10 ** _decimalsOffset(), rounding);
+        return shares.mulDiv(_totalAssets() + 1, _supply() + 10 ** _decimalsOffset(), rounding);
     }
 
     /**
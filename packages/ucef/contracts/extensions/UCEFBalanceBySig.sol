@@ -0,0 +1,86 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {UCEF} from "../UCEF.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+
+/**
+ * @dev Extension of {UCEF} allowing balances to be read with an EIP-712 signature of the viewer.
+ *
+ * {balanceOf} relies on `msg.sender`, which is only authenticated on chains where reads are authenticated, such as
+ * Silent Data. On any other chain `eth_call` can be made from an arbitrary address, so this extension adds
+ * {balanceOfWithSignature}, which authenticates the viewer through a BalanceQuery message signed by the viewer instead.
+ * This only authenticates the viewer to off-chain services answering balance queries: outside Silent Data, balances
+ * remain readable from storage and private event payloads remain readable from public logs.
+ *
+ * By default only the account owner can sign balance queries. Derived contracts can override
+ * {_authorizeSignedBalance} to also accept the viewers of their privacy model.
+ *
+ * Balance queries have no nonce as reading doesn't change state: a signature can be replayed until its deadline by
+ * whoever holds it, so deadlines should be short and signatures only shared with the service performing the query.
+ *
+ * The {EIP712} domain is not initialized by this extension so it can be combined with {UCEFPermit} and
+ * {UCEFSharableBySig}, which share the same domain. Contracts not inheriting them must call the {EIP712} constructor
+ * themselves.
+ */
+abstract contract UCEFBalanceBySig is UCEF, EIP712 {
+    bytes32 private constant BALANCE_QUERY_TYPEHASH =
+        keccak256("BalanceQuery(address account,address viewer,uint256 deadline)");
+
+    /**
+     * @dev Signature deadline has expired.
+     */
+    error UCEFBalanceQueryExpiredSignature(uint256 deadline);
+
+    /**
+     * @dev Mismatched signature.
+     */
+    error UCEFBalanceQueryInvalidSigner(address signer, address viewer);
+
+    /**
+     * @dev Returns the balance of `account` to `viewer`, authenticated by a signature of `viewer`
+     * @param account The address to query the balance of
+     * @param viewer The address viewing the balance, which must have signed the query
+     * @param deadline Timestamp after which the signature is no longer valid
+     * @param signature EIP-712 BalanceQuery signature of `viewer`
+     * @return uint256 The balance of `account`
+     *
+     * Requirements:
+     * - `deadline` must not be in the past
+     * - The signature must be a valid EIP-712 BalanceQuery signature of `viewer`
+     * - `viewer` must be authorized to view the balance, see {_authorizeSignedBalance}
+     */
+    function balanceOfWithSignature(
+        address account,
+        address viewer,
+        uint256 deadline,
+        bytes calldata signature
+    ) public view virtual returns (uint256) {
+        if (block.timestamp > deadline) {
+            revert UCEFBalanceQueryExpiredSignature(deadline);
+        }
+
+        bytes32 structHash = keccak256(abi.encode(BALANCE_QUERY_TYPEHASH, account, viewer, deadline));
+        address signer = ECDSA.recover(_hashTypedDataV4(structHash), signature);
+        if (signer != viewer) {
+            revert UCEFBalanceQueryInvalidSigner(signer, viewer);
+        }
+
+        if (!_authorizeSignedBalance(viewer, account)) {
+            revert UCEFUnauthorizedBalanceAccess(viewer, account);
+        }
+        return _balanceOf(account);
+    }
+
+    /**
+     * @dev Internal function to determine if a signed balance query of `viewer` is authorized
+     * Default implementation: only the account owner can view its balance
+     * @param viewer The address that signed the query
+     * @param account The address whose balance is queried
+     * @return bool True if authorized, false otherwise
+     */
+    function _authorizeSignedBalance(address viewer, address account) internal view virtual returns (bool) {
+        return viewer == account;
+    }
+}
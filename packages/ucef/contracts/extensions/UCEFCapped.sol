@@ -47,9 +47,9 @@ abstract contract UCEFCapped is UCEF {
 
         if (from == address(0)) {
             uint256 maxSupply = cap();
-            uint256 supply = totalSupply();
+            uint256 supply = _supply();
             if (supply > maxSupply) {
-                revert ERC20ExceededCap(supply, maxSupply);
+                revert ERC20ExceededCap(_redactSupply(supply), maxSupply);
             }
         }
     }
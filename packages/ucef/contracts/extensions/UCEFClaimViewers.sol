@@ -0,0 +1,289 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {EnumerableSet} from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import {UCEF} from "../UCEF.sol";
+import {
+    IOnchainIDClaimIssuer,
+    IOnchainIDIdentity,
+    IOnchainIDIdentityRegistry,
+    IOnchainIDTrustedIssuersRegistry
+} from "../interfaces/IOnchainID.sol";
+
+/**
+ * @dev Extension of {UCEF} granting visibility to the holders of ONCHAINID claims instead of hardcoded addresses.
+ *
+ * A caller holds a viewer claim when the identity registered for it in an ERC-3643 identity registry carries a
+ * valid claim, from an issuer trusted by the registry's trusted issuers registry, for one of the viewer claim topics
+ * (e.g. an "AUDITOR" or "REGULATOR" topic). Claims are checked when they are used, so revoking the claim or removing
+ * the issuer from the trusted issuers revokes the access.
+ *
+ * Event viewers are listed in each Private Event, so claim holders must register with {addClaimViewer} to be
+ * included in Transfer and Approval events. Registered viewers whose claim is no longer valid can be removed by
+ * anyone with {removeClaimViewer}. Registered viewers are not included while no viewer claim topic is configured.
+ *
+ * The extension doesn't grant balance access by itself, as the authorization model is defined by the base contract:
+ * derived contracts should allow {hasViewerClaim} callers in their {_authorizeBalance}. It doesn't expose a way to
+ * configure the viewer claim topics either, derived contracts must call {_setViewerClaimTopics} with their own
+ * access control.
+ *
+ * NOTE: Every Transfer and Approval iterates over the registered claim viewers, and every balance read by a caller
+ * other than the account queries the identity registry and the trusted issuers, so topics should have few issuers.
+ */
+abstract contract UCEFClaimViewers is UCEF {
+    using EnumerableSet for EnumerableSet.AddressSet;
+
+    /**
+    * @notice ClaimViewerUpdated event parameter mapping:
+    *   - address param0: viewer - The address that was registered or removed as a claim viewer
+    *   - bool param1: registered - Whether the address is included in the event viewers
+    * @custom:signature ClaimViewerUpdated(address viewer, bool registered)
+    */
+    bytes32 public constant EVENT_TYPE_CLAIM_VIEWER_UPDATED = keccak256("ClaimViewerUpdated(address,bool)");
+
+    IOnchainIDIdentityRegistry private immutable _identityRegistry;
+
+    uint256[] private _viewerClaimTopics;
+    EnumerableSet.AddressSet private _claimViewers;
+
+    /**
+     * @dev The identity registry is not a valid address.
+     */
+    error UCEFInvalidIdentityRegistry(address identityRegistry);
+
+    /**
+     * @dev The viewer can't be registered without a viewer claim, or removed while it holds one.
+     */
+    error UCEFInvalidClaimViewer(address viewer);
+
+    /**
+     * @dev Emitted when the viewer claim topics are updated
+     * @param claimTopics The new viewer claim topics
+     */
+    event ViewerClaimTopicsUpdated(uint256[] claimTopics);
+
+    /**
+     * @dev Sets the identity registry used to find the identity of the callers
+     *
+     * Requirements:
+     * - `identityRegistry_` cannot be the zero address
+     */
+    constructor(IOnchainIDIdentityRegistry identityRegistry_) {
+        if (address(identityRegistry_) == address(0)) {
+            revert UCEFInvalidIdentityRegistry(address(0));
+        }
+        _identityRegistry = identityRegistry_;
+    }
+
+    /**
+     * @dev Returns the identity registry used to find the identity of the callers
+     */
+    function identityRegistry() public view virtual returns (IOnchainIDIdentityRegistry) {
+        return _identityRegistry;
+    }
+
+    /**
+     * @dev Returns the claim topics granting visibility
+     */
+    function viewerClaimTopics() public view virtual returns (uint256[] memory) {
+        return _viewerClaimTopics;
+    }
+
+    /**
+     * @dev Returns whether the identity of `account` carries a valid claim for one of the viewer claim topics
+     * from a trusted issuer
+     * @param account The address to check
+     * @return bool True if `account` holds a viewer claim
+     */
+    function hasViewerClaim(address account) public view virtual returns (bool) {
+        if (_viewerClaimTopics.length == 0) {
+            return false;
+        }
+        IOnchainIDIdentity identity = _identityRegistry.identity(account);
+        if (address(identity).code.length == 0) {
+            return false;
+        }
+
+        IOnchainIDTrustedIssuersRegistry issuersRegistry = _identityRegistry.issuersRegistry();
+        for (uint256 i = 0; i < _viewerClaimTopics.length; i++) {
+            if (_hasValidClaim(issuersRegistry, identity, _viewerClaimTopics[i])) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * @dev Returns whether `viewer` is registered to be included in Transfer and Approval events
+     */
+    function isClaimViewer(address viewer) public view virtual returns (bool) {
+        return _claimViewers.contains(viewer);
+    }
+
+    /**
+     * @dev Registers `viewer` to be included in Transfer and Approval events
+     * @param viewer The address to register
+     *
+     * Requirements:
+     * - `viewer` must hold a viewer claim
+     *
+     * Emits a ClaimViewerUpdated private event if `viewer` was not registered
+     */
+    function addClaimViewer(address viewer) public virtual {
+        if (!hasViewerClaim(viewer)) {
+            revert UCEFInvalidClaimViewer(viewer);
+        }
+        if (_claimViewers.add(viewer)) {
+            _emitClaimViewerUpdatedEvent(viewer, true);
+        }
+    }
+
+    /**
+     * @dev Stops including `viewer` in Transfer and Approval events
+     * @param viewer The address to remove
+     *
+     * Requirements:
+     * - The caller must be `viewer`, or `viewer` must no longer hold a viewer claim
+     *
+     * Emits a ClaimViewerUpdated private event if `viewer` was registered
+     */
+    function removeClaimViewer(address viewer) public virtual {
+        if (msg.sender != viewer && hasViewerClaim(viewer)) {
+            revert UCEFInvalidClaimViewer(viewer);
+        }
+        if (_claimViewers.remove(viewer)) {
+            _emitClaimViewerUpdatedEvent(viewer, false);
+        }
+    }
+
+    /**
+     * @dev Internal function to set the claim topics granting visibility
+     * @param claimTopics The new viewer claim topics, empty to disable claim-based visibility
+     *
+     * Emits a {ViewerClaimTopicsUpdated} event
+     */
+    function _setViewerClaimTopics(uint256[] memory claimTopics) internal virtual {
+        _viewerClaimTopics = claimTopics;
+        emit ViewerClaimTopicsUpdated(claimTopics);
+    }
+
+    /**
+     * @dev Override to include the registered claim viewers in the viewers of transfers
+     */
+    function _getTransferEventViewers(
+        address from,
+        address to,
+        uint256 value
+    ) internal view virtual override returns (address[] memory allowedViewers) {
+        return _withClaimViewers(super._getTransferEventViewers(from, to, value));
+    }
+
+    /**
+     * @dev Override to include the registered claim viewers in the viewers of approvals
+     */
+    function _getApprovalEventViewers(
+        address owner,
+        address spender,
+        uint256 value
+    ) internal view virtual override returns (address[] memory allowedViewers) {
+        return _withClaimViewers(super._getApprovalEventViewers(owner, spender, value));
+    }
+
+    /**
+     * @dev Internal function to emit ClaimViewerUpdated events
+     * Can be overridden by derived contracts to implement custom emission logic
+     * @param viewer The address that was registered or removed
+     * @param registered Whether `viewer` is included in the event viewers
+     */
+    function _emitClaimViewerUpdatedEvent(address viewer, bool registered) internal virtual {
+        address[] memory allowedViewers = _getClaimViewerUpdatedEventViewers(viewer);
+        bytes memory payload = abi.encode(viewer, registered);
+
+        emit PrivateEvent(allowedViewers, EVENT_TYPE_CLAIM_VIEWER_UPDATED, payload);
+    }
+
+    /**
+     * @dev Internal function to determine who can view ClaimViewerUpdated events
+     * Default implementation: the updated viewer and the caller can view the event
+     * @param viewer The address that was registered or removed
+     * @return allowedViewers Array of addresses that can view this event
+     */
+    function _getClaimViewerUpdatedEventViewers(
+        address viewer
+    ) internal view virtual returns (address[] memory allowedViewers) {
+        if (msg.sender == viewer) {
+            allowedViewers = new address[](1);
+            allowedViewers[0] = viewer;
+        } else {
+            allowedViewers = new address[](2);
+            allowedViewers[0] = viewer;
+            allowedViewers[1] = msg.sender;
+        }
+    }
+
+    /**
+     * @dev Returns `viewers` followed by the registered claim viewers not already included
+     */
+    function _withClaimViewers(address[] memory viewers) private view returns (address[] memory allowedViewers) {
+        uint256 claimViewerCount = _viewerClaimTopics.length == 0 ? 0 : _claimViewers.length();
+        if (claimViewerCount == 0) {
+            return viewers;
+        }
+
+        allowedViewers = new address[](viewers.length + claimViewerCount);
+        uint256 viewerCount = 0;
+        for (uint256 i = 0; i < viewers.length; i++) {
+            allowedViewers[viewerCount++] = viewers[i];
+        }
+        for (uint256 i = 0; i < claimViewerCount; i++) {
+            address viewer = _claimViewers.at(i);
+            bool included = false;
+            for (uint256 j = 0; j < viewers.length && !included; j++) {
+                included = viewers[j] == viewer;
+            }
+            if (!included) {
+                allowedViewers[viewerCount++] = viewer;
+            }
+        }
+
+        assembly ("memory-safe") {
+            mstore(allowedViewers, viewerCount)
+        }
+    }
+
+    /**
+     * @dev Returns whether `identity` carries a valid claim of `claimTopic` from an issuer trusted for that topic
+     * Issuers reverting on validation are skipped, as done by the ERC-3643 identity registry, and identities reverting on getClaim
+     * are treated as holding no claim
+     */
+    function _hasValidClaim(
+        IOnchainIDTrustedIssuersRegistry issuersRegistry,
+        IOnchainIDIdentity identity,
+        uint256 claimTopic
+    ) private view returns (bool) {
+        IOnchainIDClaimIssuer[] memory issuers = issuersRegistry.getTrustedIssuersForClaimTopic(claimTopic);
+        for (uint256 i = 0; i < issuers.length; i++) {
+            bytes32 claimId = keccak256(abi.encode(issuers[i], claimTopic));
+            try identity.getClaim(claimId) returns (
+                uint256 topic,
+                uint256,
+                address issuer,
+                bytes memory sig,
+                bytes memory data,
+                string memory
+            ) {
+                if (topic != claimTopic) {
+                    continue;
+                }
+                try IOnchainIDClaimIssuer(issuer).isClaimValid(identity, claimTopic, sig, data) returns (bool valid) {
+                    if (valid) {
+                        return true;
+                    }
+                } catch {}
+            } catch {
+                return false;
+            }
+        }
+        return false;
+    }
+}
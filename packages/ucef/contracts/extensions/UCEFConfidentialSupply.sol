@@ -0,0 +1,98 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {UCEF} from "../UCEF.sol";
+
+/**
+ * @dev Extension of {UCEF} restricting the total supply to a set of supply viewers.
+ *
+ * Observers able to read the total supply can infer issuance sizes from its changes and, for small holder sets,
+ * individual balances. With this extension {totalSupply} reverts for callers which are not supply viewers, as do the
+ * views derived from it such as {UCEFFlashMint-maxFlashLoan} and {UCEFVotes-getPastTotalSupply}. Revert data derived
+ * from the total supply, such as the {UCEFCapped} cap errors, is redacted for them.
+ *
+ * Supply limits keep being enforced, as extensions read the actual supply through {UCEF-_supply}.
+ *
+ * The extension doesn't expose a way to manage the supply viewers, derived contracts must call {_setSupplyViewer}
+ * with their own access control.
+ */
+abstract contract UCEFConfidentialSupply is UCEF {
+    /**
+    * @notice SupplyViewerUpdated event parameter mapping:
+    *   - address param0: viewer - The address that was granted or revoked access to the total supply
+    *   - bool param1: allowed   - Whether the address can view the total supply
+    * @custom:signature SupplyViewerUpdated(address viewer, bool allowed)
+    */
+    bytes32 public constant EVENT_TYPE_SUPPLY_VIEWER_UPDATED = keccak256("SupplyViewerUpdated(address,bool)");
+
+    mapping(address viewer => bool) private _supplyViewers;
+
+    /**
+     * @dev The supply viewer is not a valid address.
+     */
+    error UCEFInvalidSupplyViewer(address viewer);
+
+    /**
+     * @dev Returns whether `viewer` can view the total supply
+     * @param viewer The address to check
+     * @return bool True if `viewer` is a supply viewer
+     */
+    function isSupplyViewer(address viewer) public view virtual returns (bool) {
+        return _supplyViewers[viewer];
+    }
+
+    /**
+     * @dev Internal function to grant or revoke access to the total supply
+     * @param viewer The address to update
+     * @param allowed Whether `viewer` can view the total supply
+     *
+     * Emits a SupplyViewerUpdated private event
+     */
+    function _setSupplyViewer(address viewer, bool allowed) internal virtual {
+        if (viewer == address(0)) {
+            revert UCEFInvalidSupplyViewer(address(0));
+        }
+        _supplyViewers[viewer] = allowed;
+
+        _emitSupplyViewerUpdatedEvent(viewer, allowed);
+    }
+
+    /**
+     * @dev Only supply viewers can view the total supply
+     */
+    function _authorizeSupply() internal view virtual override returns (bool) {
+        return _supplyViewers[msg.sender];
+    }
+
+    /**
+     * @dev Internal function to emit SupplyViewerUpdated events
+     * Can be overridden by derived contracts to implement custom emission logic
+     * @param viewer The address that was updated
+     * @param allowed Whether `viewer` can view the total supply
+     */
+    function _emitSupplyViewerUpdatedEvent(address viewer, bool allowed) internal virtual {
+        address[] memory allowedViewers = _getSupplyViewerUpdatedEventViewers(viewer);
+        bytes memory payload = abi.encode(viewer, allowed);
+
+        emit PrivateEvent(allowedViewers, EVENT_TYPE_SUPPLY_VIEWER_UPDATED, payload);
+    }
+
+    /**
+     * @dev Internal function to determine who can view SupplyViewerUpdated events
+     * Default implementation: the updated viewer and the caller can view the event
+     * @param viewer The address that was updated
+     * @return allowedViewers Array of addresses that can view this event
+     */
+    function _getSupplyViewerUpdatedEventViewers(
+        address viewer
+    ) internal view virtual returns (address[] memory allowedViewers) {
+        if (msg.sender == viewer) {
+            allowedViewers = new address[](1);
+            allowedViewers[0] = viewer;
+        } else {
+            allowedViewers = new address[](2);
+            allowedViewers[0] = viewer;
+            allowedViewers[1] = msg.sender;
+        }
+    }
+}
@@ -0,0 +1,307 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {UCEF} from "../UCEF.sol";
+import {ERC4626} from "./ERC4626.sol";
+import {UCEFConfidentialSupply} from "./UCEFConfidentialSupply.sol";
+import {IUCEF} from "../interfaces/IUCEF.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {Math} from "@openzeppelin/contracts/utils/math/Math.sol";
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/**
+ * @dev Confidential variant of {ERC4626} for vaults over UCEF assets.
+ *
+ * {ERC4626} reads its holdings with the balance of the vault in the asset, and its conversions and previews are
+ * public, so a vault publishes its aggregate holdings and share price. With this extension:
+ * - The assets managed by the vault are tracked internally, so assets transferred to the vault outside of a deposit
+ *   are not accounted for and cannot move the share price
+ * - {totalAssets}, {convertToShares}, {convertToAssets} and the previews are restricted to supply viewers, see
+ *   {UCEFConfidentialSupply}, as is the total supply of shares
+ * - {maxWithdraw} and {maxRedeem} are restricted to callers authorized to view the balance of the owner
+ * - Deposit and Withdraw are emitted as PrivateEvents instead of the public {IERC4626} events
+ *
+ * Deposits and withdrawals don't require the caller to view the share price, the amounts are reported in the private
+ * events visible to the parties.
+ */
+abstract contract UCEFConfidentialVault is ERC4626, UCEFConfidentialSupply {
+    using Math for uint256;
+
+    /**
+    * @notice Deposit event parameter mapping:
+    *   - address param0: sender - The address depositing the assets
+    *   - address param1: owner  - The address receiving the shares
+    *   - uint256 param2: assets - Amount of assets deposited
+    *   - uint256 param3: shares - Amount of shares minted
+    * @custom:signature Deposit(address sender, address owner, uint256 assets, uint256 shares)
+    */
+    bytes32 public constant EVENT_TYPE_DEPOSIT = keccak256("Deposit(address,address,uint256,uint256)");
+    /**
+    * @notice Withdraw event parameter mapping:
+    *   - address param0: sender   - The address withdrawing the assets
+    *   - address param1: receiver - The address receiving the assets
+    *   - address param2: owner    - The address whose shares were burned
+    *   - uint256 param3: assets   - Amount of assets withdrawn
+    *   - uint256 param4: shares   - Amount of shares burned
+    * @custom:signature Withdraw(address sender, address receiver, address owner, uint256 assets, uint256 shares)
+    */
+    bytes32 public constant EVENT_TYPE_WITHDRAW = keccak256("Withdraw(address,address,address,uint256,uint256)");
+
+    uint256 private _managedAssets;
+
+    /** @dev See {ERC4626-decimals}. */
+    function decimals() public view virtual override(ERC20, ERC4626) returns (uint8) {
+        return super.decimals();
+    }
+
+    /**
+     * @dev Returns the total amount of assets managed by the vault, if the caller is a supply viewer
+     * @custom:error UCEFUnauthorizedSupplyAccess Thrown when an unauthorized address attempts to view the assets
+     */
+    function totalAssets() public view virtual override returns (uint256) {
+        _checkVaultAccess();
+        return _totalAssets();
+    }
+
+    /** @dev See {IERC4626-convertToShares}. Restricted to supply viewers. */
+    function convertToShares(uint256 assets) public view virtual override returns (uint256) {
+        _checkVaultAccess();
+        return _convertToShares(assets, Math.Rounding.Floor);
+    }
+
+    /** @dev See {IERC4626-convertToAssets}. Restricted to supply viewers. */
+    function convertToAssets(uint256 shares) public view virtual override returns (uint256) {
+        _checkVaultAccess();
+        return _convertToAssets(shares, Math.Rounding.Floor);
+    }
+
+    /** @dev See {IERC4626-maxWithdraw}. Restricted to callers authorized to view the balance of `owner`. */
+    function maxWithdraw(address owner) public view virtual override returns (uint256) {
+        return _convertToAssets(balanceOf(owner), Math.Rounding.Floor);
+    }
+
+    /** @dev See {IERC4626-maxRedeem}. Restricted to callers authorized to view the balance of `owner`. */
+    function maxRedeem(address owner) public view virtual override returns (uint256) {
+        return balanceOf(owner);
+    }
+
+    /** @dev See {IERC4626-previewDeposit}. Restricted to supply viewers. */
+    function previewDeposit(uint256 assets) public view virtual override returns (uint256) {
+        _checkVaultAccess();
+        return _convertToShares(assets, Math.Rounding.Floor);
+    }
+
+    /** @dev See {IERC4626-previewMint}. Restricted to supply viewers. */
+    function previewMint(uint256 shares) public view virtual override returns (uint256) {
+        _checkVaultAccess();
+        return _convertToAssets(shares, Math.Rounding.Ceil);
+    }
+
+    /** @dev See {IERC4626-previewWithdraw}. Restricted to supply viewers. */
+    function previewWithdraw(uint256 assets) public view virtual override returns (uint256) {
+        _checkVaultAccess();
+        return _convertToShares(assets, Math.Rounding.Ceil);
+    }
+
+    /** @dev See {IERC4626-previewRedeem}. Restricted to supply viewers. */
+    function previewRedeem(uint256 shares) public view virtual override returns (uint256) {
+        _checkVaultAccess();
+        return _convertToAssets(shares, Math.Rounding.Floor);
+    }
+
+    /** @dev See {IERC4626-deposit}. */
+    function deposit(uint256 assets, address receiver) public virtual override returns (uint256) {
+        uint256 maxAssets = maxDeposit(receiver);
+        if (assets > maxAssets) {
+            revert ERC4626ExceededMaxDeposit(receiver, assets, maxAssets);
+        }
+
+        uint256 shares = _convertToShares(assets, Math.Rounding.Floor);
+        _deposit(msg.sender, receiver, assets, shares);
+
+        return shares;
+    }
+
+    /** @dev See {IERC4626-mint}. */
+    function mint(uint256 shares, address receiver) public virtual override returns (uint256) {
+        uint256 maxShares = maxMint(receiver);
+        if (shares > maxShares) {
+            revert ERC4626ExceededMaxMint(receiver, shares, maxShares);
+        }
+
+        uint256 assets = _convertToAssets(shares, Math.Rounding.Ceil);
+        _deposit(msg.sender, receiver, assets, shares);
+
+        return assets;
+    }
+
+    /** @dev See {IERC4626-withdraw}. */
+    function withdraw(uint256 assets, address receiver, address owner) public virtual override returns (uint256) {
+        uint256 maxAssets = _convertToAssets(_balanceOf(owner), Math.Rounding.Floor);
+        if (assets > maxAssets) {
+            revert ERC4626ExceededMaxWithdraw(owner, assets, _redactBalance(owner, maxAssets));
+        }
+
+        uint256 shares = _convertToShares(assets, Math.Rounding.Ceil);
+        _withdraw(msg.sender, receiver, owner, assets, shares);
+
+        return shares;
+    }
+
+    /** @dev See {IERC4626-redeem}. */
+    function redeem(uint256 shares, address receiver, address owner) public virtual override returns (uint256) {
+        uint256 maxShares = _balanceOf(owner);
+        if (shares > maxShares) {
+            revert ERC4626ExceededMaxRedeem(owner, shares, _redactBalance(owner, maxShares));
+        }
+
+        uint256 assets = _convertToAssets(shares, Math.Rounding.Floor);
+        _withdraw(msg.sender, receiver, owner, assets, shares);
+
+        return assets;
+    }
+
+    /**
+     * @dev Only supply viewers can view the total supply of shares, see {UCEFConfidentialSupply}
+     */
+    function _authorizeSupply() internal view virtual override(UCEF, UCEFConfidentialSupply) returns (bool) {
+        return super._authorizeSupply();
+    }
+
+    /**
+     * @dev Returns the assets deposited in the vault and not yet withdrawn
+     */
+    function _totalAssets() internal view virtual override returns (uint256) {
+        return _managedAssets;
+    }
+
+    /**
+     * @dev Deposit/mint common workflow, see {ERC4626-_deposit}.
+     *
+     * Emits a Deposit private event
+     */
+    function _deposit(address caller, address receiver, uint256 assets, uint256 shares) internal virtual override {
+        // slither-disable-next-line reentrancy-no-eth
+        SafeERC20.safeTransferFrom(IUCEF(asset()), caller, address(this), assets);
+        _managedAssets += assets;
+        _mint(receiver, shares);
+
+        _emitDepositEvent(caller, receiver, assets, shares);
+    }
+
+    /**
+     * @dev Withdraw/redeem common workflow, see {ERC4626-_withdraw}.
+     *
+     * Emits a Withdraw private event
+     */
+    function _withdraw(
+        address caller,
+        address receiver,
+        address owner,
+        uint256 assets,
+        uint256 shares
+    ) internal virtual override {
+        if (caller != owner) {
+            _spendAllowance(owner, caller, shares);
+        }
+
+        _burn(owner, shares);
+        _managedAssets -= assets;
+        SafeERC20.safeTransfer(IUCEF(asset()), receiver, assets);
+
+        _emitWithdrawEvent(caller, receiver, owner, assets, shares);
+    }
+
+    /**
+     * @dev Internal function to emit Deposit events
+     * Can be overridden by derived contracts to implement custom emission logic
+     * @param caller The address depositing the assets
+     * @param receiver The address receiving the shares
+     * @param assets Amount of assets deposited
+     * @param shares Amount of shares minted
+     */
+    function _emitDepositEvent(address caller, address receiver, uint256 assets, uint256 shares) internal virtual {
+        address[] memory allowedViewers = _getDepositEventViewers(caller, receiver);
+        bytes memory payload = abi.encode(caller, receiver, assets, shares);
+
+        emit PrivateEvent(allowedViewers, EVENT_TYPE_DEPOSIT, payload);
+    }
+
+    /**
+     * @dev Internal function to determine who can view Deposit events
+     * Can be overridden by derived contracts to implement custom viewer logic
+     * Default implementation: only the depositor and the receiver of the shares can view
+     * @param caller The address depositing the assets
+     * @param receiver The address receiving the shares
+     * @return allowedViewers Array of addresses authorized to view this deposit
+     */
+    function _getDepositEventViewers(
+        address caller,
+        address receiver
+    ) internal view virtual returns (address[] memory allowedViewers) {
+        allowedViewers = new address[](2);
+        uint256 viewerCount = 0;
+        viewerCount = _addViewer(allowedViewers, viewerCount, caller);
+        viewerCount = _addViewer(allowedViewers, viewerCount, receiver);
+
+        assembly ("memory-safe") {
+            mstore(allowedViewers, viewerCount)
+        }
+    }
+
+    /**
+     * @dev Internal function to emit Withdraw events
+     * Can be overridden by derived contracts to implement custom emission logic
+     * @param caller The address withdrawing the assets
+     * @param receiver The address receiving the assets
+     * @param owner The address whose shares were burned
+     * @param assets Amount of assets withdrawn
+     * @param shares Amount of shares burned
+     */
+    function _emitWithdrawEvent(
+        address caller,
+        address receiver,
+        address owner,
+        uint256 assets,
+        uint256 shares
+    ) internal virtual {
+        address[] memory allowedViewers = _getWithdrawEventViewers(caller, receiver, owner);
+        bytes memory payload = abi.encode(caller, receiver, owner, assets, shares);
+
+        emit PrivateEvent(allowedViewers, EVENT_TYPE_WITHDRAW, payload);
+    }
+
+    /**
+     * @dev Internal function to determine who can view Withdraw events
+     * Can be overridden by derived contracts to implement custom viewer logic
+     * Default implementation: only the caller, the receiver of the assets and the owner of the shares can view
+     * @param caller The address withdrawing the assets
+     * @param receiver The address receiving the assets
+     * @param owner The address whose shares were burned
+     * @return allowedViewers Array of addresses authorized to view this withdrawal
+     */
+    function _getWithdrawEventViewers(
+        address caller,
+        address receiver,
+        address owner
+    ) internal view virtual returns (address[] memory allowedViewers) {
+        allowedViewers = new address[](3);
+        uint256 viewerCount = 0;
+        viewerCount = _addViewer(allowedViewers, viewerCount, caller);
+        viewerCount = _addViewer(allowedViewers, viewerCount, receiver);
+        viewerCount = _addViewer(allowedViewers, viewerCount, owner);
+
+        assembly ("memory-safe") {
+            mstore(allowedViewers, viewerCount)
+        }
+    }
+
+    /**
+     * @dev Reverts with {UCEFUnauthorizedSupplyAccess} unless the caller is a supply viewer
+     */
+    function _checkVaultAccess() private view {
+        if (!_authorizeSupply()) {
+            revert UCEFUnauthorizedSupplyAccess(msg.sender);
+        }
+    }
+}
@@ -0,0 +1,443 @@
+// SPDX-License-Identifier: MIT
+// OpenZeppelin Contracts (last updated v5.2.0) (governance/utils/Votes.sol)
+
+pragma solidity ^0.8.20;
+
+import {UCEF} from "../UCEF.sol";
+import {IERC5805} from "@openzeppelin/contracts/interfaces/IERC5805.sol";
+import {Nonces} from "@openzeppelin/contracts/utils/Nonces.sol";
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {Checkpoints} from "@openzeppelin/contracts/utils/structs/Checkpoints.sol";
+import {SafeCast} from "@openzeppelin/contracts/utils/math/SafeCast.sol";
+import {Time} from "@openzeppelin/contracts/utils/types/Time.sol";
+
+/**
+ * @dev Confidential variant of {UCEFVotes}, supporting Compound-like voting and delegation without revealing the
+ * voting power of each delegate.
+ *
+ * {UCEFVotes} inherits the public views and events of {Votes}, which expose the token balances behind each delegate.
+ * This extension forks {Votes} so that:
+ * - {getVotes}, {getPastVotes}, {delegates}, {numCheckpoints} and {checkpoints} are restricted by {_authorizeVotes},
+ *   which follows the balance visibility rules of the token by default
+ * - {getPastTotalSupply} is restricted to callers authorized to view the total supply
+ * - Delegation and voting power changes are emitted as PrivateEvents instead of the public
+ *   {IVotes-DelegateChanged} and {IVotes-DelegateVotesChanged} events
+ *
+ * Governance contracts such as {GovernorVotes} read voting power through {getPastVotes} and {getPastTotalSupply}, so
+ * they must be registered as vote talliers with {_setVoteTallier} to count votes. Note that a Governor exposes the
+ * voting power of any account through its own {Governor-getVotes} view and in its public {IGovernor-VoteCast} events.
+ *
+ * The {EIP712} domain is not initialized by this extension, contracts must call the {EIP712} constructor themselves.
+ */
+abstract contract UCEFConfidentialVotes is UCEF, EIP712, Nonces, IERC5805 {
+    using Checkpoints for Checkpoints.Trace208;
+
+    /**
+    * @notice DelegateChanged event parameter mapping:
+    *   - address param0: delegator    - The account changing its delegate
+    *   - address param1: fromDelegate - The previous delegate
+    *   - address param2: toDelegate   - The new delegate
+    * @custom:signature DelegateChanged(address delegator, address fromDelegate, address toDelegate)
+    */
+    bytes32 public constant EVENT_TYPE_DELEGATE_CHANGED = keccak256("DelegateChanged(address,address,address)");
+    /**
+    * @notice DelegateVotesChanged event parameter mapping:
+    *   - address param0: delegate      - The delegate whose voting power changed
+    *   - uint256 param1: previousVotes - The previous voting power of the delegate
+    *   - uint256 param2: newVotes      - The new voting power of the delegate
+    * @custom:signature DelegateVotesChanged(address delegate, uint256 previousVotes, uint256 newVotes)
+    */
+    bytes32 public constant EVENT_TYPE_DELEGATE_VOTES_CHANGED = keccak256("DelegateVotesChanged(address,uint256,uint256)");
+    /**
+    * @notice VoteTallierUpdated event parameter mapping:
+    *   - address param0: tallier - The address that was granted or revoked access to the voting power
+    *   - bool param1: allowed    - Whether the address can read the voting power of every account
+    * @custom:signature VoteTallierUpdated(address tallier, bool allowed)
+    */
+    bytes32 public constant EVENT_TYPE_VOTE_TALLIER_UPDATED = keccak256("VoteTallierUpdated(address,bool)");
+
+    bytes32 private constant DELEGATION_TYPEHASH =
+        keccak256("Delegation(address delegatee,uint256 nonce,uint256 expiry)");
+
+    mapping(address account => address) private _delegatee;
+
+    mapping(address delegatee => Checkpoints.Trace208) private _delegateCheckpoints;
+
+    Checkpoints.Trace208 private _totalCheckpoints;
+
+    mapping(address tallier => bool) private _voteTalliers;
+
+    /**
+     * @dev The clock was incorrectly modified.
+     */
+    error ERC6372InconsistentClock();
+
+    /**
+     * @dev Lookup to future votes is not available.
+     */
+    error ERC5805FutureLookup(uint256 timepoint, uint48 clock);
+
+    /**
+     * @dev Total supply cap has been exceeded, introducing a risk of votes overflowing.
+     */
+    error ERC20ExceededSafeSupply(uint256 increasedSupply, uint256 cap);
+
+    /**
+     * @dev The vote tallier is not a valid address.
+     */
+    error UCEFInvalidVoteTallier(address tallier);
+
+    /**
+     * @dev Clock used for flagging checkpoints. Can be overridden to implement timestamp based
+     * checkpoints (and voting), in which case {CLOCK_MODE} should be overridden as well to match.
+     */
+    function clock() public view virtual returns (uint48) {
+        return Time.blockNumber();
+    }
+
+    /**
+     * @dev Machine-readable description of the clock as specified in ERC-6372.
+     */
+    // solhint-disable-next-line func-name-mixedcase
+    function CLOCK_MODE() public view virtual returns (string memory) {
+        // Check that the clock was not modified
+        if (clock() != Time.blockNumber()) {
+            revert ERC6372InconsistentClock();
+        }
+        return "mode=blocknumber&from=default";
+    }
+
+    /**
+     * @dev Returns whether `tallier` can read the voting power of every account and the total supply of votes
+     * @param tallier The address to check
+     * @return bool True if `tallier` is a vote tallier
+     */
+    function isVoteTallier(address tallier) public view virtual returns (bool) {
+        return _voteTalliers[tallier];
+    }
+
+    /**
+     * @dev Returns the current amount of votes that `account` has, if the caller is authorized to view them
+     * @custom:error UCEFUnauthorizedBalanceAccess Thrown when an unauthorized address attempts to view the votes
+     */
+    function getVotes(address account) public view virtual returns (uint256) {
+        _checkVotesAccess(account);
+        return _delegateCheckpoints[account].latest();
+    }
+
+    /**
+     * @dev Returns the amount of votes that `account` had at a specific moment in the past, if the caller is
+     * authorized to view them. If the `clock()` is configured to use block numbers, this will return the value at the
+     * end of the corresponding block.
+     *
+     * Requirements:
+     *
+     * - `timepoint` must be in the past. If operating using block numbers, the block must be already mined.
+     *
+     * @custom:error UCEFUnauthorizedBalanceAccess Thrown when an unauthorized address attempts to view the votes
+     */
+    function getPastVotes(address account, uint256 timepoint) public view virtual returns (uint256) {
+        _checkVotesAccess(account);
+        return _delegateCheckpoints[account].upperLookupRecent(_validateTimepoint(timepoint));
+    }
+
+    /**
+     * @dev Returns the total supply of votes available at a specific moment in the past, if the caller is a vote
+     * tallier or is authorized to view the total supply. If the `clock()` is configured to use block numbers, this
+     * will return the value at the end of the corresponding block.
+     *
+     * Requirements:
+     *
+     * - `timepoint` must be in the past. If operating using block numbers, the block must be already mined.
+     *
+     * @custom:error UCEFUnauthorizedSupplyAccess Thrown when an unauthorized address attempts to view the supply
+     */
+    function getPastTotalSupply(uint256 timepoint) public view virtual returns (uint256) {
+        if (!_voteTalliers[msg.sender] && !_authorizeSupply()) {
+            revert UCEFUnauthorizedSupplyAccess(msg.sender);
+        }
+        return _totalCheckpoints.upperLookupRecent(_validateTimepoint(timepoint));
+    }
+
+    /**
+     * @dev Returns the delegate that `account` has chosen, if the caller is authorized to view its votes
+     * @custom:error UCEFUnauthorizedBalanceAccess Thrown when an unauthorized address attempts to view the delegate
+     */
+    function delegates(address account) public view virtual returns (address) {
+        _checkVotesAccess(account);
+        return _delegatee[account];
+    }
+
+    /**
+     * @dev Get number of checkpoints for `account`, if the caller is authorized to view its votes.
+     */
+    function numCheckpoints(address account) public view virtual returns (uint32) {
+        _checkVotesAccess(account);
+        return SafeCast.toUint32(_delegateCheckpoints[account].length());
+    }
+
+    /**
+     * @dev Get the `pos`-th checkpoint for `account`, if the caller is authorized to view its votes.
+     */
+    function checkpoints(address account, uint32 pos) public view virtual returns (Checkpoints.Checkpoint208 memory) {
+        _checkVotesAccess(account);
+        return _delegateCheckpoints[account].at(pos);
+    }
+
+    /**
+     * @dev Delegates votes from the sender to `delegatee`.
+     */
+    function delegate(address delegatee) public virtual {
+        _delegate(msg.sender, delegatee);
+    }
+
+    /**
+     * @dev Delegates votes from signer to `delegatee`.
+     */
+    function delegateBySig(
+        address delegatee,
+        uint256 nonce,
+        uint256 expiry,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) public virtual {
+        if (block.timestamp > expiry) {
+            revert VotesExpiredSignature(expiry);
+        }
+        address signer = ECDSA.recover(
+            _hashTypedDataV4(keccak256(abi.encode(DELEGATION_TYPEHASH, delegatee, nonce, expiry))),
+            v,
+            r,
+            s
+        );
+        _useCheckedNonce(signer, nonce);
+        _delegate(signer, delegatee);
+    }
+
+    /**
+     * @dev Internal function to determine if the caller is authorized to view the votes and delegate of an account
+     * Default implementation: vote talliers and callers authorized to view the balance of `account`
+     * @param account The address whose votes are being accessed
+     * @return bool True if authorized, false otherwise
+     */
+    function _authorizeVotes(address account) internal view virtual returns (bool) {
+        return _voteTalliers[msg.sender] || _authorizeBalance(account);
+    }
+
+    /**
+     * @dev Internal function to grant or revoke access to the voting power of every account, typically to a Governor
+     * @param tallier The address to update
+     * @param allowed Whether `tallier` can read the voting power of every account
+     *
+     * Emits a VoteTallierUpdated private event
+     */
+    function _setVoteTallier(address tallier, bool allowed) internal virtual {
+        if (tallier == address(0)) {
+            revert UCEFInvalidVoteTallier(address(0));
+        }
+        _voteTalliers[tallier] = allowed;
+
+        address[] memory allowedViewers = new address[](msg.sender == tallier ? 1 : 2);
+        allowedViewers[0] = tallier;
+        if (msg.sender != tallier) {
+            allowedViewers[1] = msg.sender;
+        }
+        emit PrivateEvent(allowedViewers, EVENT_TYPE_VOTE_TALLIER_UPDATED, abi.encode(tallier, allowed));
+    }
+
+    /**
+     * @dev Validate that a timepoint is in the past, and return it as a uint48.
+     */
+    function _validateTimepoint(uint256 timepoint) internal view returns (uint48) {
+        uint48 currentTimepoint = clock();
+        if (timepoint >= currentTimepoint) revert ERC5805FutureLookup(timepoint, currentTimepoint);
+        return SafeCast.toUint48(timepoint);
+    }
+
+    /**
+     * @dev Maximum token supply. Defaults to `type(uint208).max` (2^208^ - 1).
+     *
+     * This maximum is enforced in {_update}. It limits the total supply of the token so that checkpoints can be
+     * stored in the Trace208 structure. When resolving override conflicts on this function, the minimum should be
+     * returned.
+     */
+    function _maxSupply() internal view virtual returns (uint256) {
+        return type(uint208).max;
+    }
+
+    /**
+     * @dev Move voting power when tokens are transferred.
+     *
+     * Emits DelegateVotesChanged private events.
+     */
+    function _update(address from, address to, uint256 value) internal virtual override {
+        super._update(from, to, value);
+        if (from == address(0)) {
+            uint256 supply = _supply();
+            uint256 cap = _maxSupply();
+            if (supply > cap) {
+                revert ERC20ExceededSafeSupply(_redactSupply(supply), cap);
+            }
+        }
+        _transferVotingUnits(from, to, value);
+    }
+
+    /**
+     * @dev Delegate all of `account`'s voting units to `delegatee`.
+     *
+     * Emits DelegateChanged and DelegateVotesChanged private events.
+     */
+    function _delegate(address account, address delegatee) internal virtual {
+        address oldDelegate = _delegatee[account];
+        _delegatee[account] = delegatee;
+
+        _emitDelegateChangedEvent(account, oldDelegate, delegatee);
+        _moveDelegateVotes(oldDelegate, delegatee, _getVotingUnits(account));
+    }
+
+    /**
+     * @dev Transfers, mints, or burns voting units. To register a mint, `from` should be zero. To register a burn, `to`
+     * should be zero. Total supply of voting units will be adjusted with mints and burns.
+     */
+    function _transferVotingUnits(address from, address to, uint256 amount) internal virtual {
+        if (from == address(0)) {
+            _push(_totalCheckpoints, _add, SafeCast.toUint208(amount));
+        }
+        if (to == address(0)) {
+            _push(_totalCheckpoints, _subtract, SafeCast.toUint208(amount));
+        }
+        _moveDelegateVotes(_delegatee[from], _delegatee[to], amount);
+    }
+
+    /**
+     * @dev Moves delegated votes from one delegate to another.
+     */
+    function _moveDelegateVotes(address from, address to, uint256 amount) internal virtual {
+        if (from != to && amount > 0) {
+            if (from != address(0)) {
+                (uint256 oldValue, uint256 newValue) = _push(
+                    _delegateCheckpoints[from],
+                    _subtract,
+                    SafeCast.toUint208(amount)
+                );
+                _emitDelegateVotesChangedEvent(from, oldValue, newValue);
+            }
+            if (to != address(0)) {
+                (uint256 oldValue, uint256 newValue) = _push(
+                    _delegateCheckpoints[to],
+                    _add,
+                    SafeCast.toUint208(amount)
+                );
+                _emitDelegateVotesChangedEvent(to, oldValue, newValue);
+            }
+        }
+    }
+
+    /**
+     * @dev Returns the voting units of an `account`, regardless of who can view its balance.
+     */
+    function _getVotingUnits(address account) internal view virtual returns (uint256) {
+        return _balanceOf(account);
+    }
+
+    /**
+     * @dev Internal function to emit DelegateChanged events
+     * Can be overridden by derived contracts to implement custom emission logic
+     * @param delegator The account changing its delegate
+     * @param fromDelegate The previous delegate
+     * @param toDelegate The new delegate
+     */
+    function _emitDelegateChangedEvent(address delegator, address fromDelegate, address toDelegate) internal virtual {
+        address[] memory allowedViewers = _getDelegateChangedEventViewers(delegator, fromDelegate, toDelegate);
+        bytes memory payload = abi.encode(delegator, fromDelegate, toDelegate);
+
+        emit PrivateEvent(allowedViewers, EVENT_TYPE_DELEGATE_CHANGED, payload);
+    }
+
+    /**
+     * @dev Internal function to determine who can view DelegateChanged events
+     * Can be overridden by derived contracts to implement custom viewer logic
+     * Default implementation: the delegator and both delegates can view
+     * @param delegator The account changing its delegate
+     * @param fromDelegate The previous delegate
+     * @param toDelegate The new delegate
+     * @return allowedViewers Array of addresses authorized to view this delegation change
+     */
+    function _getDelegateChangedEventViewers(
+        address delegator,
+        address fromDelegate,
+        address toDelegate
+    ) internal view virtual returns (address[] memory allowedViewers) {
+        allowedViewers = new address[](3);
+        uint256 viewerCount = 0;
+        viewerCount = _addViewer(allowedViewers, viewerCount, delegator);
+        viewerCount = _addViewer(allowedViewers, viewerCount, fromDelegate);
+        viewerCount = _addViewer(allowedViewers, viewerCount, toDelegate);
+
+        assembly ("memory-safe") {
+            mstore(allowedViewers, viewerCount)
+        }
+    }
+
+    /**
+     * @dev Internal function to emit DelegateVotesChanged events
+     * Can be overridden by derived contracts to implement custom emission logic
+     * @param delegatee The delegate whose voting power changed
+     * @param previousVotes The previous voting power of the delegate
+     * @param newVotes The new voting power of the delegate
+     */
+    function _emitDelegateVotesChangedEvent(address delegatee, uint256 previousVotes, uint256 newVotes) internal virtual {
+        address[] memory allowedViewers = _getDelegateVotesChangedEventViewers(delegatee, previousVotes, newVotes);
+        bytes memory payload = abi.encode(delegatee, previousVotes, newVotes);
+
+        emit PrivateEvent(allowedViewers, EVENT_TYPE_DELEGATE_VOTES_CHANGED, payload);
+    }
+
+    /**
+     * @dev Internal function to determine who can view DelegateVotesChanged events
+     * Can be overridden by derived contracts to implement custom viewer logic
+     * Default implementation: only the delegate can view
+     * @param delegatee The delegate whose voting power changed
+     * @param previousVotes The previous voting power (available for derived contracts)
+     * @param newVotes The new voting power (available for derived contracts)
+     * @return allowedViewers Array of addresses authorized to view this voting power change
+     */
+    function _getDelegateVotesChangedEventViewers(
+        address delegatee,
+        uint256 previousVotes,
+        uint256 newVotes
+    ) internal view virtual returns (address[] memory allowedViewers) {
+        previousVotes; // Available for derived contracts
+        newVotes; // Available for derived contracts
+
+        allowedViewers = new address[](1);
+        allowedViewers[0] = delegatee;
+    }
+
+    /**
+     * @dev Reverts with {UCEFUnauthorizedBalanceAccess} unless the caller can view the votes of `account`
+     */
+    function _checkVotesAccess(address account) private view {
+        if (!_authorizeVotes(account)) {
+            revert UCEFUnauthorizedBalanceAccess(msg.sender, account);
+        }
+    }
+
+    function _push(
+        Checkpoints.Trace208 storage store,
+        function(uint208, uint208) view returns (uint208) op,
+        uint208 delta
+    ) private returns (uint208 oldValue, uint208 newValue) {
+        return store.push(clock(), op(store.latest(), delta));
+    }
+
+    function _add(uint208 a, uint208 b) private pure returns (uint208) {
+        return a + b;
+    }
+
+    function _subtract(uint208 a, uint208 b) private pure returns (uint208) {
+        return a - b;
+    }
+}
@@ -44,9 +44,25 @@ abstract contract UCEFFlashMint is UCEF, IERC3156FlashLender {
      * NOTE: This function does not consider any form of supply cap, so in case
      * it's used in a token with a cap like {ERC20Capped}, make sure to override this
      * function to integrate the cap instead of `type(uint256).max`.
+     *
+     * NOTE: The amount is derived from the total supply, so it is only available to
+     * callers authorized to view the total supply (see {UCEF-_authorizeSupply}).
      */
     function maxFlashLoan(address token) public view virtual returns (uint256) {
-        return token == address(this) ? type(uint256).max - totalSupply() : 0;
+        if (!_authorizeSupply()) {
+            revert UCEFUnauthorizedSupplyAccess(msg.sender);
+        }
+        return _maxFlashLoan(token);
+    }
+
+    /**
+     * @dev Internal function returning the maximum amount of tokens available for loan,
+     * regardless of who can view the total supply.
+     * @param token The address of the token that is requested.
+     * @return The amount of token that can be loaned.
+     */
+    function _maxFlashLoan(address token) internal view virtual returns (uint256) {
+        return token == address(this) ? type(uint256).max - _supply() : 0;
     }
 
     /**
@@ -112,9 +128,9 @@ abstract contract UCEFFlashMint is UCEF, IERC3156FlashLender {
         uint256 value,
         bytes calldata data
     ) public virtual returns (bool) {
-        uint256 maxLoan = maxFlashLoan(token);
+        uint256 maxLoan = _maxFlashLoan(token);
         if (value > maxLoan) {
-            revert ERC3156ExceededMaxLoan(maxLoan);
+            revert ERC3156ExceededMaxLoan(_redactSupply(maxLoan));
         }
         uint256 fee = flashFee(token, value);
         _mint(address(receiver), value);
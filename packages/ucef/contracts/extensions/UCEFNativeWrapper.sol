@@ -0,0 +1,139 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {UCEF} from "../UCEF.sol";
+import {Address} from "@openzeppelin/contracts/utils/Address.sol";
+
+/**
+ * @dev Extension of {UCEF} wrapping the native currency of the chain, like WETH.
+ *
+ * Users can deposit native currency with {deposit} or by sending it to the contract, and receive a matching number of
+ * confidential wrapped tokens. Wrapped tokens are burned by {withdraw} and {withdrawTo} to release the native
+ * currency. Deposits and withdrawals are emitted as PrivateEvents visible to the account.
+ *
+ * The wrapper keeps an exact reserve: its native balance always covers the wrapped supply, and equals it unless native
+ * currency was forced into the contract without a deposit. See {_recover} for minting that excess.
+ *
+ * NOTE: The native balance of the contract is public, so the total supply of the wrapper cannot be kept confidential.
+ */
+abstract contract UCEFNativeWrapper is UCEF {
+    /**
+    * @notice NativeDeposit event parameter mapping:
+    *   - address param0: account - The address receiving the wrapped tokens
+    *   - uint256 param1: value   - Amount of native currency wrapped
+    * @custom:signature NativeDeposit(address account, uint256 value)
+    */
+    bytes32 public constant EVENT_TYPE_NATIVE_DEPOSIT = keccak256("NativeDeposit(address,uint256)");
+    /**
+    * @notice Withdrawal event parameter mapping:
+    *   - address param0: account - The address whose wrapped tokens were burned
+    *   - uint256 param1: value   - Amount of native currency unwrapped
+    * @custom:signature Withdrawal(address account, uint256 value)
+    */
+    bytes32 public constant EVENT_TYPE_NATIVE_WITHDRAWAL = keccak256("Withdrawal(address,uint256)");
+
+    /**
+     * @dev The native balance of the wrapper doesn't cover the wrapped supply.
+     */
+    error UCEFNativeWrapperInsufficientReserve(uint256 reserve, uint256 supply);
+
+    /**
+     * @dev Wraps native currency sent to the contract for the sender.
+     */
+    receive() external payable virtual {
+        _depositFor(msg.sender, msg.value);
+    }
+
+    /**
+     * @dev Wraps the native currency sent with the call for the sender
+     *
+     * Emits a NativeDeposit private event
+     */
+    function deposit() public payable virtual {
+        _depositFor(msg.sender, msg.value);
+    }
+
+    /**
+     * @dev Burns `value` wrapped tokens of the sender and sends the matching native currency to the sender
+     * @param value The amount to unwrap
+     *
+     * Emits a Withdrawal private event
+     */
+    function withdraw(uint256 value) public virtual {
+        _withdrawTo(msg.sender, payable(msg.sender), value);
+    }
+
+    /**
+     * @dev Burns `value` wrapped tokens of the sender and sends the matching native currency to `account`
+     * @param account The address receiving the native currency
+     * @param value The amount to unwrap
+     *
+     * Emits a Withdrawal private event
+     */
+    function withdrawTo(address payable account, uint256 value) public virtual {
+        if (account == address(this)) {
+            revert ERC20InvalidReceiver(account);
+        }
+        _withdrawTo(msg.sender, account, value);
+    }
+
+    /**
+     * @dev Internal function minting wrapped tokens for native currency received by the contract
+     * @param account The address receiving the wrapped tokens
+     * @param value The amount of native currency received
+     */
+    function _depositFor(address account, uint256 value) internal virtual {
+        _mint(account, value);
+        _checkReserve();
+
+        _emitNativeWrapperEvent(EVENT_TYPE_NATIVE_DEPOSIT, account, value);
+    }
+
+    /**
+     * @dev Internal function burning wrapped tokens of `owner` and sending the native currency to `account`
+     * @param owner The address whose wrapped tokens are burned
+     * @param account The address receiving the native currency
+     * @param value The amount to unwrap
+     */
+    function _withdrawTo(address owner, address payable account, uint256 value) internal virtual {
+        _burn(owner, value);
+        Address.sendValue(account, value);
+        _checkReserve();
+
+        _emitNativeWrapperEvent(EVENT_TYPE_NATIVE_WITHDRAWAL, owner, value);
+    }
+
+    /**
+     * @dev Mint wrapped tokens to cover any native currency forced into the contract without a deposit, restoring an
+     * exact reserve. Internal function that can be exposed with access control if desired.
+     */
+    function _recover(address account) internal virtual returns (uint256) {
+        uint256 value = address(this).balance - _supply();
+        _mint(account, value);
+        return value;
+    }
+
+    /**
+     * @dev Internal function to emit NativeDeposit and Withdrawal events
+     * Can be overridden by derived contracts to implement custom emission logic
+     * Default implementation: only the account can view
+     * @param eventType EVENT_TYPE_NATIVE_DEPOSIT or EVENT_TYPE_NATIVE_WITHDRAWAL
+     * @param account The address whose wrapped tokens were minted or burned
+     * @param value The amount of native currency wrapped or unwrapped
+     */
+    function _emitNativeWrapperEvent(bytes32 eventType, address account, uint256 value) internal virtual {
+        address[] memory allowedViewers = new address[](1);
+        allowedViewers[0] = account;
+
+        emit PrivateEvent(allowedViewers, eventType, abi.encode(account, value));
+    }
+
+    /**
+     * @dev Reverts with {UCEFNativeWrapperInsufficientReserve} if the native balance doesn't cover the wrapped supply
+     */
+    function _checkReserve() private view {
+        if (address(this).balance < _supply()) {
+            revert UCEFNativeWrapperInsufficientReserve(address(this).balance, _supply());
+        }
+    }
+}
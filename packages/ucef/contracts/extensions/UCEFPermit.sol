@@ -63,6 +63,7 @@ abstract contract UCEFPermit is UCEF, IERC20Permit, EIP712, Nonces {
             revert ERC2612InvalidSigner(signer, owner);
         }
 
+        _setAllowanceExpiry(owner, spender, 0);
         _approve(owner, spender, value);
     }
 
@@ -0,0 +1,318 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {UCEFWrapper} from "./UCEFWrapper.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+/**
+ * @dev Extension of {UCEFWrapper} settling withdrawals through a queue instead of immediately.
+ *
+ * A withdrawal burns the wrapped tokens of the requester straight away and records a request, which becomes ready
+ * after {withdrawalDelay} and is rounded up to the next multiple of {withdrawalBatchInterval}, so that every request
+ * made during the same window settles at the same time. Anyone can settle ready requests with {settleWithdrawals},
+ * which processes the queue in order. This breaks the timing link between the private burn and the transfer of the
+ * underlying tokens. A request whose transfer fails, for example because the underlying token rejects its receiver,
+ * is marked as failed instead of holding up the queue, and its requester can send it to another receiver with
+ * {retryWithdrawal}.
+ *
+ * Requests and their events are visible to the requester only by default. Derived contracts can open them to a
+ * regulator by overriding {_authorizeWithdrawalRequest} and {_getWithdrawalEventViewers}.
+ *
+ * NOTE: Requests settle in the order they were made, so lowering the delay or the batch interval doesn't speed up
+ * requests queued behind older ones.
+ */
+abstract contract UCEFQueuedWrapper is UCEFWrapper {
+    /**
+    * @notice WithdrawalRequested event parameter mapping:
+    *   - uint256 param0: requestId - Identifier of the withdrawal request
+    *   - address param1: owner     - The address whose wrapped tokens were burned
+    *   - address param2: receiver  - The address receiving the underlying tokens
+    *   - uint256 param3: value     - Amount of underlying tokens to withdraw
+    *   - uint48 param4: readyAt    - Timestamp from which the request can be settled
+    * @custom:signature WithdrawalRequested(uint256 requestId, address owner, address receiver, uint256 value, uint48 readyAt)
+    */
+    bytes32 public constant EVENT_TYPE_WITHDRAWAL_REQUESTED =
+        keccak256("WithdrawalRequested(uint256,address,address,uint256,uint48)");
+    /**
+    * @notice WithdrawalSettled event parameter mapping:
+    *   - uint256 param0: requestId - Identifier of the withdrawal request
+    *   - address param1: owner     - The address whose wrapped tokens were burned
+    *   - address param2: receiver  - The address that received the underlying tokens
+    *   - uint256 param3: value     - Amount of underlying tokens withdrawn
+    * @custom:signature WithdrawalSettled(uint256 requestId, address owner, address receiver, uint256 value)
+    */
+    bytes32 public constant EVENT_TYPE_WITHDRAWAL_SETTLED =
+        keccak256("WithdrawalSettled(uint256,address,address,uint256)");
+    /**
+    * @notice WithdrawalFailed event parameter mapping:
+    *   - uint256 param0: requestId - Identifier of the withdrawal request
+    *   - address param1: owner     - The address whose wrapped tokens were burned
+    *   - address param2: receiver  - The address the underlying tokens could not be sent to
+    *   - uint256 param3: value     - Amount of underlying tokens kept in the queue
+    * @custom:signature WithdrawalFailed(uint256 requestId, address owner, address receiver, uint256 value)
+    */
+    bytes32 public constant EVENT_TYPE_WITHDRAWAL_FAILED =
+        keccak256("WithdrawalFailed(uint256,address,address,uint256)");
+
+    struct WithdrawalRequest {
+        address owner;
+        address receiver;
+        uint256 value;
+        uint48 readyAt;
+        bool settled;
+        bool failed;
+    }
+
+    mapping(uint256 requestId => WithdrawalRequest) private _requests;
+    uint256 private _nextRequestId;
+    uint256 private _nextSettlementId;
+    uint256 private _queuedAssets;
+
+    uint48 private _withdrawalDelay;
+    uint48 private _withdrawalBatchInterval;
+
+    /**
+     * @dev The sender is not allowed to view the withdrawal request.
+     */
+    error UCEFUnauthorizedWithdrawalRequestAccess(address sender, uint256 requestId);
+
+    /**
+     * @dev The withdrawal request doesn't exist.
+     */
+    error UCEFNonexistentWithdrawalRequest(uint256 requestId);
+
+    /**
+     * @dev The withdrawal request is not waiting for a retry after a failed transfer.
+     */
+    error UCEFWithdrawalRequestNotFailed(uint256 requestId);
+
+    /**
+     * @dev Returns the minimum time between a withdrawal request and its settlement
+     */
+    function withdrawalDelay() public view virtual returns (uint48) {
+        return _withdrawalDelay;
+    }
+
+    /**
+     * @dev Returns the length of the settlement windows, 0 if requests are not batched
+     */
+    function withdrawalBatchInterval() public view virtual returns (uint48) {
+        return _withdrawalBatchInterval;
+    }
+
+    /**
+     * @dev Returns the total amount of underlying tokens waiting in the queue
+     *
+     * Requirements:
+     * - The caller must be authorized to view the total supply
+     */
+    function queuedAssets() public view virtual returns (uint256) {
+        if (!_authorizeSupply()) {
+            revert UCEFUnauthorizedSupplyAccess(msg.sender);
+        }
+        return _queuedAssets;
+    }
+
+    /**
+     * @dev Returns a withdrawal request
+     * @param requestId The identifier of the request
+     *
+     * Requirements:
+     * - The request must exist
+     * - The caller must be authorized by {_authorizeWithdrawalRequest}
+     */
+    function withdrawalRequest(uint256 requestId) public view virtual returns (WithdrawalRequest memory) {
+        WithdrawalRequest memory request = _requests[requestId];
+        if (request.owner == address(0)) {
+            revert UCEFNonexistentWithdrawalRequest(requestId);
+        }
+        if (!_authorizeWithdrawalRequest(request.owner)) {
+            revert UCEFUnauthorizedWithdrawalRequestAccess(msg.sender, requestId);
+        }
+        return request;
+    }
+
+    /**
+     * @dev Queues the withdrawal of `value` underlying tokens to `account` instead of sending them immediately
+     * See {requestWithdrawal}
+     */
+    function withdrawTo(address account, uint256 value) public virtual override returns (bool) {
+        requestWithdrawal(account, value);
+        return true;
+    }
+
+    /**
+     * @dev Burns `value` wrapped tokens of the sender and queues the withdrawal of the underlying tokens to `account`
+     * @param account The address receiving the underlying tokens on settlement
+     * @param value The amount to withdraw
+     * @return requestId The identifier of the request
+     *
+     * Emits a WithdrawalRequested private event
+     */
+    function requestWithdrawal(address account, uint256 value) public virtual returns (uint256 requestId) {
+        if (account == address(this) || account == address(0)) {
+            revert ERC20InvalidReceiver(account);
+        }
+        address owner = _msgSender();
+        _burn(owner, value);
+
+        requestId = _nextRequestId++;
+        uint48 readyAt = _withdrawalReadyAt();
+        _requests[requestId] = WithdrawalRequest(owner, account, value, readyAt, false, false);
+        _queuedAssets += value;
+
+        _emitWithdrawalEvent(
+            EVENT_TYPE_WITHDRAWAL_REQUESTED,
+            owner,
+            abi.encode(requestId, owner, account, value, readyAt)
+        );
+    }
+
+    /**
+     * @dev Processes up to `maxRequests` ready requests, in the order they were made
+     * @param maxRequests The maximum number of requests to process
+     * @return settled The number of requests settled, excluding the requests whose transfer failed
+     *
+     * Emits a WithdrawalSettled private event for each settled request and a WithdrawalFailed private event for each
+     * request whose transfer failed
+     */
+    function settleWithdrawals(uint256 maxRequests) public virtual returns (uint256 settled) {
+        uint256 requestId = _nextSettlementId;
+        uint256 processed;
+        while (processed < maxRequests && requestId < _nextRequestId) {
+            WithdrawalRequest storage request = _requests[requestId];
+            if (request.readyAt > block.timestamp) {
+                break;
+            }
+            if (SafeERC20.trySafeTransfer(underlying(), request.receiver, request.value)) {
+                request.settled = true;
+                _queuedAssets -= request.value;
+                ++settled;
+
+                _emitWithdrawalEvent(
+                    EVENT_TYPE_WITHDRAWAL_SETTLED,
+                    request.owner,
+                    abi.encode(requestId, request.owner, request.receiver, request.value)
+                );
+            } else {
+                request.failed = true;
+
+                _emitWithdrawalEvent(
+                    EVENT_TYPE_WITHDRAWAL_FAILED,
+                    request.owner,
+                    abi.encode(requestId, request.owner, request.receiver, request.value)
+                );
+            }
+            ++requestId;
+            ++processed;
+        }
+        _nextSettlementId = requestId;
+    }
+
+    /**
+     * @dev Sends the underlying tokens of a failed request of the sender to `account`
+     * @param requestId The identifier of the failed request
+     * @param account The address receiving the underlying tokens
+     *
+     * Requirements:
+     * - The request must exist and have been made by the sender
+     * - The transfer of the request must have failed during {settleWithdrawals}
+     *
+     * Emits a WithdrawalSettled private event
+     */
+    function retryWithdrawal(uint256 requestId, address account) public virtual {
+        WithdrawalRequest storage request = _requests[requestId];
+        if (request.owner == address(0)) {
+            revert UCEFNonexistentWithdrawalRequest(requestId);
+        }
+        if (request.owner != _msgSender()) {
+            revert UCEFUnauthorizedWithdrawalRequestAccess(_msgSender(), requestId);
+        }
+        if (!request.failed || request.settled) {
+            revert UCEFWithdrawalRequestNotFailed(requestId);
+        }
+        if (account == address(this) || account == address(0)) {
+            revert ERC20InvalidReceiver(account);
+        }
+        request.receiver = account;
+        request.settled = true;
+        _queuedAssets -= request.value;
+        SafeERC20.safeTransfer(underlying(), account, request.value);
+
+        _emitWithdrawalEvent(
+            EVENT_TYPE_WITHDRAWAL_SETTLED,
+            request.owner,
+            abi.encode(requestId, request.owner, account, request.value)
+        );
+    }
+
+    /**
+     * @dev Internal function to set the minimum time between a withdrawal request and its settlement
+     * Only applies to requests made afterwards
+     */
+    function _setWithdrawalDelay(uint48 delay) internal virtual {
+        _withdrawalDelay = delay;
+    }
+
+    /**
+     * @dev Internal function to set the length of the settlement windows, 0 to disable batching
+     * Only applies to requests made afterwards
+     */
+    function _setWithdrawalBatchInterval(uint48 interval) internal virtual {
+        _withdrawalBatchInterval = interval;
+    }
+
+    /**
+     * @dev Returns the settlement time of a request made now: after the delay, rounded up to the next batch boundary
+     */
+    function _withdrawalReadyAt() internal view virtual returns (uint48) {
+        uint256 readyAt = block.timestamp + _withdrawalDelay;
+        if (_withdrawalBatchInterval != 0) {
+            uint256 remainder = readyAt % _withdrawalBatchInterval;
+            if (remainder != 0) {
+                readyAt += _withdrawalBatchInterval - remainder;
+            }
+        }
+        return uint48(readyAt);
+    }
+
+    /**
+     * @dev Mint wrapped token to cover any underlying tokens held beyond the wrapped supply and the queued withdrawals
+     */
+    function _recover(address account) internal virtual override returns (uint256) {
+        uint256 value = underlying().balanceOf(address(this)) - _supply() - _queuedAssets;
+        _mint(account, value);
+        return value;
+    }
+
+    /**
+     * @dev Internal function to check if the caller can view the withdrawal requests of `owner`
+     * Default implementation: only the requester
+     * @param owner The address that made the request
+     * @return bool True if authorized
+     */
+    function _authorizeWithdrawalRequest(address owner) internal view virtual returns (bool) {
+        return msg.sender == owner;
+    }
+
+    /**
+     * @dev Internal function to emit WithdrawalRequested, WithdrawalSettled and WithdrawalFailed events
+     * @param eventType EVENT_TYPE_WITHDRAWAL_REQUESTED, EVENT_TYPE_WITHDRAWAL_SETTLED or EVENT_TYPE_WITHDRAWAL_FAILED
+     * @param owner The address that made the request
+     * @param payload The encoded event parameters
+     */
+    function _emitWithdrawalEvent(bytes32 eventType, address owner, bytes memory payload) internal virtual {
+        emit PrivateEvent(_getWithdrawalEventViewers(owner), eventType, payload);
+    }
+
+    /**
+     * @dev Internal function to determine who can view withdrawal queue events
+     * Default implementation: only the requester
+     * @param owner The address that made the request
+     * @return allowedViewers Array containing the requester
+     */
+    function _getWithdrawalEventViewers(address owner) internal view virtual returns (address[] memory allowedViewers) {
+        allowedViewers = new address[](1);
+        allowedViewers[0] = owner;
+    }
+}
@@ -0,0 +1,112 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {UCEFSharable} from "../UCEFSharable.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import {Nonces} from "@openzeppelin/contracts/utils/Nonces.sol";
+
+/**
+ * @dev Extension of {UCEFSharable} allowing viewer grants to be made via EIP-712 signatures.
+ *
+ * Adds the {grantViewerBySig} and {revokeViewerBySig} methods, which can be used to manage the viewers of an account
+ * by presenting a message signed by the account. The account holder doesn't need to send a transaction, so a relayer
+ * can submit the signature on its behalf.
+ *
+ * The {EIP712} domain is not initialized by this extension so it can be combined with {UCEFPermit}, which shares the
+ * same domain and nonces. Contracts not inheriting {UCEFPermit} must call the {EIP712} constructor themselves.
+ */
+abstract contract UCEFSharableBySig is UCEFSharable, EIP712, Nonces {
+    bytes32 private constant GRANT_VIEWER_TYPEHASH =
+        keccak256("GrantViewer(address account,address viewer,uint64 expiry,uint8 scope,uint256 nonce,uint256 deadline)");
+
+    bytes32 private constant REVOKE_VIEWER_TYPEHASH =
+        keccak256("RevokeViewer(address account,address viewer,uint256 nonce,uint256 deadline)");
+
+    /**
+     * @dev Signature deadline has expired.
+     */
+    error UCEFSharableExpiredSignature(uint256 deadline);
+
+    /**
+     * @dev Mismatched signature.
+     */
+    error UCEFSharableInvalidSigner(address signer, address account);
+
+    /**
+     * @dev Grants viewing permission on behalf of `account` until a given time, replacing any existing grant
+     * @param account The account granting the permission, which must have signed the grant
+     * @param viewer The address to grant viewing permission to
+     * @param expiry Timestamp at which the grant expires
+     * @param scope Combination of the SCOPE_BALANCE, SCOPE_TRANSFER_EVENTS and SCOPE_ALLOWANCES flags
+     * @param deadline Timestamp after which the signature is no longer valid
+     *
+     * Requirements:
+     * - `deadline` must not be in the past
+     * - The signature must be a valid EIP-712 GrantViewer signature of `account` over its current nonce
+     * - The grant must be valid, see {grantViewerUntil}
+     *
+     * Emits ViewerPermissionUpdated and ViewerGrantUpdated events
+     */
+    function grantViewerBySig(
+        address account,
+        address viewer,
+        uint64 expiry,
+        uint8 scope,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) public virtual {
+        if (block.timestamp > deadline) {
+            revert UCEFSharableExpiredSignature(deadline);
+        }
+
+        bytes32 structHash = keccak256(
+            abi.encode(GRANT_VIEWER_TYPEHASH, account, viewer, expiry, scope, _useNonce(account), deadline)
+        );
+        _checkSigner(structHash, account, v, r, s);
+
+        _grantViewerUntil(account, viewer, expiry, scope);
+    }
+
+    /**
+     * @dev Revokes viewing permission on behalf of `account`
+     * @param account The account revoking the permission, which must have signed the revocation
+     * @param viewer The address to revoke viewing permission from
+     * @param deadline Timestamp after which the signature is no longer valid
+     *
+     * Requirements:
+     * - `deadline` must not be in the past
+     * - The signature must be a valid EIP-712 RevokeViewer signature of `account` over its current nonce
+     *
+     * Emits a ViewerPermissionUpdated event
+     */
+    function revokeViewerBySig(
+        address account,
+        address viewer,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) public virtual {
+        if (block.timestamp > deadline) {
+            revert UCEFSharableExpiredSignature(deadline);
+        }
+
+        bytes32 structHash = keccak256(abi.encode(REVOKE_VIEWER_TYPEHASH, account, viewer, _useNonce(account), deadline));
+        _checkSigner(structHash, account, v, r, s);
+
+        _updateViewerPermission(account, viewer, 0, 0);
+    }
+
+    /**
+     * @dev Reverts with {UCEFSharableInvalidSigner} unless `account` signed the typed data of `structHash`
+     */
+    function _checkSigner(bytes32 structHash, address account, uint8 v, bytes32 r, bytes32 s) private view {
+        address signer = ECDSA.recover(_hashTypedDataV4(structHash), v, r, s);
+        if (signer != account) {
+            revert UCEFSharableInvalidSigner(signer, account);
+        }
+    }
+}
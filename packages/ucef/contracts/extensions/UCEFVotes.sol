@@ -48,10 +48,10 @@ abstract contract UCEFVotes is UCEF, Votes {
     function _update(address from, address to, uint256 value) internal virtual override {
         super._update(from, to, value);
         if (from == address(0)) {
-            uint256 supply = totalSupply();
+            uint256 supply = _supply();
             uint256 cap = _maxSupply();
             if (supply > cap) {
-                revert ERC20ExceededSafeSupply(supply, cap);
+                revert ERC20ExceededSafeSupply(_redactSupply(supply), cap);
             }
         }
         _transferVotingUnits(from, to, value);
@@ -67,6 +67,17 @@ abstract contract UCEFVotes is UCEF, Votes {
         return balanceOf(account);
     }
 
+    /**
+     * @dev Returns the total supply of votes available at a specific moment in the past, if the caller is authorized
+     * to view the total supply (see {UCEF-_authorizeSupply}).
+     */
+    function getPastTotalSupply(uint256 timepoint) public view virtual override returns (uint256) {
+        if (!_authorizeSupply()) {
+            revert UCEFUnauthorizedSupplyAccess(msg.sender);
+        }
+        return super.getPastTotalSupply(timepoint);
+    }
+
     /**
      * @dev Get number of checkpoints for `account`.
      */
@@ -87,7 +87,7 @@ abstract contract UCEFWrapper is UCEF {
      * rebasing mechanisms. Internal function that can be exposed with access control if desired.
      */
     function _recover(address account) internal virtual returns (uint256) {
-        uint256 value = _underlying.balanceOf(address(this)) - totalSupply();
+        uint256 value = _underlying.balanceOf(address(this)) - _supply();
         _mint(account, value);
         return value;
     }
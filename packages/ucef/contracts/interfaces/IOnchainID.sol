@@ -0,0 +1,68 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @dev Subset of the ONCHAINID identity (ERC-734/735) used to read claims.
+ * Mirrors `IIdentity` of the ONCHAINID contracts, which are pinned to a compiler version older than UCEF's.
+ */
+interface IOnchainIDIdentity {
+    /**
+     * @dev Returns the claim with the given id, `keccak256(abi.encode(issuer, topic))`
+     */
+    function getClaim(
+        bytes32 claimId
+    )
+        external
+        view
+        returns (
+            uint256 topic,
+            uint256 scheme,
+            address issuer,
+            bytes memory signature,
+            bytes memory data,
+            string memory uri
+        );
+}
+
+/**
+ * @dev Subset of the ONCHAINID claim issuer used to check that a claim is still valid.
+ * Mirrors `IClaimIssuer` of the ONCHAINID contracts.
+ */
+interface IOnchainIDClaimIssuer {
+    /**
+     * @dev Returns whether the claim was signed by the issuer and has not been revoked
+     */
+    function isClaimValid(
+        IOnchainIDIdentity identity,
+        uint256 claimTopic,
+        bytes calldata sig,
+        bytes calldata data
+    ) external view returns (bool);
+}
+
+/**
+ * @dev Subset of the ERC-3643 trusted issuers registry.
+ * Mirrors `ITrustedIssuersRegistry` of T-REX.
+ */
+interface IOnchainIDTrustedIssuersRegistry {
+    /**
+     * @dev Returns the issuers trusted to emit claims of `claimTopic`
+     */
+    function getTrustedIssuersForClaimTopic(uint256 claimTopic) external view returns (IOnchainIDClaimIssuer[] memory);
+}
+
+/**
+ * @dev Subset of the ERC-3643 identity registry.
+ * Mirrors `IIdentityRegistry` of T-REX.
+ */
+interface IOnchainIDIdentityRegistry {
+    /**
+     * @dev Returns the ONCHAINID registered for `userAddress`, address(0) if none
+     */
+    function identity(address userAddress) external view returns (IOnchainIDIdentity);
+
+    /**
+     * @dev Returns the trusted issuers registry linked to the identity registry
+     */
+    function issuersRegistry() external view returns (IOnchainIDTrustedIssuersRegistry);
+}
@@ -52,8 +52,94 @@ interface IUCEF is IERC20 {
      */
     function allowance(address owner, address spender) external view returns (uint256);
 
+    /**
+     * @dev Returns the timestamp at which the allowance of `spender` over `owner`'s tokens expires,
+     * 0 if it does not expire. Only the token owner or the approved spender can view it.
+     */
+    function allowanceExpiry(address owner, address spender) external view returns (uint64);
+
+    /**
+     * @dev Returns the spenders holding an unexpired allowance from `owner`.
+     * Only the token owner can list its spenders.
+     */
+    function spendersOf(address owner) external view returns (address[] memory);
+
+    /**
+     * @dev Sets `value` as the allowance of `spender` over the caller's tokens until `expiry`.
+     */
+    function approveUntil(address spender, uint256 value, uint64 expiry) external returns (bool);
+
+    /**
+     * @dev Atomically increases the allowance of `spender` over the caller's tokens, keeping its expiry unless expired.
+     */
+    function increaseAllowance(address spender, uint256 addedValue) external returns (bool);
+
+    /**
+     * @dev Atomically decreases the allowance of `spender` over the caller's tokens, keeping its expiry.
+     */
+    function decreaseAllowance(address spender, uint256 requestedDecrease) external returns (bool);
+
+    /**
+     * @dev Revokes the allowances of every spender of the caller.
+     */
+    function revokeAllApprovals() external;
+
+    /**
+     * @dev Moves `values[i]` tokens from the caller to `to[i]` for each recipient, checking the balance once.
+     */
+    function batchTransfer(address[] calldata to, uint256[] calldata values) external returns (bool);
+
+    /**
+     * @dev Moves `values[i]` tokens from `from` to `to[i]` for each recipient using the allowance of the caller,
+     * spending the allowance and checking the balance once.
+     */
+    function batchTransferFrom(address from, address[] calldata to, uint256[] calldata values) external returns (bool);
+
+    /**
+     * @dev Moves `value` tokens from the caller to `to`, emitting `ref` and `memo` in a TransferReference
+     * private event.
+     */
+    function transferWithReference(address to, uint256 value, bytes32 ref, bytes calldata memo) external returns (bool);
+
+    /**
+     * @dev Moves `value` tokens from `from` to `to` using the allowance of the caller, emitting `ref` and `memo`
+     * in a TransferReference private event.
+     */
+    function transferFromWithReference(
+        address from,
+        address to,
+        uint256 value,
+        bytes32 ref,
+        bytes calldata memo
+    ) external returns (bool);
+
     /**
      * @dev Emitted when an unauthorized balance access is attempted
      */
     error UCEFUnauthorizedBalanceAccess(address sender, address account);
+
+    /**
+     * @dev Emitted when an unauthorized total supply access is attempted
+     */
+    error UCEFUnauthorizedSupplyAccess(address sender);
+
+    /**
+     * @dev Emitted when an allowance expiry is not in the future
+     */
+    error UCEFInvalidAllowanceExpiry(uint64 expiry);
+
+    /**
+     * @dev Emitted when spending an allowance that has expired
+     */
+    error UCEFExpiredAllowance(address spender, uint64 expiry);
+
+    /**
+     * @dev Emitted when decreasing an allowance below zero
+     */
+    error UCEFFailedDecreaseAllowance(address spender, uint256 currentAllowance, uint256 requestedDecrease);
+
+    /**
+     * @dev Emitted when the recipients and values of a batch transfer don't match
+     */
+    error UCEFInvalidBatchLength(uint256 recipients, uint256 values);
 } 
\ No newline at end of file
@@ -0,0 +1,38 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {IAccessControl} from "@openzeppelin/contracts/access/IAccessControl.sol";
+import {IUCEF} from "../interfaces/IUCEF.sol";
+
+/**
+ * @title IUCEFAccessControlled
+ * @dev Interface for the UCEFAccessControlled contract, defining the role-based authorization model
+ * for UCEF token balance and event viewing.
+ */
+interface IUCEFAccessControlled is IUCEF, IAccessControl {
+    /**
+     * @dev Error thrown when attempting to set an invalid initial admin address
+     * @param admin The invalid address that was provided
+     */
+    error UCEFAccessControlledInvalidAdmin(address admin);
+
+    /**
+     * @dev Returns the role allowed to view the balance of every account
+     */
+    function BALANCE_VIEWER_ROLE() external view returns (bytes32);
+
+    /**
+     * @dev Returns the role included in the viewers of every Transfer and Approval event
+     */
+    function EVENT_VIEWER_ROLE() external view returns (bytes32);
+
+    /**
+     * @dev Returns all the accounts that have been granted `role`
+     * @param role The role to enumerate
+     * @return The members of the role
+     *
+     * Requirements:
+     * - The caller must have the admin role of `role`
+     */
+    function getRoleMembers(bytes32 role) external view returns (address[] memory);
+}
@@ -0,0 +1,38 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {IUCEF} from "../interfaces/IUCEF.sol";
+
+/**
+ * @title IUCEFBalanceBySig
+ * @dev Interface of the UCEFBalanceBySig extension allowing balances to be read with an EIP-712 signature of the
+ * viewer, for chains where `msg.sender` is not authenticated on reads.
+ *
+ * Signed messages use the following type:
+ * - BalanceQuery(address account,address viewer,uint256 deadline)
+ */
+interface IUCEFBalanceBySig is IUCEF {
+    /**
+     * @dev Signature deadline has expired.
+     */
+    error UCEFBalanceQueryExpiredSignature(uint256 deadline);
+
+    /**
+     * @dev Mismatched signature.
+     */
+    error UCEFBalanceQueryInvalidSigner(address signer, address viewer);
+
+    /**
+     * @dev Returns the balance of `account` to `viewer`, authenticated by a signature of `viewer`
+     * @param account The address to query the balance of
+     * @param viewer The address viewing the balance, which must have signed the query
+     * @param deadline Timestamp after which the signature is no longer valid
+     * @param signature EIP-712 BalanceQuery signature of `viewer`
+     */
+    function balanceOfWithSignature(
+        address account,
+        address viewer,
+        uint256 deadline,
+        bytes calldata signature
+    ) external view returns (uint256);
+}
@@ -0,0 +1,59 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {IUCEF} from "../interfaces/IUCEF.sol";
+import {IOnchainIDIdentityRegistry} from "../interfaces/IOnchainID.sol";
+
+/**
+ * @title IUCEFClaimViewers
+ * @dev Interface of the UCEFClaimViewers extension granting visibility to the holders of ONCHAINID claims
+ * for the viewer claim topics, issued by trusted issuers.
+ */
+interface IUCEFClaimViewers is IUCEF {
+    /**
+     * @dev The identity registry is not a valid address.
+     */
+    error UCEFInvalidIdentityRegistry(address identityRegistry);
+
+    /**
+     * @dev The viewer can't be registered without a viewer claim, or removed while it holds one.
+     */
+    error UCEFInvalidClaimViewer(address viewer);
+
+    /**
+     * @dev Emitted when the viewer claim topics are updated
+     */
+    event ViewerClaimTopicsUpdated(uint256[] claimTopics);
+
+    /**
+     * @dev Returns the identity registry used to find the identity of the callers
+     */
+    function identityRegistry() external view returns (IOnchainIDIdentityRegistry);
+
+    /**
+     * @dev Returns the claim topics granting visibility
+     */
+    function viewerClaimTopics() external view returns (uint256[] memory);
+
+    /**
+     * @dev Returns whether the identity of `account` carries a valid claim for one of the viewer claim topics
+     * from a trusted issuer
+     */
+    function hasViewerClaim(address account) external view returns (bool);
+
+    /**
+     * @dev Returns whether `viewer` is registered to be included in Transfer and Approval events
+     */
+    function isClaimViewer(address viewer) external view returns (bool);
+
+    /**
+     * @dev Registers `viewer`, which must hold a viewer claim, to be included in Transfer and Approval events
+     */
+    function addClaimViewer(address viewer) external;
+
+    /**
+     * @dev Stops including `viewer` in Transfer and Approval events, if called by `viewer` or once it no longer
+     * holds a viewer claim
+     */
+    function removeClaimViewer(address viewer) external;
+}
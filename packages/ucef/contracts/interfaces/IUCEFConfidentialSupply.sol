@@ -0,0 +1,21 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {IUCEF} from "../interfaces/IUCEF.sol";
+
+/**
+ * @title IUCEFConfidentialSupply
+ * @dev Interface of the UCEFConfidentialSupply extension restricting the total supply to a set of supply viewers.
+ * {totalSupply} reverts with UCEFUnauthorizedSupplyAccess for any other caller.
+ */
+interface IUCEFConfidentialSupply is IUCEF {
+    /**
+     * @dev The supply viewer is not a valid address.
+     */
+    error UCEFInvalidSupplyViewer(address viewer);
+
+    /**
+     * @dev Returns whether `viewer` can view the total supply
+     */
+    function isSupplyViewer(address viewer) external view returns (bool);
+}
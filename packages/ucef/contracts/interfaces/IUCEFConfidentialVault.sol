@@ -0,0 +1,12 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {IERC4626} from "../interfaces/IERC4626.sol";
+import {IUCEFConfidentialSupply} from "../interfaces/IUCEFConfidentialSupply.sol";
+
+/**
+ * @title IUCEFConfidentialVault
+ * @dev Interface of the UCEFConfidentialVault extension, an ERC-4626 vault whose holdings, conversions and previews
+ * are restricted to supply viewers. Deposit and Withdraw are emitted as PrivateEvents.
+ */
+interface IUCEFConfidentialVault is IERC4626, IUCEFConfidentialSupply {}
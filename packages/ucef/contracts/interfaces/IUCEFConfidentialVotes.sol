@@ -0,0 +1,17 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {IUCEFVotes} from "../interfaces/IUCEFVotes.sol";
+
+/**
+ * @dev Interface for the UCEFConfidentialVotes extension, which adds voting and delegation capabilities without
+ * revealing the voting power of each delegate. Vote views are restricted to authorized callers and vote talliers.
+ */
+interface IUCEFConfidentialVotes is IUCEFVotes {
+    error UCEFInvalidVoteTallier(address tallier);
+
+    function clock() external view returns (uint48);
+    // solhint-disable-next-line func-name-mixedcase
+    function CLOCK_MODE() external view returns (string memory);
+    function isVoteTallier(address tallier) external view returns (bool);
+}
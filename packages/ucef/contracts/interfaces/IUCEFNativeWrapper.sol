@@ -0,0 +1,16 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {IUCEF} from "../interfaces/IUCEF.sol";
+
+/**
+ * @dev Interface for the UCEFNativeWrapper extension, which wraps the native currency of the chain into confidential
+ * tokens. NativeDeposit and Withdrawal are emitted as PrivateEvents.
+ */
+interface IUCEFNativeWrapper is IUCEF {
+    error UCEFNativeWrapperInsufficientReserve(uint256 reserve, uint256 supply);
+
+    function deposit() external payable;
+    function withdraw(uint256 value) external;
+    function withdrawTo(address payable account, uint256 value) external;
+}
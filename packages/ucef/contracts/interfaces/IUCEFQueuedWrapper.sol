@@ -0,0 +1,31 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {IUCEFWrapper} from "../interfaces/IUCEFWrapper.sol";
+
+/**
+ * @dev Interface for the UCEFQueuedWrapper extension, which settles withdrawals of underlying tokens in delayed
+ * batches. WithdrawalRequested, WithdrawalSettled and WithdrawalFailed are emitted as PrivateEvents.
+ */
+interface IUCEFQueuedWrapper is IUCEFWrapper {
+    struct WithdrawalRequest {
+        address owner;
+        address receiver;
+        uint256 value;
+        uint48 readyAt;
+        bool settled;
+        bool failed;
+    }
+
+    error UCEFUnauthorizedWithdrawalRequestAccess(address sender, uint256 requestId);
+    error UCEFNonexistentWithdrawalRequest(uint256 requestId);
+    error UCEFWithdrawalRequestNotFailed(uint256 requestId);
+
+    function withdrawalDelay() external view returns (uint48);
+    function withdrawalBatchInterval() external view returns (uint48);
+    function queuedAssets() external view returns (uint256);
+    function withdrawalRequest(uint256 requestId) external view returns (WithdrawalRequest memory);
+    function requestWithdrawal(address account, uint256 value) external returns (uint256 requestId);
+    function settleWithdrawals(uint256 maxRequests) external returns (uint256 settled);
+    function retryWithdrawal(uint256 requestId, address account) external;
+}
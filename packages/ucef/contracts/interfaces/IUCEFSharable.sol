@@ -26,6 +26,19 @@ interface IUCEFSharable is IUCEF {
      */
     error UCEFSharableSupervisionPermanentlyDisabled();
 
+    /**
+     * @dev Error thrown when attempting to grant an already expired or empty viewer grant
+     * @param expiry The expiry that was provided
+     * @param scope The scope that was provided
+     */
+    error UCEFSharableInvalidGrant(uint64 expiry, uint8 scope);
+
+    /**
+     * @dev Error thrown when granting a new viewer to an account already holding MAX_VIEWERS active grants
+     * @param account The account that granted the permission
+     */
+    error UCEFSharableTooManyViewers(address account);
+
     /**
      * @dev Emitted when viewing permissions are granted or revoked
      * @param account The account whose balance viewing permissions were modified
@@ -38,6 +51,15 @@ interface IUCEFSharable is IUCEF {
         bool status
     );
 
+    /**
+     * @dev Emitted along with ViewerPermissionUpdated when viewing permissions are granted
+     * @param account The account that granted the viewing permission
+     * @param viewer The address that was granted viewing permission
+     * @param expiry Timestamp at which the grant expires
+     * @param scope Scope flags of the grant
+     */
+    event ViewerGrantUpdated(address indexed account, address indexed viewer, uint64 expiry, uint8 scope);
+
     /**
      * @dev Emitted when the supervisor address is updated
      * @param previousSupervisor Address of the previous supervisor
@@ -65,16 +87,33 @@ interface IUCEFSharable is IUCEF {
     function updateSupervisor(address newSupervisor) external;
 
     /**
-     * @dev Grants balance viewing permission to a specific address
+     * @dev Grants balance viewing permission to a specific address, without expiry
      * @param viewer The address to grant viewing permission to
      *
      * Requirements:
      * - Only the account owner can grant viewing permissions
+     * - The account must hold less than MAX_VIEWERS active grants, unless `viewer` already holds one
      *
-     * Emits a {ViewerPermissionUpdated} event
+     * Emits {ViewerPermissionUpdated} and {ViewerGrantUpdated} events
      */
     function grantViewer(address viewer) external;
 
+    /**
+     * @dev Grants viewing permission to a specific address until a given time, replacing any existing grant
+     * @param viewer The address to grant viewing permission to
+     * @param expiry Timestamp at which the grant expires
+     * @param scope Combination of the SCOPE_BALANCE, SCOPE_TRANSFER_EVENTS and SCOPE_ALLOWANCES flags
+     *
+     * Requirements:
+     * - Only the account owner can grant viewing permissions
+     * - `expiry` must be in the future
+     * - `scope` must contain at least one flag and no unknown flag
+     * - The account must hold less than MAX_VIEWERS active grants, unless `viewer` already holds one
+     *
+     * Emits {ViewerPermissionUpdated} and {ViewerGrantUpdated} events
+     */
+    function grantViewerUntil(address viewer, uint64 expiry, uint8 scope) external;
+
     /**
      * @dev Revokes balance viewing permission from a specific address
      * @param viewer The address to revoke viewing permission from
@@ -87,10 +126,36 @@ interface IUCEFSharable is IUCEF {
     function revokeViewer(address viewer) external;
 
     /**
-     * @dev Checks if an address has viewing permission for a specific account
+     * @dev Revokes the viewing permissions of every viewer of the caller, including expired grants
+     *
+     * Emits a {ViewerPermissionUpdated} event for each revoked viewer
+     */
+    function revokeAllViewers() external;
+
+    /**
+     * @dev Checks if an address has an active balance viewing permission for a specific account
      * @param account The account whose permissions to check
      * @param viewer The address to check viewing permissions for
      * @return bool True if the viewer has permission, false otherwise
      */
     function hasViewPermission(address account, address viewer) external view returns (bool);
+
+    /**
+     * @dev Returns the active grant of a viewer for a specific account
+     * @param account The account whose permissions to check
+     * @param viewer The address to check viewing permissions for
+     * @return expiry Timestamp at which the grant expires (0 if there is no active grant)
+     * @return scope Scope flags of the grant (0 if there is no active grant)
+     */
+    function viewerGrant(address account, address viewer) external view returns (uint64 expiry, uint8 scope);
+
+    /**
+     * @dev Returns the viewers holding an active grant for a specific account
+     * @param account The account whose viewers to list
+     * @return viewers The addresses of the viewers, see {viewerGrant} for the details of each grant
+     *
+     * Requirements:
+     * - The caller must be either the account owner or the current supervisor (if supervision is enabled)
+     */
+    function viewersOf(address account) external view returns (address[] memory viewers);
 } 
\ No newline at end of file
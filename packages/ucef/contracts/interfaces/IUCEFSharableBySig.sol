@@ -0,0 +1,61 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {IUCEFSharable} from "../interfaces/IUCEFSharable.sol";
+
+/**
+ * @title IUCEFSharableBySig
+ * @dev Interface of the UCEFSharableBySig extension allowing viewer grants to be made via EIP-712 signatures,
+ * so that account holders don't need to send a transaction to share their balance.
+ *
+ * Signed messages use the following types, with the current nonce of the account (see {nonces}):
+ * - GrantViewer(address account,address viewer,uint64 expiry,uint8 scope,uint256 nonce,uint256 deadline)
+ * - RevokeViewer(address account,address viewer,uint256 nonce,uint256 deadline)
+ */
+interface IUCEFSharableBySig is IUCEFSharable {
+    /**
+     * @dev Signature deadline has expired.
+     */
+    error UCEFSharableExpiredSignature(uint256 deadline);
+
+    /**
+     * @dev Mismatched signature.
+     */
+    error UCEFSharableInvalidSigner(address signer, address account);
+
+    /**
+     * @dev Grants viewing permission on behalf of `account` until a given time, replacing any existing grant
+     * @param account The account granting the permission, which must have signed the grant
+     * @param viewer The address to grant viewing permission to
+     * @param expiry Timestamp at which the grant expires
+     * @param scope Combination of the SCOPE_BALANCE, SCOPE_TRANSFER_EVENTS and SCOPE_ALLOWANCES flags
+     * @param deadline Timestamp after which the signature is no longer valid
+     *
+     * Emits {ViewerPermissionUpdated} and {ViewerGrantUpdated} events
+     */
+    function grantViewerBySig(
+        address account,
+        address viewer,
+        uint64 expiry,
+        uint8 scope,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external;
+
+    /**
+     * @dev Revokes viewing permission on behalf of `account`
+     * @param account The account revoking the permission, which must have signed the revocation
+     * @param viewer The address to revoke viewing permission from
+     * @param deadline Timestamp after which the signature is no longer valid
+     *
+     * Emits a {ViewerPermissionUpdated} event
+     */
+    function revokeViewerBySig(address account, address viewer, uint256 deadline, uint8 v, bytes32 r, bytes32 s) external;
+
+    /**
+     * @dev Returns the current nonce for `account`, which must be included in the signed messages
+     */
+    function nonces(address account) external view returns (uint256);
+}
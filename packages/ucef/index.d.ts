@@ -1,20 +1,38 @@
+import { Signer } from 'ethers'
+import { UCEFAccessControlled, UCEFOwned, UCEFRegulated, UCEFSharable } from './types'
+
 export {
   UCEF,
   UCEFOwned,
   UCEFRegulated,
   UCEFSharable,
+  UCEFAccessControlled,
   // Extensions
+  UCEFBalanceBySig,
   UCEFBurnable,
   UCEFCapped,
+  UCEFClaimViewers,
+  UCEFConfidentialSupply,
+  UCEFConfidentialVault,
+  UCEFConfidentialVotes,
   UCEFFlashMint,
+  UCEFNativeWrapper,
   UCEFPausable,
   UCEFPermit,
+  UCEFQueuedWrapper,
+  UCEFSharableBySig,
   UCEFVotes,
   UCEFWrapper,
   ERC1363,
   ERC4626,
 } from './types'
 
+export * from './sdk/private-events'
+export * from './sdk/indexer'
+export * from './sdk/deploy'
+export * from './sdk/viewer-grants'
+export * from './sdk/balance-query'
+
 export type Abi = any[];
 export interface Artifact<AbiT extends Abi = Abi> {
     contractName: string;
@@ -32,4 +50,66 @@ export namespace UCEFContracts {
   export const UCEFOwned: Artifact
   export const UCEFRegulated: Artifact
   export const UCEFSharable: Artifact
+  export const UCEFAccessControlled: Artifact
+  // Extensions
+  export const UCEFBalanceBySig: Artifact
+  export const UCEFBurnable: Artifact
+  export const UCEFCapped: Artifact
+  export const UCEFClaimViewers: Artifact
+  export const UCEFConfidentialSupply: Artifact
+  export const UCEFConfidentialVault: Artifact
+  export const UCEFConfidentialVotes: Artifact
+  export const UCEFFlashMint: Artifact
+  export const UCEFNativeWrapper: Artifact
+  export const UCEFPausable: Artifact
+  export const UCEFPermit: Artifact
+  export const UCEFQueuedWrapper: Artifact
+  export const UCEFSharableBySig: Artifact
+  export const UCEFVotes: Artifact
+  export const UCEFWrapper: Artifact
+  export const ERC1363: Artifact
+  export const ERC4626: Artifact
+  // Interfaces
+  export const IUCEF: Artifact
+  export const IUCEFOwned: Artifact
+  export const IUCEFRegulated: Artifact
+  export const IUCEFSharable: Artifact
+  export const IUCEFAccessControlled: Artifact
+  export const IUCEFBalanceBySig: Artifact
+  export const IUCEFBurnable: Artifact
+  export const IUCEFCapped: Artifact
+  export const IUCEFClaimViewers: Artifact
+  export const IUCEFConfidentialSupply: Artifact
+  export const IUCEFConfidentialVault: Artifact
+  export const IUCEFConfidentialVotes: Artifact
+  export const IUCEFFlashMint: Artifact
+  export const IUCEFNativeWrapper: Artifact
+  export const IUCEFPausable: Artifact
+  export const IUCEFPermit: Artifact
+  export const IUCEFQueuedWrapper: Artifact
+  export const IUCEFSharableBySig: Artifact
+  export const IUCEFVotes: Artifact
+  export const IUCEFWrapper: Artifact
+  export const IERC1363: Artifact
+  export const IERC4626: Artifact
 }
+
+export declare function deployUCEFOwned(signer: Signer, name: string, symbol: string): Promise<UCEFOwned>
+export declare function deployUCEFRegulated(
+  signer: Signer,
+  initialRegulator: string,
+  name: string,
+  symbol: string,
+): Promise<UCEFRegulated>
+export declare function deployUCEFSharable(
+  signer: Signer,
+  initialSupervisor: string,
+  name: string,
+  symbol: string,
+): Promise<UCEFSharable>
+export declare function deployUCEFAccessControlled(
+  signer: Signer,
+  initialAdmin: string,
+  name: string,
+  symbol: string,
+): Promise<UCEFAccessControlled>
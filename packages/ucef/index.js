@@ -1,10 +1,108 @@
+const {
+  PRIVATE_EVENT_ABI,
+  PRIVATE_EVENT_TOPIC,
+  UCEF_EVENT_SIGNATURES,
+  PrivateEventDecoder,
+  decodePrivateEvent,
+  decodePrivateEvents,
+} = require('./sdk/private-events')
+const { MemoryCheckpointStore, JsonCheckpointStore, PrivateEventIndexer } = require('./sdk/indexer')
+const { createDeployer } = require('./sdk/deploy')
+const {
+  VIEWER_SCOPES,
+  VIEWER_GRANT_TYPES,
+  REVOKE_VIEWER_TYPES,
+  signViewerGrant,
+  signViewerRevocation,
+  getSharingState,
+  formatSharingState,
+} = require('./sdk/viewer-grants')
+const { BALANCE_QUERY_TYPES, signBalanceQuery, balanceOfWithSignature } = require('./sdk/balance-query')
+
 const UCEFContracts = {
   UCEF: require('./artifacts/contracts/UCEF.sol/UCEF.json'),
   UCEFOwned: require('./artifacts/contracts/UCEFOwned.sol/UCEFOwned.json'),
   UCEFRegulated: require('./artifacts/contracts/UCEFRegulated.sol/UCEFRegulated.json'),
   UCEFSharable: require('./artifacts/contracts/UCEFSharable.sol/UCEFSharable.json'),
+  UCEFAccessControlled: require('./artifacts/contracts/UCEFAccessControlled.sol/UCEFAccessControlled.json'),
+  // Extensions
+  UCEFBalanceBySig: require('./artifacts/contracts/extensions/UCEFBalanceBySig.sol/UCEFBalanceBySig.json'),
+  UCEFBurnable: require('./artifacts/contracts/extensions/UCEFBurnable.sol/UCEFBurnable.json'),
+  UCEFCapped: require('./artifacts/contracts/extensions/UCEFCapped.sol/UCEFCapped.json'),
+  UCEFClaimViewers: require('./artifacts/contracts/extensions/UCEFClaimViewers.sol/UCEFClaimViewers.json'),
+  UCEFConfidentialSupply: require('./artifacts/contracts/extensions/UCEFConfidentialSupply.sol/UCEFConfidentialSupply.json'),
+  UCEFConfidentialVault: require('./artifacts/contracts/extensions/UCEFConfidentialVault.sol/UCEFConfidentialVault.json'),
+  UCEFConfidentialVotes: require('./artifacts/contracts/extensions/UCEFConfidentialVotes.sol/UCEFConfidentialVotes.json'),
+  UCEFFlashMint: require('./artifacts/contracts/extensions/UCEFFlashMint.sol/UCEFFlashMint.json'),
+  UCEFNativeWrapper: require('./artifacts/contracts/extensions/UCEFNativeWrapper.sol/UCEFNativeWrapper.json'),
+  UCEFPausable: require('./artifacts/contracts/extensions/UCEFPausable.sol/UCEFPausable.json'),
+  UCEFPermit: require('./artifacts/contracts/extensions/UCEFPermit.sol/UCEFPermit.json'),
+  UCEFQueuedWrapper: require('./artifacts/contracts/extensions/UCEFQueuedWrapper.sol/UCEFQueuedWrapper.json'),
+  UCEFSharableBySig: require('./artifacts/contracts/extensions/UCEFSharableBySig.sol/UCEFSharableBySig.json'),
+  UCEFVotes: require('./artifacts/contracts/extensions/UCEFVotes.sol/UCEFVotes.json'),
+  UCEFWrapper: require('./artifacts/contracts/extensions/UCEFWrapper.sol/UCEFWrapper.json'),
+  ERC1363: require('./artifacts/contracts/extensions/ERC1363.sol/ERC1363.json'),
+  ERC4626: require('./artifacts/contracts/extensions/ERC4626.sol/ERC4626.json'),
+  // Interfaces
+  IUCEF: require('./artifacts/contracts/interfaces/IUCEF.sol/IUCEF.json'),
+  IUCEFOwned: require('./artifacts/contracts/interfaces/IUCEFOwned.sol/IUCEFOwned.json'),
+  IUCEFRegulated: require('./artifacts/contracts/interfaces/IUCEFRegulated.sol/IUCEFRegulated.json'),
+  IUCEFSharable: require('./artifacts/contracts/interfaces/IUCEFSharable.sol/IUCEFSharable.json'),
+  IUCEFAccessControlled: require('./artifacts/contracts/interfaces/IUCEFAccessControlled.sol/IUCEFAccessControlled.json'),
+  IUCEFBalanceBySig: require('./artifacts/contracts/interfaces/IUCEFBalanceBySig.sol/IUCEFBalanceBySig.json'),
+  IUCEFBurnable: require('./artifacts/contracts/interfaces/IUCEFBurnable.sol/IUCEFBurnable.json'),
+  IUCEFCapped: require('./artifacts/contracts/interfaces/IUCEFCapped.sol/IUCEFCapped.json'),
+  IUCEFClaimViewers: require('./artifacts/contracts/interfaces/IUCEFClaimViewers.sol/IUCEFClaimViewers.json'),
+  IUCEFConfidentialSupply: require('./artifacts/contracts/interfaces/IUCEFConfidentialSupply.sol/IUCEFConfidentialSupply.json'),
+  IUCEFConfidentialVault: require('./artifacts/contracts/interfaces/IUCEFConfidentialVault.sol/IUCEFConfidentialVault.json'),
+  IUCEFConfidentialVotes: require('./artifacts/contracts/interfaces/IUCEFConfidentialVotes.sol/IUCEFConfidentialVotes.json'),
+  IUCEFFlashMint: require('./artifacts/contracts/interfaces/IUCEFFlashMint.sol/IUCEFFlashMint.json'),
+  IUCEFNativeWrapper: require('./artifacts/contracts/interfaces/IUCEFNativeWrapper.sol/IUCEFNativeWrapper.json'),
+  IUCEFPausable: require('./artifacts/contracts/interfaces/IUCEFPausable.sol/IUCEFPausable.json'),
+  IUCEFPermit: require('./artifacts/contracts/interfaces/IUCEFPermit.sol/IUCEFPermit.json'),
+  IUCEFQueuedWrapper: require('./artifacts/contracts/interfaces/IUCEFQueuedWrapper.sol/IUCEFQueuedWrapper.json'),
+  IUCEFSharableBySig: require('./artifacts/contracts/interfaces/IUCEFSharableBySig.sol/IUCEFSharableBySig.json'),
+  IUCEFVotes: require('./artifacts/contracts/interfaces/IUCEFVotes.sol/IUCEFVotes.json'),
+  IUCEFWrapper: require('./artifacts/contracts/interfaces/IUCEFWrapper.sol/IUCEFWrapper.json'),
+  IERC1363: require('./artifacts/contracts/interfaces/IERC1363.sol/IERC1363.json'),
+  IERC4626: require('./artifacts/contracts/interfaces/IERC4626.sol/IERC4626.json'),
 }
 
+// Deploy helpers for the concrete contracts, extensions are abstract and must be inherited
+const deployUCEFOwned = createDeployer(UCEFContracts.UCEFOwned)
+const deployUCEFRegulated = createDeployer(UCEFContracts.UCEFRegulated)
+const deployUCEFSharable = createDeployer(UCEFContracts.UCEFSharable)
+const deployUCEFAccessControlled = createDeployer(UCEFContracts.UCEFAccessControlled)
+
 module.exports = {
   UCEFContracts,
+  // Deployment
+  createDeployer,
+  deployUCEFOwned,
+  deployUCEFRegulated,
+  deployUCEFSharable,
+  deployUCEFAccessControlled,
+  // Private events
+  PRIVATE_EVENT_ABI,
+  PRIVATE_EVENT_TOPIC,
+  UCEF_EVENT_SIGNATURES,
+  PrivateEventDecoder,
+  decodePrivateEvent,
+  decodePrivateEvents,
+  // Indexer
+  MemoryCheckpointStore,
+  JsonCheckpointStore,
+  PrivateEventIndexer,
+  // Viewer grants
+  VIEWER_SCOPES,
+  VIEWER_GRANT_TYPES,
+  REVOKE_VIEWER_TYPES,
+  signViewerGrant,
+  signViewerRevocation,
+  getSharingState,
+  formatSharingState,
+  // Signed balance queries
+  BALANCE_QUERY_TYPES,
+  signBalanceQuery,
+  balanceOfWithSignature,
 }
@@ -0,0 +1,29 @@
+import { BigNumberish, ContractRunner, Signer, TypedDataField } from 'ethers'
+
+export declare const BALANCE_QUERY_TYPES: Record<string, TypedDataField[]>
+
+export interface SignedBalanceQuery {
+  account: string
+  viewer: string
+  deadline: BigNumberish
+  signature: string
+}
+
+/**
+ * Builds and signs a BalanceQuery message, so a service without an authenticated `eth_call` can read the balance
+ * of `account` on behalf of the signer
+ */
+export declare function signBalanceQuery(
+  signer: Signer,
+  token: string,
+  query: { account: string; deadline: BigNumberish },
+): Promise<SignedBalanceQuery>
+
+/**
+ * Reads a balance with a signed balance query. The runner doesn't need to be the viewer.
+ */
+export declare function balanceOfWithSignature(
+  runner: ContractRunner,
+  token: string,
+  query: SignedBalanceQuery,
+): Promise<bigint>
@@ -0,0 +1,63 @@
+const { Contract } = require('ethers')
+
+/**
+ * EIP-712 types of the signed balance queries accepted by UCEFBalanceBySig
+ */
+const BALANCE_QUERY_TYPES = {
+  BalanceQuery: [
+    { name: 'account', type: 'address' },
+    { name: 'viewer', type: 'address' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+}
+
+const BALANCE_BY_SIG_ABI = [
+  'function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)',
+  'function balanceOfWithSignature(address account, address viewer, uint256 deadline, bytes signature) view returns (uint256)',
+]
+
+/**
+ * Builds and signs a BalanceQuery message, so a service without an authenticated `eth_call` can read the balance
+ * of `account` on behalf of the signer
+ * @param {import('ethers').Signer} signer Viewer of the balance, must be connected to a provider
+ * @param {string} token Address of the UCEFBalanceBySig token
+ * @param {object} query
+ * @param {string} query.account Account whose balance to read
+ * @param {bigint | number} query.deadline Timestamp after which the signature is no longer valid
+ */
+async function signBalanceQuery(signer, token, { account, deadline }) {
+  const viewer = await signer.getAddress()
+  const domain = await new Contract(token, BALANCE_BY_SIG_ABI, signer).eip712Domain()
+
+  const message = { account, viewer, deadline }
+  const signature = await signer.signTypedData(
+    {
+      name: domain.name,
+      version: domain.version,
+      chainId: domain.chainId,
+      verifyingContract: domain.verifyingContract,
+    },
+    BALANCE_QUERY_TYPES,
+    message,
+  )
+
+  return { account, viewer, deadline, signature }
+}
+
+/**
+ * Reads a balance with a query signed by {@link signBalanceQuery}
+ * @param {import('ethers').ContractRunner} runner Runner used for the call, doesn't need to be the viewer
+ * @param {string} token Address of the UCEFBalanceBySig token
+ * @param {Awaited<ReturnType<typeof signBalanceQuery>>} query Signed balance query
+ * @returns {Promise<bigint>}
+ */
+async function balanceOfWithSignature(runner, token, { account, viewer, deadline, signature }) {
+  const contract = new Contract(token, BALANCE_BY_SIG_ABI, runner)
+  return contract.balanceOfWithSignature(account, viewer, deadline, signature)
+}
+
+module.exports = {
+  BALANCE_QUERY_TYPES,
+  signBalanceQuery,
+  balanceOfWithSignature,
+}
@@ -0,0 +1,11 @@
+import { BaseContract, Signer } from 'ethers'
+import { Artifact } from '../index'
+
+/**
+ * Creates a deploy function from a compiled contract artifact, e.g.
+ * `createDeployer<MyToken, [name: string, symbol: string]>(artifact)`.
+ * Throws if the artifact has no bytecode (abstract contracts and interfaces).
+ */
+export declare function createDeployer<T extends BaseContract = BaseContract, TArgs extends unknown[] = unknown[]>(
+  artifact: Artifact,
+): (signer: Signer, ...args: TArgs) => Promise<T>
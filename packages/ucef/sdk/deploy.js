@@ -0,0 +1,24 @@
+const { ContractFactory } = require('ethers')
+
+/**
+ * Creates a deploy function from a compiled contract artifact. The returned function takes the
+ * deployer signer followed by the constructor arguments, and resolves once the contract is deployed.
+ * @param {{ contractName: string, abi: any[], bytecode: string }} artifact Artifact of a concrete contract
+ */
+function createDeployer(artifact) {
+  if (!artifact.bytecode || artifact.bytecode === '0x') {
+    throw new Error(`${artifact.contractName} is abstract or an interface and cannot be deployed`)
+  }
+
+  return async function deploy(signer, ...args) {
+    const factory = new ContractFactory(artifact.abi, artifact.bytecode, signer)
+    const contract = await factory.deploy(...args)
+    await contract.waitForDeployment()
+
+    return contract
+  }
+}
+
+module.exports = {
+  createDeployer,
+}
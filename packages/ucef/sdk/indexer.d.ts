@@ -0,0 +1,83 @@
+import { Provider } from 'ethers'
+import { PrivateEventBase, PrivateEventDecoder } from './private-events'
+
+interface HistoryEntryBase<TType extends string> {
+  type: TType
+  blockNumber: number
+  transactionHash: string
+  logIndex: number
+  value: bigint
+}
+
+export interface TransferHistoryEntry extends HistoryEntryBase<'Transfer'> {
+  from: string
+  to: string
+  /**
+   * Reference and memo of the transfer, when sent with transferWithReference
+   */
+  reference?: string
+  memo?: string
+}
+
+export interface ApprovalHistoryEntry extends HistoryEntryBase<'Approval'> {
+  owner: string
+  spender: string
+}
+
+export type HistoryEntry = TransferHistoryEntry | ApprovalHistoryEntry
+
+/**
+ * Serializable indexer state, as saved in checkpoint stores. Amounts are stored as decimal strings.
+ */
+export interface IndexerState {
+  chainId: string
+  token: string
+  viewer: string
+  lastBlock: number
+  accounts: Record<string, { balance: string; history: Array<Omit<HistoryEntry, 'value'> & { value: string }> }>
+  allowances: Record<string, string>
+}
+
+export interface CheckpointStore {
+  load(key: string): IndexerState | null
+  save(key: string, state: IndexerState): void
+}
+
+export declare class MemoryCheckpointStore implements CheckpointStore {
+  constructor()
+  load(key: string): IndexerState | null
+  save(key: string, state: IndexerState): void
+}
+
+export declare class JsonCheckpointStore implements CheckpointStore {
+  readonly filePath: string
+  constructor(filePath: string)
+  load(key: string): IndexerState | null
+  save(key: string, state: IndexerState): void
+}
+
+export interface PrivateEventIndexerOptions {
+  provider: Pick<Provider, 'getLogs' | 'getBlockNumber' | 'getNetwork'>
+  token: string
+  viewer: string
+  store?: CheckpointStore
+  decoder?: PrivateEventDecoder<PrivateEventBase>
+  startBlock?: number
+  batchSize?: number
+  confirmations?: number
+}
+
+export declare class PrivateEventIndexer {
+  readonly token: string
+  readonly viewer: string
+  readonly store: CheckpointStore
+  state: IndexerState | null
+
+  constructor(options: PrivateEventIndexerOptions)
+
+  sync(options?: { toBlock?: number }): Promise<IndexerState>
+  getHistory(account: string): HistoryEntry[]
+  getBalance(account: string): bigint
+  getBalances(): Record<string, bigint>
+  getAllowance(owner: string, spender: string): bigint
+}
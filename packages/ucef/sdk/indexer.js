@@ -0,0 +1,284 @@
+const fs = require('fs')
+const path = require('path')
+const { getAddress, id } = require('ethers')
+const { PRIVATE_EVENT_TOPIC, PrivateEventDecoder } = require('./private-events')
+
+const TRANSFER_EVENT_TYPE = id('Transfer(address,address,uint256)')
+const APPROVAL_EVENT_TYPE = id('Approval(address,address,uint256)')
+const TRANSFER_REFERENCE_EVENT_TYPE = id('TransferReference(address,address,uint256,bytes32,bytes)')
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000'
+
+/**
+ * Checkpoint store keeping indexer states in memory, mostly useful for tests
+ */
+class MemoryCheckpointStore {
+  constructor() {
+    this._states = new Map()
+  }
+
+  load(key) {
+    const state = this._states.get(key)
+    return state ? JSON.parse(state) : null
+  }
+
+  save(key, state) {
+    this._states.set(key, JSON.stringify(state))
+  }
+}
+
+/**
+ * Checkpoint store persisting indexer states to a local JSON file, keyed by chain, token and viewer
+ */
+class JsonCheckpointStore {
+  /**
+   * @param {string} filePath Path of the JSON file, created on first save
+   */
+  constructor(filePath) {
+    this.filePath = filePath
+  }
+
+  load(key) {
+    return this._read()[key] || null
+  }
+
+  save(key, state) {
+    const states = this._read()
+    states[key] = state
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+    // Write to a temporary file first so an interrupted run never leaves a corrupted checkpoint
+    const tmpFilePath = `${this.filePath}.tmp`
+    fs.writeFileSync(tmpFilePath, JSON.stringify(states, null, 2))
+    fs.renameSync(tmpFilePath, this.filePath)
+  }
+
+  _read() {
+    if (!fs.existsSync(this.filePath)) {
+      return {}
+    }
+    return JSON.parse(fs.readFileSync(this.filePath, 'utf8'))
+  }
+}
+
+/**
+ * Indexes the Transfer and Approval private events of a UCEF token visible to a given viewer,
+ * building a per-account history and a reconstructed balance ledger. The reference and memo of
+ * TransferReference events are attached to the history entry of the matching transfer.
+ *
+ * Only events listing the viewer in `allowedViewers` are indexed, so reconstructed balances are
+ * exact only for accounts whose every transfer is visible to the viewer (e.g. the viewer's own
+ * account, or every account when the viewer is a regulator or supervisor).
+ */
+class PrivateEventIndexer {
+  /**
+   * @param {object} options
+   * @param {import('ethers').Provider} options.provider Provider used to fetch logs
+   * @param {string} options.token Address of the UCEF token
+   * @param {string} options.viewer Address whose visible events are indexed
+   * @param {MemoryCheckpointStore | JsonCheckpointStore} [options.store] Checkpoint store, in memory by default
+   * @param {PrivateEventDecoder} [options.decoder] Decoder used for the event payloads
+   * @param {number} [options.startBlock] First block to index when there is no checkpoint, 0 by default
+   * @param {number} [options.batchSize] Maximum number of blocks per getLogs request, 2000 by default
+   * @param {number} [options.confirmations] Number of blocks to stay behind the chain head, 0 by default
+   */
+  constructor({ provider, token, viewer, store, decoder, startBlock = 0, batchSize = 2000, confirmations = 0 }) {
+    this.provider = provider
+    this.token = getAddress(token)
+    this.viewer = getAddress(viewer)
+    this.store = store || new MemoryCheckpointStore()
+    this.decoder = decoder || new PrivateEventDecoder()
+    this.startBlock = startBlock
+    this.batchSize = batchSize
+    this.confirmations = confirmations
+    this.state = null
+  }
+
+  /**
+   * Indexes all blocks since the last checkpoint up to `toBlock` (the chain head by default),
+   * saving a checkpoint after each batch so interrupted runs resume where they stopped.
+   * @param {object} [options]
+   * @param {number} [options.toBlock] Last block to index
+   * @returns The indexer state
+   */
+  async sync({ toBlock } = {}) {
+    const state = await this._loadState()
+    const headBlock = (await this.provider.getBlockNumber()) - this.confirmations
+    const lastBlock = toBlock === undefined ? headBlock : Math.min(toBlock, headBlock)
+
+    let fromBlock = state.lastBlock + 1
+    while (fromBlock <= lastBlock) {
+      const batchToBlock = Math.min(fromBlock + this.batchSize - 1, lastBlock)
+      const logs = await this.provider.getLogs({
+        address: this.token,
+        topics: [PRIVATE_EVENT_TOPIC, [TRANSFER_EVENT_TYPE, APPROVAL_EVENT_TYPE, TRANSFER_REFERENCE_EVENT_TYPE]],
+        fromBlock,
+        toBlock: batchToBlock,
+      })
+
+      for (const log of logs) {
+        this._apply(state, this.decoder.decode(log))
+      }
+
+      state.lastBlock = batchToBlock
+      this.store.save(this._key, state)
+      fromBlock = batchToBlock + 1
+    }
+
+    return state
+  }
+
+  /**
+   * Returns the indexed history of an account, oldest first
+   * @param {string} account
+   */
+  getHistory(account) {
+    const entry = this._requireState().accounts[getAddress(account)]
+    return entry ? entry.history.map(parseHistoryEntry) : []
+  }
+
+  /**
+   * Returns the reconstructed balance of an account
+   * @param {string} account
+   */
+  getBalance(account) {
+    const entry = this._requireState().accounts[getAddress(account)]
+    return entry ? BigInt(entry.balance) : 0n
+  }
+
+  /**
+   * Returns the reconstructed balances of all indexed accounts
+   */
+  getBalances() {
+    const balances = {}
+    for (const [account, entry] of Object.entries(this._requireState().accounts)) {
+      balances[account] = BigInt(entry.balance)
+    }
+    return balances
+  }
+
+  /**
+   * Returns the last indexed allowance of a spender over an owner's tokens. Allowances spent through
+   * transferFrom are not announced by UCEF and are therefore not reflected.
+   * @param {string} owner
+   * @param {string} spender
+   */
+  getAllowance(owner, spender) {
+    const allowance = this._requireState().allowances[`${getAddress(owner)}:${getAddress(spender)}`]
+    return allowance ? BigInt(allowance) : 0n
+  }
+
+  get _key() {
+    return `${this._chainId}:${this.token}:${this.viewer}`
+  }
+
+  async _loadState() {
+    if (this.state) {
+      return this.state
+    }
+
+    this._chainId = (await this.provider.getNetwork()).chainId.toString()
+    this.state = this.store.load(this._key) || {
+      chainId: this._chainId,
+      token: this.token,
+      viewer: this.viewer,
+      lastBlock: this.startBlock - 1,
+      accounts: {},
+      allowances: {},
+    }
+    return this.state
+  }
+
+  _requireState() {
+    if (!this.state) {
+      throw new Error('Indexer state not loaded, call sync() first')
+    }
+    return this.state
+  }
+
+  _apply(state, event) {
+    if (!event || !event.allowedViewers.some((viewer) => viewer === this.viewer)) {
+      return
+    }
+
+    const { blockNumber, transactionHash, index } = event.log
+    const base = { type: event.type, blockNumber, transactionHash, logIndex: index }
+
+    if (event.type === 'Transfer') {
+      const value = event.value.toString()
+      const entry = { ...base, from: event.from, to: event.to, value }
+      if (event.from !== ZERO_ADDRESS) {
+        const account = getAccount(state, event.from)
+        account.balance = (BigInt(account.balance) - event.value).toString()
+        account.history.push(entry)
+      }
+      if (event.to !== ZERO_ADDRESS) {
+        const account = getAccount(state, event.to)
+        account.balance = (BigInt(account.balance) + event.value).toString()
+        if (event.to !== event.from) {
+          account.history.push(entry)
+        }
+      }
+    } else if (event.type === 'Approval') {
+      const value = event.value.toString()
+      const entry = { ...base, owner: event.owner, spender: event.spender, value }
+      state.allowances[`${event.owner}:${event.spender}`] = value
+      getAccount(state, event.owner).history.push(entry)
+      if (event.spender !== event.owner) {
+        getAccount(state, event.spender).history.push(entry)
+      }
+    } else if (event.type === 'TransferReference') {
+      for (const address of new Set([event.from, event.to])) {
+        const entry = findTransferEntry(state, address, transactionHash, event)
+        if (entry) {
+          entry.reference = event.reference
+          entry.memo = event.memo
+        }
+      }
+    }
+  }
+}
+
+function getAccount(state, address) {
+  if (!state.accounts[address]) {
+    state.accounts[address] = { balance: '0', history: [] }
+  }
+  return state.accounts[address]
+}
+
+/**
+ * Finds the latest transfer of a transaction matching a TransferReference event that has no reference yet
+ */
+function findTransferEntry(state, address, transactionHash, event) {
+  const account = state.accounts[address]
+  if (!account) {
+    return undefined
+  }
+  const value = event.value.toString()
+  for (let i = account.history.length - 1; i >= 0; i--) {
+    const entry = account.history[i]
+    if (entry.transactionHash !== transactionHash) {
+      return undefined
+    }
+    if (
+      entry.type === 'Transfer' &&
+      entry.from === event.from &&
+      entry.to === event.to &&
+      entry.value === value &&
+      entry.reference === undefined
+    ) {
+      return entry
+    }
+  }
+  return undefined
+}
+
+function parseHistoryEntry(entry) {
+  return { ...entry, value: BigInt(entry.value) }
+}
+
+module.exports = {
+  MemoryCheckpointStore,
+  JsonCheckpointStore,
+  PrivateEventIndexer,
+}
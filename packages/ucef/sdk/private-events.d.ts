@@ -0,0 +1,256 @@
+import { EventFragment, Log, TransactionReceipt } from 'ethers'
+
+export declare const PRIVATE_EVENT_ABI: string
+export declare const PRIVATE_EVENT_TOPIC: string
+export declare const UCEF_EVENT_SIGNATURES: string[]
+
+/**
+ * Fields shared by every decoded private event
+ */
+export interface PrivateEventBase<TType extends string = string> {
+  type: TType
+  eventType: string
+  allowedViewers: string[]
+  log: Log
+}
+
+export interface TransferEvent extends PrivateEventBase<'Transfer'> {
+  from: string
+  to: string
+  value: bigint
+}
+
+export interface ApprovalEvent extends PrivateEventBase<'Approval'> {
+  owner: string
+  spender: string
+  value: bigint
+}
+
+export interface TransferReferenceEvent extends PrivateEventBase<'TransferReference'> {
+  from: string
+  to: string
+  value: bigint
+  reference: string
+  memo: string
+}
+
+export interface ViewerPermissionUpdatedEvent extends PrivateEventBase<'ViewerPermissionUpdated'> {
+  account: string
+  viewer: string
+  status: boolean
+}
+
+export interface ViewerGrantUpdatedEvent extends PrivateEventBase<'ViewerGrantUpdated'> {
+  account: string
+  viewer: string
+  expiry: bigint
+  scope: bigint
+}
+
+export interface SupervisorUpdatedEvent extends PrivateEventBase<'SupervisorUpdated'> {
+  previousSupervisor: string
+  newSupervisor: string
+}
+
+export interface RegulatorUpdatedEvent extends PrivateEventBase<'RegulatorUpdated'> {
+  previousRegulator: string
+  newRegulator: string
+}
+
+export interface RoleGrantedEvent extends PrivateEventBase<'RoleGranted'> {
+  role: string
+  account: string
+  sender: string
+}
+
+export interface RoleRevokedEvent extends PrivateEventBase<'RoleRevoked'> {
+  role: string
+  account: string
+  sender: string
+}
+
+export interface RoleAdminChangedEvent extends PrivateEventBase<'RoleAdminChanged'> {
+  role: string
+  previousAdminRole: string
+  newAdminRole: string
+}
+
+export interface TokensFrozenEvent extends PrivateEventBase<'TokensFrozen'> {
+  userAddress: string
+  amount: bigint
+}
+
+export interface TokensUnfrozenEvent extends PrivateEventBase<'TokensUnfrozen'> {
+  userAddress: string
+  amount: bigint
+}
+
+export interface AddressFrozenEvent extends PrivateEventBase<'AddressFrozen'> {
+  userAddress: string
+  isFrozen: boolean
+  agent: string
+}
+
+export interface RecoverySuccessEvent extends PrivateEventBase<'RecoverySuccess'> {
+  lostWallet: string
+  newWallet: string
+  investorOnchainID: string
+}
+
+export interface SupplyViewerUpdatedEvent extends PrivateEventBase<'SupplyViewerUpdated'> {
+  viewer: string
+  allowed: boolean
+}
+
+export interface DelegateChangedEvent extends PrivateEventBase<'DelegateChanged'> {
+  delegator: string
+  fromDelegate: string
+  toDelegate: string
+}
+
+export interface DelegateVotesChangedEvent extends PrivateEventBase<'DelegateVotesChanged'> {
+  delegate: string
+  previousVotes: bigint
+  newVotes: bigint
+}
+
+export interface VoteTallierUpdatedEvent extends PrivateEventBase<'VoteTallierUpdated'> {
+  tallier: string
+  allowed: boolean
+}
+
+export interface DepositEvent extends PrivateEventBase<'Deposit'> {
+  sender: string
+  owner: string
+  assets: bigint
+  shares: bigint
+}
+
+export interface WithdrawEvent extends PrivateEventBase<'Withdraw'> {
+  sender: string
+  receiver: string
+  owner: string
+  assets: bigint
+  shares: bigint
+}
+
+export interface NativeDepositEvent extends PrivateEventBase<'NativeDeposit'> {
+  account: string
+  value: bigint
+}
+
+export interface WithdrawalEvent extends PrivateEventBase<'Withdrawal'> {
+  account: string
+  value: bigint
+}
+
+export interface WithdrawalRequestedEvent extends PrivateEventBase<'WithdrawalRequested'> {
+  requestId: bigint
+  owner: string
+  receiver: string
+  value: bigint
+  readyAt: bigint
+}
+
+export interface WithdrawalSettledEvent extends PrivateEventBase<'WithdrawalSettled'> {
+  requestId: bigint
+  owner: string
+  receiver: string
+  value: bigint
+}
+
+export interface WithdrawalFailedEvent extends PrivateEventBase<'WithdrawalFailed'> {
+  requestId: bigint
+  owner: string
+  receiver: string
+  value: bigint
+}
+
+export interface ClaimViewerUpdatedEvent extends PrivateEventBase<'ClaimViewerUpdated'> {
+  viewer: string
+  registered: boolean
+}
+
+export interface SettlementCreatedEvent extends PrivateEventBase<'SettlementCreated'> {
+  settlementId: bigint
+  seller: string
+  buyer: string
+  securities: string
+  securitiesAmount: bigint
+  cash: string
+  cashAmount: bigint
+}
+
+export interface SettlementLegLockedEvent extends PrivateEventBase<'SettlementLegLocked'> {
+  settlementId: bigint
+  party: string
+  token: string
+  amount: bigint
+}
+
+export interface SettlementExecutedEvent extends PrivateEventBase<'SettlementExecuted'> {
+  settlementId: bigint
+}
+
+export interface SettlementCancelledEvent extends PrivateEventBase<'SettlementCancelled'> {
+  settlementId: bigint
+  cancelledBy: string
+}
+
+export type UCEFPrivateEvent =
+  | TransferEvent
+  | ApprovalEvent
+  | TransferReferenceEvent
+  | ViewerPermissionUpdatedEvent
+  | ViewerGrantUpdatedEvent
+  | SupervisorUpdatedEvent
+  | RegulatorUpdatedEvent
+  | RoleGrantedEvent
+  | RoleRevokedEvent
+  | RoleAdminChangedEvent
+  | TokensFrozenEvent
+  | TokensUnfrozenEvent
+  | AddressFrozenEvent
+  | RecoverySuccessEvent
+  | SupplyViewerUpdatedEvent
+  | DelegateChangedEvent
+  | DelegateVotesChangedEvent
+  | VoteTallierUpdatedEvent
+  | DepositEvent
+  | WithdrawEvent
+  | NativeDepositEvent
+  | WithdrawalEvent
+  | WithdrawalRequestedEvent
+  | WithdrawalSettledEvent
+  | WithdrawalFailedEvent
+  | ClaimViewerUpdatedEvent
+  | SettlementCreatedEvent
+  | SettlementLegLockedEvent
+  | SettlementExecutedEvent
+  | SettlementCancelledEvent
+
+/**
+ * Decoded private event of a custom event type registered by a derived contract
+ */
+export type CustomPrivateEvent<TType extends string, TFields extends object> = PrivateEventBase<TType> & TFields
+
+export declare class PrivateEventDecoder<TEvent extends PrivateEventBase = UCEFPrivateEvent> {
+  constructor(signatures?: string[])
+
+  /**
+   * Registers an event signature, e.g. `Transfer(address from, address to, uint256 value)`.
+   * The type parameters describe the decoded event, e.g.
+   * `decoder.register<'Minted', { to: string; value: bigint }>('Minted(address to, uint256 value)')`
+   */
+  register<TType extends string, TFields extends object = Record<string, unknown>>(
+    signature: string,
+  ): PrivateEventDecoder<TEvent | CustomPrivateEvent<TType, TFields>>
+
+  getEvent(eventType: string): EventFragment | null
+  eventTypes(): string[]
+  decode(log: Log): TEvent | null
+  decodeAll(receiptOrLogs: TransactionReceipt | readonly Log[]): TEvent[]
+}
+
+export declare function decodePrivateEvent(log: Log): UCEFPrivateEvent | null
+export declare function decodePrivateEvents(receiptOrLogs: TransactionReceipt | readonly Log[]): UCEFPrivateEvent[]
@@ -0,0 +1,171 @@
+const { AbiCoder, EventFragment, Interface, id } = require('ethers')
+
+/**
+ * ABI of the Silent Data Private Event emitted by every UCEF token
+ */
+const PRIVATE_EVENT_ABI = 'event PrivateEvent(address[] allowedViewers, bytes32 indexed eventType, bytes payload)'
+
+const privateEventInterface = new Interface([PRIVATE_EVENT_ABI])
+
+/**
+ * Topic0 of the PrivateEvent log
+ */
+const PRIVATE_EVENT_TOPIC = privateEventInterface.getEvent('PrivateEvent').topicHash
+
+/**
+ * Signatures of the private events emitted by the official UCEF and UCEF3643 contracts, as documented by the
+ * `@custom:signature` tag of each `EVENT_TYPE_*` constant
+ */
+const UCEF_EVENT_SIGNATURES = [
+  'Transfer(address from, address to, uint256 value)',
+  'Approval(address owner, address spender, uint256 value)',
+  'TransferReference(address from, address to, uint256 value, bytes32 reference, bytes memo)',
+  'ViewerPermissionUpdated(address account, address viewer, bool status)',
+  'ViewerGrantUpdated(address account, address viewer, uint64 expiry, uint8 scope)',
+  'SupervisorUpdated(address previousSupervisor, address newSupervisor)',
+  'RegulatorUpdated(address previousRegulator, address newRegulator)',
+  'RoleGranted(bytes32 role, address account, address sender)',
+  'RoleRevoked(bytes32 role, address account, address sender)',
+  'RoleAdminChanged(bytes32 role, bytes32 previousAdminRole, bytes32 newAdminRole)',
+  'TokensFrozen(address userAddress, uint256 amount)',
+  'TokensUnfrozen(address userAddress, uint256 amount)',
+  'AddressFrozen(address userAddress, bool isFrozen, address agent)',
+  'RecoverySuccess(address lostWallet, address newWallet, address investorOnchainID)',
+  'SupplyViewerUpdated(address viewer, bool allowed)',
+  'DelegateChanged(address delegator, address fromDelegate, address toDelegate)',
+  'DelegateVotesChanged(address delegate, uint256 previousVotes, uint256 newVotes)',
+  'VoteTallierUpdated(address tallier, bool allowed)',
+  'Deposit(address sender, address owner, uint256 assets, uint256 shares)',
+  'Withdraw(address sender, address receiver, address owner, uint256 assets, uint256 shares)',
+  'NativeDeposit(address account, uint256 value)',
+  'Withdrawal(address account, uint256 value)',
+  'WithdrawalRequested(uint256 requestId, address owner, address receiver, uint256 value, uint48 readyAt)',
+  'WithdrawalSettled(uint256 requestId, address owner, address receiver, uint256 value)',
+  'WithdrawalFailed(uint256 requestId, address owner, address receiver, uint256 value)',
+  'ClaimViewerUpdated(address viewer, bool registered)',
+  'SettlementCreated(uint256 settlementId, address seller, address buyer, address securities, uint256 securitiesAmount, address cash, uint256 cashAmount)',
+  'SettlementLegLocked(uint256 settlementId, address party, address token, uint256 amount)',
+  'SettlementExecuted(uint256 settlementId)',
+  'SettlementCancelled(uint256 settlementId, address cancelledBy)',
+]
+
+/**
+ * Decodes UCEF PrivateEvent logs into typed objects using a registry of known event signatures
+ */
+class PrivateEventDecoder {
+  /**
+   * @param {string[]} signatures Event signatures to register, defaults to the official UCEF events
+   */
+  constructor(signatures = UCEF_EVENT_SIGNATURES) {
+    this._events = new Map()
+    for (const signature of signatures) {
+      this.register(signature)
+    }
+  }
+
+  /**
+   * Registers an event signature, e.g. `Transfer(address from, address to, uint256 value)`.
+   * The eventType is the keccak256 hash of the canonical signature, matching the `EVENT_TYPE_*`
+   * constants declared by the contracts. Registering an existing eventType replaces it.
+   * @param {string} signature Event signature with named parameters
+   * @returns {PrivateEventDecoder} The decoder itself, to allow chaining
+   */
+  register(signature) {
+    const fragment = EventFragment.from(signature.startsWith('event ') ? signature : `event ${signature}`)
+    for (const input of fragment.inputs) {
+      if (!input.name) {
+        throw new Error(`Missing parameter name in private event signature: ${signature}`)
+      }
+    }
+
+    const eventType = id(fragment.format('sighash'))
+    this._events.set(eventType, fragment)
+    return this
+  }
+
+  /**
+   * Returns the registered event fragment for an eventType hash
+   * @param {string} eventType keccak256 hash of the event signature
+   */
+  getEvent(eventType) {
+    return this._events.get(eventType.toLowerCase()) || null
+  }
+
+  /**
+   * Returns the eventType hashes of all registered events
+   */
+  eventTypes() {
+    return Array.from(this._events.keys())
+  }
+
+  /**
+   * Decodes a single log. Returns null if the log is not a PrivateEvent or its eventType is unknown.
+   * @param {import('ethers').Log} log The log to decode
+   */
+  decode(log) {
+    if (!log.topics || log.topics[0] !== PRIVATE_EVENT_TOPIC) {
+      return null
+    }
+
+    const parsed = privateEventInterface.parseLog({ topics: [...log.topics], data: log.data })
+    if (!parsed) {
+      return null
+    }
+
+    const eventType = parsed.args.eventType
+    const fragment = this.getEvent(eventType)
+    if (!fragment) {
+      return null
+    }
+
+    const values = AbiCoder.defaultAbiCoder().decode(fragment.inputs, parsed.args.payload)
+    const event = {
+      type: fragment.name,
+      eventType,
+      allowedViewers: [...parsed.args.allowedViewers],
+      log,
+    }
+    fragment.inputs.forEach((input, index) => {
+      event[input.name] = values[index]
+    })
+
+    return event
+  }
+
+  /**
+   * Decodes all known PrivateEvent logs of a transaction receipt or a list of logs.
+   * Logs which are not PrivateEvents, or have an unknown eventType, are skipped.
+   * @param {import('ethers').TransactionReceipt | import('ethers').Log[]} receiptOrLogs
+   */
+  decodeAll(receiptOrLogs) {
+    const logs = Array.isArray(receiptOrLogs) ? receiptOrLogs : receiptOrLogs.logs
+    return logs.map((log) => this.decode(log)).filter((event) => event !== null)
+  }
+}
+
+const defaultDecoder = new PrivateEventDecoder()
+
+/**
+ * Decodes a single log using the official UCEF event signatures
+ * @param {import('ethers').Log} log The log to decode
+ */
+function decodePrivateEvent(log) {
+  return defaultDecoder.decode(log)
+}
+
+/**
+ * Decodes the logs of a receipt using the official UCEF event signatures
+ * @param {import('ethers').TransactionReceipt | import('ethers').Log[]} receiptOrLogs
+ */
+function decodePrivateEvents(receiptOrLogs) {
+  return defaultDecoder.decodeAll(receiptOrLogs)
+}
+
+module.exports = {
+  PRIVATE_EVENT_ABI,
+  PRIVATE_EVENT_TOPIC,
+  UCEF_EVENT_SIGNATURES,
+  PrivateEventDecoder,
+  decodePrivateEvent,
+  decodePrivateEvents,
+}
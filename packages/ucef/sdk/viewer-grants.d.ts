@@ -0,0 +1,71 @@
+import { BigNumberish, ContractRunner, Signer, TypedDataField } from 'ethers'
+
+export declare const VIEWER_SCOPES: {
+  balance: bigint
+  transferEvents: bigint
+  allowances: bigint
+}
+
+export declare const VIEWER_GRANT_TYPES: Record<string, TypedDataField[]>
+export declare const REVOKE_VIEWER_TYPES: Record<string, TypedDataField[]>
+
+export interface SignedViewerGrant {
+  account: string
+  viewer: string
+  expiry: BigNumberish
+  scope: BigNumberish
+  deadline: BigNumberish
+  v: number
+  r: string
+  s: string
+}
+
+export interface SignedViewerRevocation {
+  account: string
+  viewer: string
+  deadline: BigNumberish
+  v: number
+  r: string
+  s: string
+}
+
+/**
+ * Builds and signs a GrantViewer message, returning the arguments of `grantViewerBySig` so a relayer can submit it
+ */
+export declare function signViewerGrant(
+  signer: Signer,
+  token: string,
+  grant: { viewer: string; expiry: BigNumberish; scope: BigNumberish; deadline: BigNumberish },
+): Promise<SignedViewerGrant>
+
+/**
+ * Builds and signs a RevokeViewer message, returning the arguments of `revokeViewerBySig` so a relayer can submit it
+ */
+export declare function signViewerRevocation(
+  signer: Signer,
+  token: string,
+  revocation: { viewer: string; deadline: BigNumberish },
+): Promise<SignedViewerRevocation>
+
+export interface ViewerGrantState {
+  viewer: string
+  expiry: bigint
+  scope: bigint
+  scopes: Array<keyof typeof VIEWER_SCOPES>
+}
+
+export interface SharingState {
+  account: string
+  supervisor: string
+  viewers: ViewerGrantState[]
+}
+
+/**
+ * Reads the current sharing state of an account. The runner must be the account or its supervisor.
+ */
+export declare function getSharingState(runner: ContractRunner, token: string, account: string): Promise<SharingState>
+
+/**
+ * Renders a sharing state as human readable text
+ */
+export declare function formatSharingState(state: SharingState): string
@@ -0,0 +1,161 @@
+const { Contract, Signature } = require('ethers')
+
+/**
+ * EIP-712 types of the signed viewer grants accepted by UCEFSharableBySig
+ */
+const VIEWER_GRANT_TYPES = {
+  GrantViewer: [
+    { name: 'account', type: 'address' },
+    { name: 'viewer', type: 'address' },
+    { name: 'expiry', type: 'uint64' },
+    { name: 'scope', type: 'uint8' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+}
+
+const REVOKE_VIEWER_TYPES = {
+  RevokeViewer: [
+    { name: 'account', type: 'address' },
+    { name: 'viewer', type: 'address' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+}
+
+/**
+ * Scope flags of the viewer grants, matching the SCOPE_* constants of UCEFSharable
+ */
+const VIEWER_SCOPES = {
+  balance: 1n,
+  transferEvents: 2n,
+  allowances: 4n,
+}
+
+const NO_EXPIRY = 2n ** 64n - 1n
+
+const SHARABLE_ABI = [
+  'function supervisor() view returns (address)',
+  'function viewersOf(address account) view returns (address[])',
+  'function viewerGrant(address account, address viewer) view returns (uint64 expiry, uint8 scope)',
+]
+
+const SHARABLE_BY_SIG_ABI = [
+  'function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)',
+  'function nonces(address account) view returns (uint256)',
+]
+
+/**
+ * Reads the EIP-712 domain and the current nonce of `account` from the token
+ * @param {import('ethers').ContractRunner} runner Runner used for the calls
+ * @param {string} token Address of the token
+ * @param {string} account Account signing the message
+ */
+async function getSigningContext(runner, token, account) {
+  const contract = new Contract(token, SHARABLE_BY_SIG_ABI, runner)
+  const [domain, nonce] = await Promise.all([contract.eip712Domain(), contract.nonces(account)])
+
+  return {
+    domain: {
+      name: domain.name,
+      version: domain.version,
+      chainId: domain.chainId,
+      verifyingContract: domain.verifyingContract,
+    },
+    nonce,
+  }
+}
+
+/**
+ * Builds and signs a GrantViewer message, returning the arguments of `grantViewerBySig` so a relayer can submit it
+ * @param {import('ethers').Signer} signer Account granting the permission
+ * @param {string} token Address of the UCEFSharableBySig token
+ * @param {object} grant
+ * @param {string} grant.viewer Address to grant viewing permission to
+ * @param {bigint | number} grant.expiry Timestamp at which the grant expires
+ * @param {bigint | number} grant.scope Scope flags of the grant
+ * @param {bigint | number} grant.deadline Timestamp after which the signature is no longer valid
+ */
+async function signViewerGrant(signer, token, { viewer, expiry, scope, deadline }) {
+  const account = await signer.getAddress()
+  const { domain, nonce } = await getSigningContext(signer, token, account)
+
+  const message = { account, viewer, expiry, scope, nonce, deadline }
+  const { v, r, s } = Signature.from(await signer.signTypedData(domain, VIEWER_GRANT_TYPES, message))
+
+  return { account, viewer, expiry, scope, deadline, v, r, s }
+}
+
+/**
+ * Builds and signs a RevokeViewer message, returning the arguments of `revokeViewerBySig` so a relayer can submit it
+ * @param {import('ethers').Signer} signer Account revoking the permission
+ * @param {string} token Address of the UCEFSharableBySig token
+ * @param {object} revocation
+ * @param {string} revocation.viewer Address to revoke viewing permission from
+ * @param {bigint | number} revocation.deadline Timestamp after which the signature is no longer valid
+ */
+async function signViewerRevocation(signer, token, { viewer, deadline }) {
+  const account = await signer.getAddress()
+  const { domain, nonce } = await getSigningContext(signer, token, account)
+
+  const message = { account, viewer, nonce, deadline }
+  const { v, r, s } = Signature.from(await signer.signTypedData(domain, REVOKE_VIEWER_TYPES, message))
+
+  return { account, viewer, deadline, v, r, s }
+}
+
+/**
+ * Reads the current sharing state of an account: its supervisor and every viewer holding an active grant
+ * @param {import('ethers').ContractRunner} runner Runner used for the calls, must be the account or the supervisor
+ * @param {string} token Address of the UCEFSharable token
+ * @param {string} account Account whose sharing state to read
+ */
+async function getSharingState(runner, token, account) {
+  const contract = new Contract(token, SHARABLE_ABI, runner)
+  const [supervisor, viewers] = await Promise.all([contract.supervisor(), contract.viewersOf(account)])
+
+  const grants = await Promise.all(
+    viewers.map(async (viewer) => {
+      const { expiry, scope } = await contract.viewerGrant(account, viewer)
+      return {
+        viewer,
+        expiry,
+        scope,
+        scopes: Object.keys(VIEWER_SCOPES).filter((name) => (scope & VIEWER_SCOPES[name]) !== 0n),
+      }
+    }),
+  )
+
+  return { account, supervisor, viewers: grants }
+}
+
+/**
+ * Renders a sharing state returned by {@link getSharingState} as human readable text
+ * @param {Awaited<ReturnType<typeof getSharingState>>} state
+ */
+function formatSharingState(state) {
+  const lines = [`Account: ${state.account}`]
+  lines.push(`Supervisor: ${BigInt(state.supervisor) === 0n ? 'disabled' : state.supervisor}`)
+
+  if (state.viewers.length === 0) {
+    lines.push('Viewers: none')
+  } else {
+    lines.push('Viewers:')
+    for (const { viewer, expiry, scopes } of state.viewers) {
+      const expiresAt = expiry === NO_EXPIRY ? 'never' : new Date(Number(expiry) * 1000).toISOString()
+      lines.push(`  - ${viewer} [${scopes.join(', ')}] expires ${expiresAt}`)
+    }
+  }
+
+  return lines.join('\n')
+}
+
+module.exports = {
+  VIEWER_SCOPES,
+  VIEWER_GRANT_TYPES,
+  REVOKE_VIEWER_TYPES,
+  signViewerGrant,
+  signViewerRevocation,
+  getSharingState,
+  formatSharingState,
+}
@@ -0,0 +1,84 @@
+import fs from 'fs'
+import { ethers } from 'hardhat'
+import { UCEF, UCEFContracts } from '@appliedblockchain/ucef'
+import { waitTx } from './utils'
+
+/**
+ * Sends confidential transfers to every recipient of a CSV file, in chunks of `BATCH_SIZE` recipients per transaction.
+ *
+ * Each line of the CSV holds a recipient address and an amount in token units, e.g. `0xabc...,12.5`.
+ * A header line, blank lines and lines starting with `#` are skipped.
+ *
+ * Environment:
+ * - TOKEN_ADDRESS: address of the UCEF token
+ * - CSV_PATH: path to the CSV file
+ * - BATCH_SIZE: number of recipients per transaction, defaults to 100
+ * - FROM_ADDRESS: optional, sends with batchTransferFrom on behalf of this address using the allowance of the signer
+ */
+
+const DEFAULT_BATCH_SIZE = 100
+
+type Recipient = { to: string; amount: bigint }
+
+function parseRecipients(content: string, decimals: bigint): Recipient[] {
+  const recipients: Recipient[] = []
+  let firstLine = true
+
+  for (const [index, rawLine] of content.split(/\r?\n/).entries()) {
+    const line = rawLine.trim()
+    if (!line || line.startsWith('#')) {
+      continue
+    }
+
+    const [to, amount] = line.split(',').map((value) => value.trim())
+    const isHeader = firstLine && !ethers.isAddress(to)
+    firstLine = false
+    if (isHeader) {
+      continue
+    }
+    if (!ethers.isAddress(to)) {
+      throw new Error(`Invalid recipient address on line ${index + 1}: ${to}`)
+    }
+    if (!amount) {
+      throw new Error(`Missing amount on line ${index + 1}`)
+    }
+
+    recipients.push({ to: ethers.getAddress(to), amount: ethers.parseUnits(amount, decimals) })
+  }
+
+  return recipients
+}
+
+;(async () => {
+  const tokenAddress = process.env.TOKEN_ADDRESS
+  const csvPath = process.env.CSV_PATH
+  const batchSize = Number(process.env.BATCH_SIZE ?? DEFAULT_BATCH_SIZE)
+  const fromAddress = process.env.FROM_ADDRESS
+
+  if (!tokenAddress || !csvPath) {
+    throw new Error('TOKEN_ADDRESS and CSV_PATH must be set')
+  }
+  if (!Number.isInteger(batchSize) || batchSize <= 0) {
+    throw new Error(`Invalid BATCH_SIZE: ${process.env.BATCH_SIZE}`)
+  }
+
+  const [signer] = await ethers.getSigners()
+  const token = (await ethers.getContractAt(UCEFContracts.UCEF.abi, tokenAddress, signer)) as unknown as UCEF
+
+  const recipients = parseRecipients(fs.readFileSync(csvPath, 'utf8'), await token.decimals())
+  const total = recipients.reduce((sum, { amount }) => sum + amount, 0n)
+  console.log(`Sending ${recipients.length} transfers (${total} base units) in batches of ${batchSize}`)
+
+  for (let start = 0; start < recipients.length; start += batchSize) {
+    const batch = recipients.slice(start, start + batchSize)
+    const to = batch.map((recipient) => recipient.to)
+    const amounts = batch.map((recipient) => recipient.amount)
+
+    const tx = fromAddress
+      ? await token.batchTransferFrom(fromAddress, to, amounts)
+      : await token.batchTransfer(to, amounts)
+    await waitTx(tx)
+
+    console.log(`Batch ${start / batchSize + 1}: recipients ${start + 1}-${start + batch.length}, tx ${tx.hash}`)
+  }
+})()
@@ -24,6 +24,14 @@ const exportPrivateKeys = process.env.EXPORT_PRIVATE_KEYS === 'true'
           tokenOID: await result.suite.tokenOID.getAddress(),
           token: await result.suite.token.getAddress(),
         },
+        complianceModules: result.complianceModules
+          ? {
+              maxBalanceModule: await result.complianceModules.maxBalanceModule.getAddress(),
+              maxHoldersModule: await result.complianceModules.maxHoldersModule.getAddress(),
+              countryRestrictionsModule: await result.complianceModules.countryRestrictionsModule.getAddress(),
+              dailyTransferLimitModule: await result.complianceModules.dailyTransferLimitModule.getAddress(),
+            }
+          : undefined,
         authorities: {
           identityImplementationAuthority: await result.authorities.identityImplementationAuthority.getAddress(),
           trexImplementationAuthority: await result.authorities.trexImplementationAuthority.getAddress(),
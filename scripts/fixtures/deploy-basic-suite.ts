@@ -1,4 +1,5 @@
 import { ethers } from 'hardhat'
+import { BaseContract, Signer } from 'ethers'
 import pc from 'picocolors'
 import OnchainID from '@onchain-id/solidity'
 import { UCEF3643Contracts } from '@appliedblockchain/ucef-3643'
@@ -13,10 +14,20 @@ import {
   TrustedIssuersRegistry,
   TREXFactory,
   Identity,
+  UCEFCountryRestrictionsModule,
+  UCEFDailyTransferLimitModule,
+  UCEFMaxBalanceModule,
+  UCEFMaxHoldersModule,
 } from '@appliedblockchain/ucef-3643/types'
 import TREX from '@tokenysolutions/t-rex'
 import { deployContractWithAbi, deployIdentityProxy, waitTx, Signers } from '../utils'
 
+// Settings of the compliance modules bound to the default compliance
+const MAX_BALANCE = 1_000_000n
+const MAX_HOLDERS = 1_000n
+const DAILY_TRANSFER_LIMIT = 100_000n
+const DENIED_COUNTRIES = [408] // numeric ISO 3166-1 codes
+
 export async function deployBasicSuite(signers: Signers) {
   const {
     deployer,
@@ -135,6 +146,7 @@ export async function deployBasicSuite(signers: Signers) {
   )
   console.log(pc.gray('DefaultCompliance'))
   const defaultCompliance = await deployContractWithAbi<ModularCompliance>(TREX.contracts.ModularCompliance, deployer)
+  await waitTx(await defaultCompliance.connect(deployer).init())
   console.log(pc.gray('IdentityRegistry'))
   const identityRegistry = await deployContractWithAbi<IdentityRegistry>(
     TREX.contracts.IdentityRegistryProxy,
@@ -172,13 +184,16 @@ export async function deployBasicSuite(signers: Signers) {
     TREX.contracts.Token,
   )
 
-  console.log(pc.yellow('6/15 Binding Identity Registry...'))
+  console.log(pc.yellow('6/15 Binding Identity Registry and Compliance Modules...'))
   await waitTx(
     await identityRegistryStorage.connect(deployer).bindIdentityRegistry(await identityRegistry.getAddress()),
   )
 
   await waitTx(await token.connect(deployer).addAgent(await tokenAgent.getAddress()))
 
+  console.log(pc.gray('Compliance Modules'))
+  const complianceModules = await deployComplianceModules(defaultCompliance, deployer)
+
   console.log(pc.green('Basic suite fixture deployed successfully!'))
 
   return {
@@ -203,6 +218,7 @@ export async function deployBasicSuite(signers: Signers) {
       tokenOID,
       token,
     },
+    complianceModules,
     authorities: {
       trexImplementationAuthority,
       identityImplementationAuthority,
@@ -222,3 +238,51 @@ export async function deployBasicSuite(signers: Signers) {
     },
   }
 }
+
+/**
+ * Deploy the UCEF3643-aware compliance modules, bind them to the compliance and configure them
+ * The modules read balances from the token, so they can only be used with UCEF3643 tokens
+ */
+async function deployComplianceModules(compliance: ModularCompliance, deployer: Signer) {
+  const maxBalanceModule = await deployContractWithAbi<UCEFMaxBalanceModule>(
+    UCEF3643Contracts.UCEFMaxBalanceModule,
+    deployer,
+  )
+  const maxHoldersModule = await deployContractWithAbi<UCEFMaxHoldersModule>(
+    UCEF3643Contracts.UCEFMaxHoldersModule,
+    deployer,
+  )
+  const countryRestrictionsModule = await deployContractWithAbi<UCEFCountryRestrictionsModule>(
+    UCEF3643Contracts.UCEFCountryRestrictionsModule,
+    deployer,
+  )
+  const dailyTransferLimitModule = await deployContractWithAbi<UCEFDailyTransferLimitModule>(
+    UCEF3643Contracts.UCEFDailyTransferLimitModule,
+    deployer,
+  )
+
+  const settings: [BaseContract, string][] = [
+    [maxBalanceModule, maxBalanceModule.interface.encodeFunctionData('setMaxBalance', [MAX_BALANCE])],
+    [maxHoldersModule, maxHoldersModule.interface.encodeFunctionData('setMaxHolders', [MAX_HOLDERS])],
+    [
+      countryRestrictionsModule,
+      countryRestrictionsModule.interface.encodeFunctionData('batchSetDeniedCountries', [DENIED_COUNTRIES, true]),
+    ],
+    [
+      dailyTransferLimitModule,
+      dailyTransferLimitModule.interface.encodeFunctionData('setDailyTransferLimit', [DAILY_TRANSFER_LIMIT]),
+    ],
+  ]
+  for (const [module, callData] of settings) {
+    const moduleAddress = await module.getAddress()
+    await waitTx(await compliance.connect(deployer).addModule(moduleAddress))
+    await waitTx(await compliance.connect(deployer).callModuleFunction(callData, moduleAddress))
+  }
+
+  return {
+    maxBalanceModule,
+    maxHoldersModule,
+    countryRestrictionsModule,
+    dailyTransferLimitModule,
+  }
+}
@@ -15,7 +15,12 @@ import {
   ImplementationAuthority,
   ClaimIssuer,
   Identity,
+  UCEFCountryRestrictionsModule,
+  UCEFDailyTransferLimitModule,
+  UCEFMaxBalanceModule,
+  UCEFMaxHoldersModule,
 } from '@appliedblockchain/ucef-3643/types'
+import { UCEF3643Contracts } from '@appliedblockchain/ucef-3643'
 
 interface Suite {
   claimIssuerContract?: ClaimIssuer
@@ -28,6 +33,13 @@ interface Suite {
   token: Token
 }
 
+interface ComplianceModules {
+  maxBalanceModule: UCEFMaxBalanceModule
+  maxHoldersModule: UCEFMaxHoldersModule
+  countryRestrictionsModule: UCEFCountryRestrictionsModule
+  dailyTransferLimitModule: UCEFDailyTransferLimitModule
+}
+
 interface Authorities {
   identityImplementationAuthority: ImplementationAuthority
   trexImplementationAuthority: TREXImplementationAuthority
@@ -57,6 +69,7 @@ interface Identities {
 export interface ImportedSuite {
   accounts: Record<string, Wallet | Signer>
   suite: Suite
+  complianceModules?: ComplianceModules
   authorities: Authorities
   factories: Factories
   implementations: Implementations
@@ -145,6 +158,28 @@ export async function importSuite(filePath: string): Promise<ImportedSuite> {
     token: await Token.attach(suiteJson.suite.token) as Token,
   }
 
+  let complianceModules: ComplianceModules | undefined
+  if (suiteJson.complianceModules) {
+    complianceModules = {
+      maxBalanceModule: (await ethers.getContractAt(
+        UCEF3643Contracts.UCEFMaxBalanceModule.abi,
+        suiteJson.complianceModules.maxBalanceModule,
+      )) as unknown as UCEFMaxBalanceModule,
+      maxHoldersModule: (await ethers.getContractAt(
+        UCEF3643Contracts.UCEFMaxHoldersModule.abi,
+        suiteJson.complianceModules.maxHoldersModule,
+      )) as unknown as UCEFMaxHoldersModule,
+      countryRestrictionsModule: (await ethers.getContractAt(
+        UCEF3643Contracts.UCEFCountryRestrictionsModule.abi,
+        suiteJson.complianceModules.countryRestrictionsModule,
+      )) as unknown as UCEFCountryRestrictionsModule,
+      dailyTransferLimitModule: (await ethers.getContractAt(
+        UCEF3643Contracts.UCEFDailyTransferLimitModule.abi,
+        suiteJson.complianceModules.dailyTransferLimitModule,
+      )) as unknown as UCEFDailyTransferLimitModule,
+    }
+  }
+
   const authorities: Authorities = {
     identityImplementationAuthority: await ImplementationAuthority.attach(
       suiteJson.authorities.identityImplementationAuthority,
@@ -193,6 +228,7 @@ export async function importSuite(filePath: string): Promise<ImportedSuite> {
   return {
     accounts: signers,
     suite,
+    complianceModules,
     authorities,
     factories,
     implementations,
@@ -1,10 +1,19 @@
-import { Signer } from 'ethers'
+import { Signer, TransactionReceipt } from 'ethers'
 import { expect } from 'chai'
 import { ethers } from 'hardhat'
+import { decodePrivateEvents } from '@appliedblockchain/ucef'
 import { UCEF3643, UCEF3643Contracts } from '@appliedblockchain/ucef-3643'
 import MockTokenImplementation from '@appliedblockchain/ucef-3643/artifacts/contracts/mocks/MockNewTokenImplementation.sol/MockNewTokenImplementation.json'
-import { MockCompliance, MockIdentityRegistry, MockTrexImplementationAuthority } from '../typechain-types'
+import {
+  MockClaimIssuer,
+  MockCompliance,
+  MockIdentity,
+  MockIdentityRegistry,
+  MockTrexImplementationAuthority,
+  MockTrustedIssuersRegistry,
+} from '../typechain-types'
 import { deployToken3643 } from './fixtures/deploy-3643'
+import { expectPrivateEvent } from './fixtures/private-events'
 
 describe('UCEF3643', function () {
   let token: UCEF3643
@@ -15,6 +24,7 @@ describe('UCEF3643', function () {
   let addr2: Signer
   let addr2Address: string
   let agent: Signer
+  let agentAddress: string
   let mockIdentityRegistry: MockIdentityRegistry
   let mockCompliance: MockCompliance
   let trexIAuthority: MockTrexImplementationAuthority
@@ -25,6 +35,7 @@ describe('UCEF3643', function () {
     ownerAddress = await owner.getAddress()
     addr1Address = await addr1.getAddress()
     addr2Address = await addr2.getAddress()
+    agentAddress = await agent.getAddress()
 
     // Deploy UCEF3643 token
     const {
@@ -219,15 +230,342 @@ describe('UCEF3643', function () {
       await expect(token.connect(addr2).balanceOf(addr1Address)).to.be.revertedWith('Unauthorized balance access')
     })
 
-    it('Should return balance if user is checking his own identity balance', async function () {
-      expect(await token.connect(addr1).balanceOf('0x26291175Fa0Ea3C8583fEdEB56805eA68289b105')).to.equal(0)
+    it('Should not return the balance of the identity contract of the user', async function () {
+      await expect(token.connect(addr1).balanceOf('0x26291175Fa0Ea3C8583fEdEB56805eA68289b105')).to.be.revertedWith(
+        'Unauthorized balance access',
+      )
+    })
+  })
+
+  describe('Identity Key Balance Access', function () {
+    const BALANCE = ethers.parseEther('1000')
+    let identity: MockIdentity
+    let investorWallet: Signer
+    let investorWalletAddress: string
+
+    beforeEach(async function () {
+      investorWallet = (await ethers.getSigners())[4]
+      investorWalletAddress = await investorWallet.getAddress()
+
+      const MockIdentity = await ethers.getContractFactory('MockIdentity')
+      identity = (await MockIdentity.deploy()) as unknown as MockIdentity
+      await identity.waitForDeployment()
+      const identityAddress = await identity.getAddress()
+
+      // addr1 and investorWallet are both linked to the same ONCHAINID
+      await mockIdentityRegistry.registerIdentity(addr1Address, identityAddress, 42)
+      await mockIdentityRegistry.registerIdentity(investorWalletAddress, identityAddress, 42)
+      await token.connect(agent).mint(addr1Address, BALANCE)
+      await token.connect(agent).freezePartialTokens(addr1Address, ethers.parseEther('100'))
+    })
+
+    it('Should allow a MANAGEMENT key of the identity to view the wallet balance', async function () {
+      await identity.setKeyPurpose(addr2Address, 1, true)
+
+      expect(await token.connect(addr2).balanceOf(addr1Address)).to.equal(BALANCE)
+      expect(await token.connect(addr2).getFrozenTokens(addr1Address)).to.equal(ethers.parseEther('100'))
+      expect(await token.connect(addr2).isFrozen(addr1Address)).to.be.false
+    })
+
+    it('Should allow an ACTION key of the identity to view the wallet balance', async function () {
+      await identity.setKeyPurpose(addr2Address, 2, true)
+
+      expect(await token.connect(addr2).balanceOf(addr1Address)).to.equal(BALANCE)
+    })
+
+    it('Should not allow keys with other purposes to view the wallet balance', async function () {
+      // CLAIM signer key
+      await identity.setKeyPurpose(addr2Address, 3, true)
+
+      await expect(token.connect(addr2).balanceOf(addr1Address)).to.be.revertedWith('Unauthorized balance access')
+    })
+
+    it('Should allow the keys of the identity to view every wallet linked to it', async function () {
+      await identity.setKeyPurpose(addr1Address, 1, true)
+      await token.connect(agent).mint(investorWalletAddress, BALANCE / 2n)
+
+      expect(await token.connect(addr1).balanceOf(investorWalletAddress)).to.equal(BALANCE / 2n)
+      await expect(token.connect(investorWallet).balanceOf(addr1Address)).to.be.revertedWith(
+        'Unauthorized balance access',
+      )
+    })
+
+    it('Should stop allowing access once the key is removed', async function () {
+      await identity.setKeyPurpose(addr2Address, 2, true)
+      await identity.setKeyPurpose(addr2Address, 2, false)
+
+      await expect(token.connect(addr2).balanceOf(addr1Address)).to.be.revertedWith('Unauthorized balance access')
+    })
+
+    it('Should deny access when the registered identity does not implement keyHasPurpose', async function () {
+      await mockIdentityRegistry.registerIdentity(addr1Address, await mockCompliance.getAddress(), 42)
+
+      await expect(token.connect(addr2).balanceOf(addr1Address)).to.be.revertedWith('Unauthorized balance access')
+    })
+  })
+
+  describe('Claim Viewers', function () {
+    const BALANCE = ethers.parseEther('1000')
+    const AUDITOR_TOPIC = ethers.id('AUDITOR')
+    let auditor: Signer
+    let auditorAddress: string
+    let auditorIdentityAddress: string
+    let claimIssuer: MockClaimIssuer
+    let trustedIssuersRegistry: MockTrustedIssuersRegistry
+
+    beforeEach(async function () {
+      auditor = (await ethers.getSigners())[5]
+      auditorAddress = await auditor.getAddress()
+
+      const MockClaimIssuer = await ethers.getContractFactory('MockClaimIssuer')
+      claimIssuer = (await MockClaimIssuer.deploy()) as unknown as MockClaimIssuer
+      await claimIssuer.waitForDeployment()
+
+      const MockTrustedIssuersRegistry = await ethers.getContractFactory('MockTrustedIssuersRegistry')
+      trustedIssuersRegistry = (await MockTrustedIssuersRegistry.deploy()) as unknown as MockTrustedIssuersRegistry
+      await trustedIssuersRegistry.waitForDeployment()
+      await trustedIssuersRegistry.setTrustedIssuers(AUDITOR_TOPIC, [await claimIssuer.getAddress()])
+      await mockIdentityRegistry.setIssuersRegistry(await trustedIssuersRegistry.getAddress())
+
+      // The auditor identity carries an AUDITOR claim from the trusted issuer
+      const MockIdentity = await ethers.getContractFactory('MockIdentity')
+      const auditorIdentity = (await MockIdentity.deploy()) as unknown as MockIdentity
+      await auditorIdentity.waitForDeployment()
+      auditorIdentityAddress = await auditorIdentity.getAddress()
+      await auditorIdentity.addClaim(AUDITOR_TOPIC, await claimIssuer.getAddress())
+      await mockIdentityRegistry.registerIdentity(auditorAddress, auditorIdentityAddress, 0)
+
+      await token.setViewerClaimTopics([AUDITOR_TOPIC])
+
+      await mockIdentityRegistry.setIdentity(addr1Address, 1, true)
+      await token.connect(agent).mint(addr1Address, BALANCE)
+    })
+
+    it('Should allow holders of a valid viewer claim to view balances and frozen tokens', async function () {
+      expect(await token.viewerClaimTopics()).to.deep.equal([AUDITOR_TOPIC])
+      expect(await token.hasViewerClaim(auditorAddress)).to.be.true
+      expect(await token.connect(auditor).balanceOf(addr1Address)).to.equal(BALANCE)
+      expect(await token.connect(auditor).getFrozenTokens(addr1Address)).to.equal(0)
+    })
+
+    it('Should not allow claim holders to view balances without viewer claim topics', async function () {
+      await expect(token.setViewerClaimTopics([])).to.emit(token, 'ViewerClaimTopicsUpdated').withArgs([])
+
+      expect(await token.hasViewerClaim(auditorAddress)).to.be.false
+      await expect(token.connect(auditor).balanceOf(addr1Address)).to.be.revertedWith('Unauthorized balance access')
+    })
+
+    it('Should not allow claims from issuers that are not trusted', async function () {
+      await trustedIssuersRegistry.setTrustedIssuers(AUDITOR_TOPIC, [])
+
+      await expect(token.connect(auditor).balanceOf(addr1Address)).to.be.revertedWith('Unauthorized balance access')
+    })
+
+    it('Should not allow revoked claims', async function () {
+      await claimIssuer.setClaimRevoked(auditorIdentityAddress, AUDITOR_TOPIC, true)
+
+      expect(await token.hasViewerClaim(auditorAddress)).to.be.false
+      await expect(token.connect(auditor).balanceOf(addr1Address)).to.be.revertedWith('Unauthorized balance access')
+    })
+
+    it('Should not allow identities that do not implement getClaim', async function () {
+      await mockIdentityRegistry.registerIdentity(auditorAddress, await trustedIssuersRegistry.getAddress(), 0)
+
+      expect(await token.hasViewerClaim(auditorAddress)).to.be.false
+      await expect(token.connect(auditor).balanceOf(addr1Address)).to.be.revertedWith('Unauthorized balance access')
+    })
+
+    it('Should not allow claims for other topics', async function () {
+      await token.setViewerClaimTopics([ethers.id('REGULATOR')])
+
+      await expect(token.connect(auditor).balanceOf(addr1Address)).to.be.revertedWith('Unauthorized balance access')
+    })
+
+    it('Should only allow the owner to set the viewer claim topics', async function () {
+      await expect(token.connect(agent).setViewerClaimTopics([AUDITOR_TOPIC])).to.be.revertedWith(
+        'Ownable: caller is not the owner',
+      )
+    })
+
+    it('Should include registered claim viewers in private events', async function () {
+      const registerTx = await token.connect(auditor).addClaimViewer(auditorAddress)
+      expect(await token.isClaimViewer(auditorAddress)).to.be.true
+
+      const [registered] = decodePrivateEvents((await registerTx.wait()) as TransactionReceipt)
+      expectPrivateEvent(registered, 'ClaimViewerUpdated')
+      expect(registered.viewer).to.equal(auditorAddress)
+      expect(registered.registered).to.be.true
+      expect(registered.allowedViewers).to.deep.equal([auditorAddress, agentAddress, ownerAddress])
+
+      const tx = await token.connect(agent).mint(addr1Address, BALANCE)
+      const [event] = decodePrivateEvents((await tx.wait()) as TransactionReceipt)
+      expect(event.allowedViewers).to.deep.equal([addr1Address, agentAddress, ownerAddress, auditorAddress])
+    })
+
+    it('Should not include registered claim viewers once the viewer claim topics are cleared', async function () {
+      await token.addClaimViewer(auditorAddress)
+      await token.setViewerClaimTopics([])
+
+      const tx = await token.connect(agent).mint(addr1Address, BALANCE)
+      const [event] = decodePrivateEvents((await tx.wait()) as TransactionReceipt)
+      expect(event.allowedViewers).to.deep.equal([addr1Address, agentAddress, ownerAddress])
+    })
+
+    it('Should not register addresses without a viewer claim', async function () {
+      await expect(token.addClaimViewer(addr2Address)).to.be.revertedWith('no viewer claim')
+    })
+
+    it('Should only allow removing claim viewers once their claim is no longer valid', async function () {
+      await token.addClaimViewer(auditorAddress)
+      await expect(token.connect(addr2).removeClaimViewer(auditorAddress)).to.be.revertedWith(
+        'viewer claim still valid',
+      )
+
+      await claimIssuer.setClaimRevoked(auditorIdentityAddress, AUDITOR_TOPIC, true)
+      const tx = await token.connect(addr2).removeClaimViewer(auditorAddress)
+      expect(await token.isClaimViewer(auditorAddress)).to.be.false
+
+      const [removed] = decodePrivateEvents((await tx.wait()) as TransactionReceipt)
+      expectPrivateEvent(removed, 'ClaimViewerUpdated')
+      expect(removed.registered).to.be.false
+      expect(removed.allowedViewers).to.deep.equal([auditorAddress, addr2Address, agentAddress, ownerAddress])
+    })
+
+    it('Should allow claim viewers to remove themselves', async function () {
+      await token.addClaimViewer(auditorAddress)
+      await token.connect(auditor).removeClaimViewer(auditorAddress)
+
+      expect(await token.isClaimViewer(auditorAddress)).to.be.false
+    })
+  })
+
+  describe('Balance Visibility', function () {
+    const BALANCE = ethers.parseEther('1000')
+    let regulator: Signer
+    let regulatorAddress: string
+
+    beforeEach(async function () {
+      regulator = (await ethers.getSigners())[4]
+      regulatorAddress = await regulator.getAddress()
+
+      await mockIdentityRegistry.setIdentity(addr1Address, 1, true)
+      await mockIdentityRegistry.setVerified(addr1Address, true)
+      await token.connect(agent).mint(addr1Address, BALANCE)
+      await token.connect(agent).freezePartialTokens(addr1Address, ethers.parseEther('100'))
+    })
+
+    it('Should not allow agents, owner or regulator to view balances by default', async function () {
+      await token.setRegulator(regulatorAddress)
+
+      expect(await token.balanceViewers()).to.equal(0)
+      await expect(token.connect(agent).balanceOf(addr1Address)).to.be.revertedWith('Unauthorized balance access')
+      await expect(token.connect(owner).balanceOf(addr1Address)).to.be.revertedWith('Unauthorized balance access')
+      await expect(token.connect(regulator).balanceOf(addr1Address)).to.be.revertedWith('Unauthorized balance access')
+    })
+
+    it('Should allow agents to view balances and frozen tokens when enabled', async function () {
+      await expect(token.setBalanceViewers(await token.BALANCE_VIEWERS_AGENTS()))
+        .to.emit(token, 'BalanceViewersUpdated')
+        .withArgs(await token.BALANCE_VIEWERS_AGENTS())
+
+      expect(await token.connect(agent).balanceOf(addr1Address)).to.equal(BALANCE)
+      expect(await token.connect(agent).getFrozenTokens(addr1Address)).to.equal(ethers.parseEther('100'))
+      await expect(token.connect(owner).balanceOf(addr1Address)).to.be.revertedWith('Unauthorized balance access')
+    })
+
+    it('Should stop allowing removed agents to view balances', async function () {
+      await token.setBalanceViewers(await token.BALANCE_VIEWERS_AGENTS())
+      await token.removeAgent(agentAddress)
+
+      await expect(token.connect(agent).balanceOf(addr1Address)).to.be.revertedWith('Unauthorized balance access')
+    })
+
+    it('Should allow the owner to view balances and frozen tokens when enabled', async function () {
+      await token.setBalanceViewers(await token.BALANCE_VIEWERS_OWNER())
+
+      expect(await token.connect(owner).balanceOf(addr1Address)).to.equal(BALANCE)
+      expect(await token.connect(owner).getFrozenTokens(addr1Address)).to.equal(ethers.parseEther('100'))
+      await expect(token.connect(agent).balanceOf(addr1Address)).to.be.revertedWith('Unauthorized balance access')
+    })
+
+    it('Should allow the regulator to view balances and frozen tokens when enabled', async function () {
+      await token.setBalanceViewers(await token.BALANCE_VIEWERS_REGULATOR())
+      await expect(token.connect(regulator).balanceOf(addr1Address)).to.be.revertedWith('Unauthorized balance access')
+
+      await token.setRegulator(regulatorAddress)
+      expect(await token.regulator()).to.equal(regulatorAddress)
+      expect(await token.connect(regulator).balanceOf(addr1Address)).to.equal(BALANCE)
+      expect(await token.connect(regulator).getFrozenTokens(addr1Address)).to.equal(ethers.parseEther('100'))
+
+      await token.setRegulator(ethers.ZeroAddress)
+      await expect(token.connect(regulator).balanceOf(addr1Address)).to.be.revertedWith('Unauthorized balance access')
+    })
+
+    it('Should announce regulator changes through private events only', async function () {
+      const tx = await token.setRegulator(regulatorAddress)
+
+      const [event] = decodePrivateEvents((await tx.wait()) as TransactionReceipt)
+      expectPrivateEvent(event, 'RegulatorUpdated')
+      expect(event.previousRegulator).to.equal(ethers.ZeroAddress)
+      expect(event.newRegulator).to.equal(regulatorAddress)
+      expect(event.allowedViewers).to.deep.equal([regulatorAddress, agentAddress, ownerAddress])
+    })
+
+    it('Should only allow the owner to configure balance visibility', async function () {
+      await expect(token.connect(agent).setBalanceViewers(1)).to.be.revertedWith('Ownable: caller is not the owner')
+      await expect(token.connect(agent).setRegulator(regulatorAddress)).to.be.revertedWith(
+        'Ownable: caller is not the owner',
+      )
+      await expect(token.setBalanceViewers(8)).to.be.revertedWith('invalid balance viewers')
+    })
+  })
+
+  describe('Frozen Token Views', function () {
+    beforeEach(async function () {
+      await mockIdentityRegistry.setIdentity(addr1Address, 1, true)
+      await mockIdentityRegistry.setVerified(addr1Address, true)
+      await token.connect(agent).mint(addr1Address, ethers.parseEther('1000'))
+      await token.connect(agent).freezePartialTokens(addr1Address, ethers.parseEther('300'))
+      await token.connect(agent).setAddressFrozen(addr1Address, true)
+    })
+
+    it('Should allow users to view their own frozen tokens and status', async function () {
+      expect(await token.connect(addr1).getFrozenTokens(addr1Address)).to.equal(ethers.parseEther('300'))
+      expect(await token.connect(addr1).isFrozen(addr1Address)).to.be.true
+    })
+
+    it('Should return the balance breakdown', async function () {
+      const [total, frozen, free] = await token.connect(addr1).getBalanceBreakdown(addr1Address)
+      expect(total).to.equal(ethers.parseEther('1000'))
+      expect(frozen).to.equal(ethers.parseEther('300'))
+      expect(free).to.equal(ethers.parseEther('700'))
+    })
+
+    it('Should revert if user tries to access frozen tokens or status of another user', async function () {
+      await expect(token.connect(addr2).getFrozenTokens(addr1Address)).to.be.revertedWith('Unauthorized balance access')
+      await expect(token.connect(addr2).isFrozen(addr1Address)).to.be.revertedWith('Unauthorized balance access')
+      await expect(token.connect(addr2).getBalanceBreakdown(addr1Address)).to.be.revertedWith(
+        'Unauthorized balance access',
+      )
+    })
+
+    it('Should allow balance viewers to access the balance breakdown', async function () {
+      await token.setBalanceViewers(await token.BALANCE_VIEWERS_AGENTS())
+
+      expect(await token.connect(agent).isFrozen(addr1Address)).to.be.true
+      const [total, frozen, free] = await token.connect(agent).getBalanceBreakdown(addr1Address)
+      expect([total, frozen, free]).to.deep.equal([
+        ethers.parseEther('1000'),
+        ethers.parseEther('300'),
+        ethers.parseEther('700'),
+      ])
     })
   })
 
   describe('Token Transfers', function () {
     beforeEach(async function () {
       // Register and verify addr1 identity
-      await mockIdentityRegistry.registerIdentity(addr1Address, 1, true)
+      await mockIdentityRegistry.setIdentity(addr1Address, 1, true)
       await mockIdentityRegistry.setVerified(addr1Address, true)
 
       // Set up mock to allow transfers
@@ -252,18 +590,24 @@ describe('UCEF3643', function () {
     })
 
     it('Should fail if sender is transferring frozen tokens', async function () {
-      expect(await token.connect(agent).freezePartialTokens(addr1Address, ethers.parseEther('1000')))
-        // Should emit TokensFrozen event with zero amount
-        .to.emit(token, 'TokensFrozen')
-        .withArgs(addr1Address, 0n)
+      const freezeTx = await token.connect(agent).freezePartialTokens(addr1Address, ethers.parseEther('1000'))
+      // Should emit TokensFrozen as a private event
+      const freezeReceipt = (await freezeTx.wait()) as TransactionReceipt
+      const topics = freezeReceipt.logs.map((log) => log.topics[0])
+      expect(topics).not.to.include(token.interface.getEvent('TokensFrozen').topicHash)
+      const [frozen] = decodePrivateEvents(freezeReceipt)
+      expectPrivateEvent(frozen, 'TokensFrozen')
+      expect(frozen.userAddress).to.equal(addr1Address)
+      expect(frozen.amount).to.equal(ethers.parseEther('1000'))
       await expect(token.connect(addr1).transfer(addr2Address, ethers.parseEther('100'))).to.be.revertedWith(
         'Insufficient Balance',
       )
 
       // Unfreeze tokens
-      await expect(token.connect(agent).unfreezePartialTokens(addr1Address, ethers.parseEther('1000')))
-        .to.emit(token, 'TokensUnfrozen')
-        .withArgs(addr1Address, 0)
+      const unfreezeTx = await token.connect(agent).unfreezePartialTokens(addr1Address, ethers.parseEther('1000'))
+      const [unfrozen] = decodePrivateEvents((await unfreezeTx.wait()) as TransactionReceipt)
+      expectPrivateEvent(unfrozen, 'TokensUnfrozen')
+      expect(unfrozen.amount).to.equal(ethers.parseEther('1000'))
       await token.connect(addr1).transfer(addr2Address, ethers.parseEther('100'))
       expect(await token.connect(addr2).balanceOf(addr2Address)).to.equal(ethers.parseEther('100'))
     })
@@ -313,7 +657,7 @@ describe('UCEF3643', function () {
   describe('Forced Transfers', function () {
     beforeEach(async function () {
       // Register and verify addr1 identity
-      await mockIdentityRegistry.registerIdentity(addr1Address, 1, true)
+      await mockIdentityRegistry.setIdentity(addr1Address, 1, true)
       await mockIdentityRegistry.setVerified(addr1Address, true)
 
       // Set up mock to allow transfers
@@ -351,10 +695,13 @@ describe('UCEF3643', function () {
     it('Should allow agent to force transfer if tokens are frozen but to account is verified', async function () {
       await mockIdentityRegistry.setVerified(addr2Address, true)
       await token.connect(agent).freezePartialTokens(addr1Address, ethers.parseEther('500'))
-      await expect(token.connect(agent).forcedTransfer(addr1Address, addr2Address, ethers.parseEther('600')))
-        // Should emit TokensUnfrozen event with zero amount
-        .to.emit(token, 'TokensUnfrozen')
-        .withArgs(addr1Address, 0)
+      const tx = await token.connect(agent).forcedTransfer(addr1Address, addr2Address, ethers.parseEther('600'))
+      // Should emit TokensUnfrozen as a private event with the unfrozen amount
+      const [unfrozen, transferred] = decodePrivateEvents((await tx.wait()) as TransactionReceipt)
+      expectPrivateEvent(unfrozen, 'TokensUnfrozen')
+      expectPrivateEvent(transferred, 'Transfer')
+      expect(unfrozen.userAddress).to.equal(addr1Address)
+      expect(unfrozen.amount).to.equal(ethers.parseEther('100'))
       expect(await token.connect(addr2).balanceOf(addr2Address)).to.equal(ethers.parseEther('600'))
     })
 
@@ -383,7 +730,7 @@ describe('UCEF3643', function () {
   describe('Token Burning', function () {
     beforeEach(async function () {
       // Register and verify addr1 identity
-      await mockIdentityRegistry.registerIdentity(addr1Address, 1, true)
+      await mockIdentityRegistry.setIdentity(addr1Address, 1, true)
       await mockIdentityRegistry.setVerified(addr1Address, true)
 
       // Set up mock to allow address 1 to transfer / burn tokens
@@ -411,10 +758,15 @@ describe('UCEF3643', function () {
 
     it('Should burn tokens even though they are frozen', async function () {
       await token.connect(agent).freezePartialTokens(addr1Address, ethers.parseEther('500'))
-      expect(await token.connect(agent).burn(addr1Address, ethers.parseEther('600')))
-        // Should emit TokensUnfrozen event with zero amount
-        .to.emit(token, 'TokensUnfrozen')
-        .withArgs(addr1Address, 0)
+      const tx = await token.connect(agent).burn(addr1Address, ethers.parseEther('600'))
+      // Should emit TokensUnfrozen as a private event with the unfrozen amount
+      const [unfrozen, burned] = decodePrivateEvents((await tx.wait()) as TransactionReceipt)
+      expectPrivateEvent(unfrozen, 'TokensUnfrozen')
+      expect(unfrozen.amount).to.equal(ethers.parseEther('100'))
+      expectPrivateEvent(burned, 'Transfer')
+      expect(burned.from).to.equal(addr1Address)
+      expect(burned.to).to.equal(ethers.ZeroAddress)
+      expect(burned.value).to.equal(ethers.parseEther('600'))
       expect(await token.connect(addr1).balanceOf(addr1Address)).to.equal(ethers.parseEther('400'))
     })
   })
@@ -422,7 +774,7 @@ describe('UCEF3643', function () {
   describe('Token Minting', function () {
     beforeEach(async function () {
       // Register and verify addr1 identity
-      await mockIdentityRegistry.registerIdentity(addr1Address, 1, true)
+      await mockIdentityRegistry.setIdentity(addr1Address, 1, true)
 
       // Set up mock to allow address 1 to transfer / burn tokens
       await mockCompliance.setCanTransfer(addr1Address, true)
@@ -454,13 +806,242 @@ describe('UCEF3643', function () {
     })
   })
 
+  describe('Wallet Recovery', function () {
+    const BALANCE = ethers.parseEther('1000')
+    const FROZEN = ethers.parseEther('300')
+    let identity: MockIdentity
+    let identityAddress: string
+
+    beforeEach(async function () {
+      const MockIdentity = await ethers.getContractFactory('MockIdentity')
+      identity = (await MockIdentity.deploy()) as unknown as MockIdentity
+      await identity.waitForDeployment()
+      identityAddress = await identity.getAddress()
+
+      // Register addr1 with the investor identity and a country to carry over
+      await mockIdentityRegistry.registerIdentity(addr1Address, identityAddress, 42)
+      await mockCompliance.setCanTransfer(addr1Address, true)
+      await token.connect(agent).mint(addr1Address, BALANCE)
+
+      // addr2 is a management key of the investor identity
+      await identity.setKeyPurpose(addr2Address, 1, true)
+    })
+
+    it('Should move the balance to the new wallet and identity', async function () {
+      const tx = await token.connect(agent).recoveryAddress(addr1Address, addr2Address, identityAddress)
+      const receipt = (await tx.wait()) as TransactionReceipt
+      const topics = receipt.logs.map((log) => log.topics[0])
+      expect(topics).not.to.include(token.interface.getEvent('RecoverySuccess').topicHash)
+
+      expect(await token.connect(addr2).balanceOf(addr2Address)).to.equal(BALANCE)
+      expect(await token.connect(addr1).balanceOf(addr1Address)).to.equal(0)
+      expect(await mockIdentityRegistry.isVerified(addr2Address)).to.be.true
+      expect(await mockIdentityRegistry.isVerified(addr1Address)).to.be.false
+      expect(await mockIdentityRegistry.identity(addr2Address)).to.equal(identityAddress)
+      expect(await mockIdentityRegistry.investorCountry(addr2Address)).to.equal(42)
+
+      const events = decodePrivateEvents(receipt)
+      expect(events.map((event) => event.type)).to.deep.equal(['Transfer', 'RecoverySuccess'])
+      const [, recovered] = events
+      expectPrivateEvent(recovered, 'RecoverySuccess')
+      expect(recovered.lostWallet).to.equal(addr1Address)
+      expect(recovered.newWallet).to.equal(addr2Address)
+      expect(recovered.investorOnchainID).to.equal(identityAddress)
+      expect(recovered.allowedViewers).to.deep.equal([addr1Address, addr2Address, agentAddress, ownerAddress])
+    })
+
+    it('Should move the frozen tokens and frozen status to the new wallet', async function () {
+      await token.connect(agent).freezePartialTokens(addr1Address, FROZEN)
+      await token.connect(agent).setAddressFrozen(addr1Address, true)
+
+      const tx = await token.connect(agent).recoveryAddress(addr1Address, addr2Address, identityAddress)
+
+      expect(await token.connect(addr2).getFrozenTokens(addr2Address)).to.equal(FROZEN)
+      expect(await token.connect(addr2).isFrozen(addr2Address)).to.be.true
+      expect(await token.connect(addr1).getFrozenTokens(addr1Address)).to.equal(0)
+      expect(await token.connect(addr1).isFrozen(addr1Address)).to.be.false
+
+      const events = decodePrivateEvents((await tx.wait()) as TransactionReceipt)
+      expect(events.map((event) => event.type)).to.deep.equal([
+        'TokensUnfrozen',
+        'AddressFrozen',
+        'Transfer',
+        'TokensFrozen',
+        'AddressFrozen',
+        'RecoverySuccess',
+      ])
+      const [unfrozen, , , frozen] = events
+      expectPrivateEvent(unfrozen, 'TokensUnfrozen')
+      expectPrivateEvent(frozen, 'TokensFrozen')
+      expect(unfrozen.userAddress).to.equal(addr1Address)
+      expect(unfrozen.amount).to.equal(FROZEN)
+      expect(frozen.userAddress).to.equal(addr2Address)
+      expect(frozen.amount).to.equal(FROZEN)
+    })
+
+    it('Should revert if the new wallet is not a key of the identity', async function () {
+      await identity.setKeyPurpose(addr2Address, 1, false)
+      await expect(
+        token.connect(agent).recoveryAddress(addr1Address, addr2Address, identityAddress),
+      ).to.be.revertedWith('Recovery not possible')
+    })
+
+    it('Should revert if the lost wallet has no tokens', async function () {
+      await expect(
+        token.connect(agent).recoveryAddress(addr2Address, addr1Address, identityAddress),
+      ).to.be.revertedWith('no tokens to recover')
+    })
+
+    it('Should revert if sender is not agent', async function () {
+      await expect(
+        token.connect(addr2).recoveryAddress(addr1Address, addr2Address, identityAddress),
+      ).to.be.revertedWith('AgentRole: caller does not have the Agent role')
+    })
+  })
+
+  describe('Batch Operations', function () {
+    const AMOUNT = ethers.parseEther('100')
+
+    beforeEach(async function () {
+      // Register and verify identities
+      await mockIdentityRegistry.setIdentity(addr1Address, 1, true)
+      await mockIdentityRegistry.setIdentity(addr2Address, 1, true)
+
+      // Set up mock to allow transfers
+      await mockCompliance.setCanTransfer(addr1Address, true)
+      await mockCompliance.setCanTransfer(addr2Address, true)
+    })
+
+    it('Should batch mint tokens', async function () {
+      const tx = await token.connect(agent).batchMint([addr1Address, addr2Address], [AMOUNT, AMOUNT * 2n])
+
+      const events = decodePrivateEvents((await tx.wait()) as TransactionReceipt)
+      expect(events.map((event) => event.type)).to.deep.equal(['Transfer', 'Transfer'])
+      expect(await token.connect(addr1).balanceOf(addr1Address)).to.equal(AMOUNT)
+      expect(await token.connect(addr2).balanceOf(addr2Address)).to.equal(AMOUNT * 2n)
+    })
+
+    describe('With balances', function () {
+      beforeEach(async function () {
+        await token.connect(agent).batchMint([addr1Address, addr2Address], [AMOUNT * 10n, AMOUNT * 10n])
+      })
+
+      it('Should batch transfer tokens with one private event per recipient', async function () {
+        const tx = await token.connect(addr1).batchTransfer([addr2Address, agentAddress], [AMOUNT, AMOUNT * 2n])
+        const receipt = (await tx.wait()) as TransactionReceipt
+        const topics = receipt.logs.map((log) => log.topics[0])
+        expect(topics).not.to.include(token.interface.getEvent('Transfer').topicHash)
+
+        const [toAddr2, toAgent] = decodePrivateEvents(receipt)
+        expectPrivateEvent(toAddr2, 'Transfer')
+        expectPrivateEvent(toAgent, 'Transfer')
+        expect(toAddr2.to).to.equal(addr2Address)
+        expect(toAddr2.value).to.equal(AMOUNT)
+        expect(toAgent.to).to.equal(agentAddress)
+        expect(toAgent.value).to.equal(AMOUNT * 2n)
+        expect(await token.connect(addr1).balanceOf(addr1Address)).to.equal(AMOUNT * 7n)
+      })
+
+      it('Should not batch transfer frozen tokens', async function () {
+        await token.connect(agent).freezePartialTokens(addr1Address, AMOUNT * 9n)
+        await expect(
+          token.connect(addr1).batchTransfer([addr2Address, agentAddress], [AMOUNT, AMOUNT]),
+        ).to.be.revertedWith('Insufficient Balance')
+      })
+
+      it('Should batch force transfer tokens, unfreezing them when needed', async function () {
+        await token.connect(agent).freezePartialTokens(addr1Address, AMOUNT * 10n)
+
+        const tx = await token
+          .connect(agent)
+          .batchForcedTransfer([addr1Address, addr2Address], [addr2Address, addr1Address], [AMOUNT, AMOUNT * 3n])
+
+        const events = decodePrivateEvents((await tx.wait()) as TransactionReceipt)
+        expect(events.map((event) => event.type)).to.deep.equal(['TokensUnfrozen', 'Transfer', 'Transfer'])
+        expect(await token.connect(addr1).balanceOf(addr1Address)).to.equal(AMOUNT * 12n)
+        expect(await token.connect(addr1).getFrozenTokens(addr1Address)).to.equal(AMOUNT * 9n)
+        expect(await token.connect(addr2).balanceOf(addr2Address)).to.equal(AMOUNT * 8n)
+      })
+
+      it('Should batch burn tokens', async function () {
+        await token.connect(agent).batchBurn([addr1Address, addr2Address], [AMOUNT, AMOUNT * 10n])
+
+        expect(await token.connect(addr1).balanceOf(addr1Address)).to.equal(AMOUNT * 9n)
+        expect(await token.connect(addr2).balanceOf(addr2Address)).to.equal(0)
+      })
+
+      it('Should batch freeze and unfreeze partial tokens', async function () {
+        const tx = await token
+          .connect(agent)
+          .batchFreezePartialTokens([addr1Address, addr2Address], [AMOUNT, AMOUNT * 2n])
+
+        const [frozen1, frozen2] = decodePrivateEvents((await tx.wait()) as TransactionReceipt)
+        expectPrivateEvent(frozen1, 'TokensFrozen')
+        expectPrivateEvent(frozen2, 'TokensFrozen')
+        expect(frozen1.userAddress).to.equal(addr1Address)
+        expect(frozen1.amount).to.equal(AMOUNT)
+        expect(frozen2.allowedViewers).to.deep.equal([addr2Address, agentAddress, ownerAddress])
+
+        await token.connect(agent).batchUnfreezePartialTokens([addr1Address, addr2Address], [AMOUNT, AMOUNT])
+        expect(await token.connect(addr1).getFrozenTokens(addr1Address)).to.equal(0)
+        expect(await token.connect(addr2).getFrozenTokens(addr2Address)).to.equal(AMOUNT)
+      })
+
+      it('Should batch freeze addresses', async function () {
+        const tx = await token.connect(agent).batchSetAddressFrozen([addr1Address, addr2Address], [true, false])
+        const receipt = (await tx.wait()) as TransactionReceipt
+        const topics = receipt.logs.map((log) => log.topics[0])
+        expect(topics).not.to.include(token.interface.getEvent('AddressFrozen').topicHash)
+
+        const events = decodePrivateEvents(receipt)
+        expect(events.map((event) => event.type)).to.deep.equal(['AddressFrozen', 'AddressFrozen'])
+        expect(await token.connect(addr1).isFrozen(addr1Address)).to.be.true
+        expect(await token.connect(addr2).isFrozen(addr2Address)).to.be.false
+      })
+
+      it('Should only allow agents to run agent batch operations', async function () {
+        await expect(token.connect(addr1).batchBurn([addr1Address], [AMOUNT])).to.be.revertedWith(
+          'AgentRole: caller does not have the Agent role',
+        )
+        await expect(
+          token.connect(addr1).batchForcedTransfer([addr2Address], [addr1Address], [AMOUNT]),
+        ).to.be.revertedWith('AgentRole: caller does not have the Agent role')
+        await expect(token.connect(addr1).batchFreezePartialTokens([addr2Address], [AMOUNT])).to.be.revertedWith(
+          'AgentRole: caller does not have the Agent role',
+        )
+      })
+    })
+
+    it('Should revert if the batch lists have different lengths', async function () {
+      await expect(token.connect(agent).batchMint([addr1Address, addr2Address], [AMOUNT])).to.be.revertedWith(
+        'batch length mismatch',
+      )
+      await expect(token.connect(addr1).batchTransfer([addr2Address], [])).to.be.revertedWith('batch length mismatch')
+      await expect(
+        token.connect(agent).batchForcedTransfer([addr1Address], [addr2Address, addr1Address], [AMOUNT]),
+      ).to.be.revertedWith('batch length mismatch')
+      await expect(token.connect(agent).batchBurn([addr1Address], [AMOUNT, AMOUNT])).to.be.revertedWith(
+        'batch length mismatch',
+      )
+      await expect(token.connect(agent).batchSetAddressFrozen([addr1Address], [])).to.be.revertedWith(
+        'batch length mismatch',
+      )
+      await expect(token.connect(agent).batchFreezePartialTokens([], [AMOUNT])).to.be.revertedWith(
+        'batch length mismatch',
+      )
+      await expect(token.connect(agent).batchUnfreezePartialTokens([addr1Address], [])).to.be.revertedWith(
+        'batch length mismatch',
+      )
+    })
+  })
+
   describe('Allowances', function () {
     const ALLOWANCE_AMOUNT = ethers.parseEther('100')
 
     beforeEach(async function () {
       // Register and verify identities
-      await mockIdentityRegistry.registerIdentity(addr1Address, 1, true)
-      await mockIdentityRegistry.registerIdentity(addr2Address, 1, true)
+      await mockIdentityRegistry.setIdentity(addr1Address, 1, true)
+      await mockIdentityRegistry.setIdentity(addr2Address, 1, true)
 
       // Set up mock to allow transfers
       await mockCompliance.setCanTransfer(addr1Address, true)
@@ -500,10 +1081,18 @@ describe('UCEF3643', function () {
         expect(allowance).to.equal(ALLOWANCE_AMOUNT)
       })
 
-      it('Should emit Approval event when setting allowance', async function () {
-        await expect(token.connect(addr1).approve(addr2Address, ALLOWANCE_AMOUNT))
-          .to.emit(token, 'Approval')
-          .withArgs(ethers.ZeroAddress, ethers.ZeroAddress, 0n)
+      it('Should emit Approval as a private event when setting allowance', async function () {
+        const tx = await token.connect(addr1).approve(addr2Address, ALLOWANCE_AMOUNT)
+        const receipt = (await tx.wait()) as TransactionReceipt
+        const topics = receipt.logs.map((log) => log.topics[0])
+        expect(topics).not.to.include(token.interface.getEvent('Approval').topicHash)
+
+        const [event] = decodePrivateEvents(receipt)
+        expectPrivateEvent(event, 'Approval')
+        expect(event.owner).to.equal(addr1Address)
+        expect(event.spender).to.equal(addr2Address)
+        expect(event.value).to.equal(ALLOWANCE_AMOUNT)
+        expect(event.allowedViewers).to.deep.equal([addr1Address, addr2Address, agentAddress, ownerAddress])
       })
 
       it('Should not allow setting allowance for zero address spender', async function () {
@@ -636,4 +1225,117 @@ describe('UCEF3643', function () {
       })
     })
   })
+
+  describe('Redacted Errors', function () {
+    beforeEach(async function () {
+      await mockIdentityRegistry.setIdentity(addr1Address, 1, true)
+      await mockIdentityRegistry.setVerified(addr1Address, true)
+      await mockIdentityRegistry.setVerified(addr2Address, true)
+      await mockCompliance.setCanTransfer(addr1Address, true)
+      await token.connect(agent).mint(addr1Address, ethers.parseEther('1000'))
+    })
+
+    it('Should reveal insufficient balances by default', async function () {
+      await expect(
+        token.connect(addr2).transferFrom(addr1Address, addr2Address, ethers.parseEther('1001')),
+      ).to.be.revertedWith('Insufficient Balance')
+    })
+
+    it('Should not reveal insufficient balances to other callers when enabled', async function () {
+      await expect(token.setRedactedErrors(true)).to.emit(token, 'RedactedErrorsUpdated').withArgs(true)
+      expect(await token.redactedErrors()).to.be.true
+
+      // Without allowance the balance can't be probed at all
+      await expect(
+        token.connect(addr2).transferFrom(addr1Address, addr2Address, ethers.parseEther('1001')),
+      ).to.be.revertedWith('Transfer not possible')
+      await expect(
+        token.connect(addr2).transferFrom(addr1Address, addr2Address, ethers.parseEther('1')),
+      ).to.be.revertedWith('Transfer not possible')
+
+      // With allowance an insufficient balance looks like any other failure
+      await token.connect(addr1).approve(addr2Address, ethers.MaxUint256)
+      await expect(
+        token.connect(addr2).transferFrom(addr1Address, addr2Address, ethers.parseEther('1001')),
+      ).to.be.revertedWith('Transfer not possible')
+    })
+
+    it('Should still reveal insufficient balances to the account owner when enabled', async function () {
+      await token.setRedactedErrors(true)
+      await expect(token.connect(addr1).transfer(addr2Address, ethers.parseEther('1001'))).to.be.revertedWith(
+        'Insufficient Balance',
+      )
+    })
+
+    it('Should only allow the owner to enable redacted errors', async function () {
+      await expect(token.connect(agent).setRedactedErrors(true)).to.be.revertedWith('Ownable: caller is not the owner')
+    })
+  })
+
+  describe('Private Events', function () {
+    beforeEach(async function () {
+      // Register and verify identities
+      await mockIdentityRegistry.setIdentity(addr1Address, 1, true)
+      await mockIdentityRegistry.setVerified(addr1Address, true)
+      await mockIdentityRegistry.setVerified(addr2Address, true)
+
+      // Set up mock to allow transfers
+      await mockCompliance.setCanTransfer(addr1Address, true)
+    })
+
+    it('Should emit mints as private Transfer events visible to the parties, agents and owner', async function () {
+      const tx = await token.connect(agent).mint(addr1Address, ethers.parseEther('1000'))
+      const receipt = (await tx.wait()) as TransactionReceipt
+      const topics = receipt.logs.map((log) => log.topics[0])
+      expect(topics).not.to.include(token.interface.getEvent('Transfer').topicHash)
+
+      const [event] = decodePrivateEvents(receipt)
+      expectPrivateEvent(event, 'Transfer')
+      expect(event.from).to.equal(ethers.ZeroAddress)
+      expect(event.to).to.equal(addr1Address)
+      expect(event.value).to.equal(ethers.parseEther('1000'))
+      expect(event.allowedViewers).to.deep.equal([addr1Address, agentAddress, ownerAddress])
+    })
+
+    it('Should emit address freezes as private events', async function () {
+      const tx = await token.connect(agent).setAddressFrozen(addr1Address, true)
+      const receipt = (await tx.wait()) as TransactionReceipt
+      const topics = receipt.logs.map((log) => log.topics[0])
+      expect(topics).not.to.include(token.interface.getEvent('AddressFrozen').topicHash)
+
+      const [event] = decodePrivateEvents(receipt)
+      expectPrivateEvent(event, 'AddressFrozen')
+      expect(event.userAddress).to.equal(addr1Address)
+      expect(event.isFrozen).to.be.true
+      expect(event.agent).to.equal(agentAddress)
+      expect(event.allowedViewers).to.deep.equal([addr1Address, agentAddress, ownerAddress])
+    })
+
+    it('Should only include the configured viewers', async function () {
+      await token.connect(agent).mint(addr1Address, ethers.parseEther('1000'))
+      await expect(token.setEventViewers(await token.EVENT_VIEWERS_PARTIES()))
+        .to.emit(token, 'EventViewersUpdated')
+        .withArgs(await token.EVENT_VIEWERS_PARTIES())
+
+      const tx = await token.connect(addr1).transfer(addr2Address, ethers.parseEther('100'))
+      const [event] = decodePrivateEvents((await tx.wait()) as TransactionReceipt)
+      expect(event.allowedViewers).to.deep.equal([addr1Address, addr2Address])
+    })
+
+    it('Should stop including removed agents', async function () {
+      await token.removeAgent(agentAddress)
+      await token.addAgent(ownerAddress)
+
+      const tx = await token.connect(owner).mint(addr1Address, ethers.parseEther('1000'))
+      const [event] = decodePrivateEvents((await tx.wait()) as TransactionReceipt)
+      expect(event.allowedViewers).to.deep.equal([addr1Address, ownerAddress])
+    })
+
+    it('Should only allow the owner to configure valid event viewers', async function () {
+      expect(await token.eventViewers()).to.equal(await token.EVENT_VIEWERS_ALL())
+      await expect(token.connect(agent).setEventViewers(1)).to.be.revertedWith('Ownable: caller is not the owner')
+      await expect(token.setEventViewers(0)).to.be.revertedWith('invalid event viewers')
+      await expect(token.setEventViewers(8)).to.be.revertedWith('invalid event viewers')
+    })
+  })
 })
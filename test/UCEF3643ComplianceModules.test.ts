@@ -0,0 +1,306 @@
+import { BaseContract, ContractFactory, InterfaceAbi, Signer } from 'ethers'
+import { expect } from 'chai'
+import { ethers } from 'hardhat'
+import { time } from '@nomicfoundation/hardhat-network-helpers'
+import TREX from '@tokenysolutions/t-rex'
+import {
+  UCEF3643,
+  UCEF3643Contracts,
+  UCEFCountryRestrictionsModule,
+  UCEFDailyTransferLimitModule,
+  UCEFMaxBalanceModule,
+  UCEFMaxHoldersModule,
+} from '@appliedblockchain/ucef-3643'
+import { ModularCompliance } from '@appliedblockchain/ucef-3643/types'
+import { MockIdentityRegistry } from '../typechain-types'
+import { deployToken3643 } from './fixtures/deploy-3643'
+
+describe('UCEF3643 Compliance Modules', function () {
+  let token: UCEF3643
+  let compliance: ModularCompliance
+  let mockIdentityRegistry: MockIdentityRegistry
+  let addr1: Signer
+  let addr1Address: string
+  let addr2: Signer
+  let addr2Address: string
+  let agent: Signer
+  let addr3Address: string
+
+  async function deployModule<T extends BaseContract>(artifact: { abi: InterfaceAbi; bytecode: string }) {
+    const [deployer] = await ethers.getSigners()
+    const factory = new ContractFactory(artifact.abi, artifact.bytecode, deployer)
+    const module = (await factory.deploy()) as unknown as T
+    await module.waitForDeployment()
+    await compliance.addModule(await module.getAddress())
+    return module
+  }
+
+  async function callModule(module: BaseContract, functionName: string, args: ReadonlyArray<unknown>) {
+    await compliance.callModuleFunction(
+      module.interface.encodeFunctionData(functionName, args),
+      await module.getAddress(),
+    )
+  }
+
+  beforeEach(async function () {
+    let addr3: Signer
+    ;[, addr1, addr2, agent, addr3] = await ethers.getSigners()
+    addr1Address = await addr1.getAddress()
+    addr2Address = await addr2.getAddress()
+    addr3Address = await addr3.getAddress()
+
+    const { token: token_, mockIdentityRegistry: mockIdentityRegistry_ } = await deployToken3643({
+      agent,
+      name: 'Test Token',
+      symbol: 'TEST',
+      decimals: 18,
+      onchainID: ethers.ZeroAddress,
+    })
+    token = token_
+    mockIdentityRegistry = mockIdentityRegistry_
+
+    // Replace the mock compliance with a ModularCompliance
+    const complianceFactory = await ethers.getContractFactory(
+      TREX.contracts.ModularCompliance.abi,
+      TREX.contracts.ModularCompliance.bytecode,
+    )
+    compliance = (await complianceFactory.deploy()) as unknown as ModularCompliance
+    await compliance.waitForDeployment()
+    await compliance.init()
+    await token.setCompliance(await compliance.getAddress())
+
+    await mockIdentityRegistry.setIdentity(addr1Address, 42, true)
+    await mockIdentityRegistry.setIdentity(addr2Address, 42, true)
+    await mockIdentityRegistry.setIdentity(addr3Address, 666, true)
+  })
+
+  describe('Module Checks', function () {
+    it('Should not run the checks for a compliance other than the token one', async function () {
+      const module = await deployModule<UCEFMaxBalanceModule>(UCEF3643Contracts.UCEFMaxBalanceModule)
+
+      // Any compliance can bind the token and the module, but only the token's one can read its balances
+      const otherCompliance = (await (
+        await ethers.getContractFactory(TREX.contracts.ModularCompliance.abi, TREX.contracts.ModularCompliance.bytecode)
+      ).deploy()) as unknown as ModularCompliance
+      await otherCompliance.init()
+      await otherCompliance.bindToken(await token.getAddress())
+      await otherCompliance.addModule(await module.getAddress())
+
+      await expect(otherCompliance.canTransfer(addr1Address, addr2Address, 1)).to.be.revertedWith(
+        'only token compliance can call',
+      )
+    })
+
+    it('Should only allow the token compliance to run the checks', async function () {
+      const module = await deployModule<UCEFMaxBalanceModule>(UCEF3643Contracts.UCEFMaxBalanceModule)
+
+      await expect(module.moduleCheck(addr1Address, addr2Address, 1, await compliance.getAddress())).to.be.revertedWith(
+        'only token compliance can call',
+      )
+    })
+  })
+
+  describe('UCEFMaxBalanceModule', function () {
+    let module: UCEFMaxBalanceModule
+
+    beforeEach(async function () {
+      module = await deployModule<UCEFMaxBalanceModule>(UCEF3643Contracts.UCEFMaxBalanceModule)
+      await callModule(module, 'setMaxBalance', [ethers.parseEther('1000')])
+    })
+
+    it('Should set the max balance', async function () {
+      expect(await module.getMaxBalance(await compliance.getAddress())).to.equal(ethers.parseEther('1000'))
+      expect(await module.name()).to.equal('UCEFMaxBalanceModule')
+    })
+
+    it('Should not mint above the max balance', async function () {
+      await token.connect(agent).mint(addr1Address, ethers.parseEther('1000'))
+      await expect(token.connect(agent).mint(addr1Address, 1)).to.be.revertedWith('Compliance not followed')
+    })
+
+    it('Should not transfer above the max balance of the receiver', async function () {
+      await token.connect(agent).mint(addr1Address, ethers.parseEther('1000'))
+      await token.connect(agent).mint(addr2Address, ethers.parseEther('500'))
+
+      await token.connect(addr1).transfer(addr2Address, ethers.parseEther('500'))
+      expect(await token.connect(addr2).balanceOf(addr2Address)).to.equal(ethers.parseEther('1000'))
+      await expect(token.connect(addr1).transfer(addr2Address, 1)).to.be.revertedWith('Transfer not possible')
+    })
+
+    it('Should apply the max balance to the wallets of an investor together', async function () {
+      const investorIdentity = ethers.Wallet.createRandom().address
+      await mockIdentityRegistry.registerIdentity(addr1Address, investorIdentity, 42)
+      await mockIdentityRegistry.registerIdentity(addr2Address, investorIdentity, 42)
+
+      await token.connect(agent).mint(addr1Address, ethers.parseEther('600'))
+      await expect(token.connect(agent).mint(addr2Address, ethers.parseEther('500'))).to.be.revertedWith(
+        'Compliance not followed',
+      )
+      await token.connect(agent).mint(addr2Address, ethers.parseEther('400'))
+
+      // Moving tokens between the wallets of the investor doesn't change its balance
+      await token.connect(addr1).transfer(addr2Address, ethers.parseEther('600'))
+      await expect(token.connect(agent).mint(addr1Address, 1)).to.be.revertedWith('Compliance not followed')
+
+      // Tokens leaving the investor make room for new ones
+      await token.connect(addr2).transfer(addr3Address, ethers.parseEther('100'))
+      await token.connect(agent).mint(addr1Address, ethers.parseEther('100'))
+    })
+
+    it('Should free the balance of burnt tokens', async function () {
+      await token.connect(agent).mint(addr1Address, ethers.parseEther('1000'))
+      await token.connect(agent).burn(addr1Address, ethers.parseEther('100'))
+
+      await token.connect(agent).mint(addr1Address, ethers.parseEther('100'))
+    })
+
+    it('Should not be added once the token has supply', async function () {
+      await token.connect(agent).mint(addr1Address, ethers.parseEther('100'))
+      const other = (await (
+        await ethers.getContractFactory(
+          UCEF3643Contracts.UCEFMaxBalanceModule.abi,
+          UCEF3643Contracts.UCEFMaxBalanceModule.bytecode,
+        )
+      ).deploy()) as unknown as UCEFMaxBalanceModule
+
+      await expect(compliance.addModule(await other.getAddress())).to.be.revertedWith(
+        'compliance is not suitable for binding to the module',
+      )
+    })
+  })
+
+  describe('UCEFMaxHoldersModule', function () {
+    let module: UCEFMaxHoldersModule
+
+    beforeEach(async function () {
+      module = await deployModule<UCEFMaxHoldersModule>(UCEF3643Contracts.UCEFMaxHoldersModule)
+      await callModule(module, 'setMaxHolders', [2])
+    })
+
+    it('Should not add holders above the max holders', async function () {
+      await token.connect(agent).mint(addr1Address, ethers.parseEther('100'))
+      await token.connect(agent).mint(addr2Address, ethers.parseEther('100'))
+
+      await expect(token.connect(agent).mint(addr3Address, 1)).to.be.revertedWith('Compliance not followed')
+      await expect(token.connect(addr1).transfer(addr3Address, ethers.parseEther('50'))).to.be.revertedWith(
+        'Transfer not possible',
+      )
+      // Existing holders can still receive tokens
+      await token.connect(agent).mint(addr1Address, ethers.parseEther('100'))
+    })
+
+    it('Should let a holder transfer its whole balance to a new holder', async function () {
+      await token.connect(agent).mint(addr1Address, ethers.parseEther('100'))
+      await token.connect(agent).mint(addr2Address, ethers.parseEther('100'))
+
+      await token.connect(addr1).transfer(addr3Address, ethers.parseEther('100'))
+      expect(await token.connect(addr1).balanceOf(addr1Address)).to.equal(0)
+      await expect(token.connect(agent).mint(addr1Address, 1)).to.be.revertedWith('Compliance not followed')
+    })
+
+    it('Should remove holders whose tokens are burnt', async function () {
+      await token.connect(agent).mint(addr1Address, ethers.parseEther('100'))
+      await token.connect(agent).mint(addr2Address, ethers.parseEther('100'))
+
+      await token.connect(agent).burn(addr2Address, ethers.parseEther('100'))
+      await token.connect(agent).mint(addr3Address, ethers.parseEther('100'))
+    })
+
+    it('Should read balances of wallets whose registered identity is not an ONCHAINID', async function () {
+      // keyHasPurpose is not implemented by the module, which must not prevent it from reading the balance
+      await mockIdentityRegistry.registerIdentity(addr2Address, await module.getAddress(), 42)
+      await token.connect(agent).mint(addr2Address, ethers.parseEther('100'))
+      await token.connect(agent).mint(addr1Address, ethers.parseEther('100'))
+
+      await expect(token.connect(agent).mint(addr3Address, 1)).to.be.revertedWith('Compliance not followed')
+    })
+
+    it('Should not be added once the token has supply', async function () {
+      await token.connect(agent).mint(addr1Address, ethers.parseEther('100'))
+      const other = (await (
+        await ethers.getContractFactory(
+          UCEF3643Contracts.UCEFMaxHoldersModule.abi,
+          UCEF3643Contracts.UCEFMaxHoldersModule.bytecode,
+        )
+      ).deploy()) as unknown as UCEFMaxHoldersModule
+
+      await expect(compliance.addModule(await other.getAddress())).to.be.revertedWith(
+        'compliance is not suitable for binding to the module',
+      )
+    })
+  })
+
+  describe('UCEFCountryRestrictionsModule', function () {
+    let module: UCEFCountryRestrictionsModule
+
+    beforeEach(async function () {
+      module = await deployModule<UCEFCountryRestrictionsModule>(UCEF3643Contracts.UCEFCountryRestrictionsModule)
+      await token.connect(agent).mint(addr1Address, ethers.parseEther('100'))
+    })
+
+    it('Should not transfer to denied countries', async function () {
+      await callModule(module, 'batchSetDeniedCountries', [[666], true])
+      expect(await module.isCountryDenied(await compliance.getAddress(), 666)).to.be.true
+
+      await expect(token.connect(addr1).transfer(addr3Address, 1)).to.be.revertedWith('Transfer not possible')
+      await token.connect(addr1).transfer(addr2Address, 1)
+    })
+
+    it('Should only transfer to allowed countries once the allow list is set', async function () {
+      await token.connect(addr1).transfer(addr3Address, 1)
+
+      await callModule(module, 'batchSetAllowedCountries', [[42], true])
+      expect(await module.isCountryAllowed(await compliance.getAddress(), 42)).to.be.true
+      await expect(token.connect(addr1).transfer(addr3Address, 1)).to.be.revertedWith('Transfer not possible')
+      await token.connect(addr1).transfer(addr2Address, 1)
+
+      await callModule(module, 'batchSetAllowedCountries', [[42], false])
+      await token.connect(addr1).transfer(addr3Address, 1)
+    })
+  })
+
+  describe('UCEFDailyTransferLimitModule', function () {
+    let module: UCEFDailyTransferLimitModule
+
+    beforeEach(async function () {
+      module = await deployModule<UCEFDailyTransferLimitModule>(UCEF3643Contracts.UCEFDailyTransferLimitModule)
+      await callModule(module, 'setDailyTransferLimit', [ethers.parseEther('100')])
+      await token.connect(agent).mint(addr1Address, ethers.parseEther('1000'))
+    })
+
+    it('Should not transfer above the daily limit', async function () {
+      await token.connect(addr1).transfer(addr2Address, ethers.parseEther('60'))
+      await expect(token.connect(addr1).transfer(addr2Address, ethers.parseEther('50'))).to.be.revertedWith(
+        'Transfer not possible',
+      )
+      await token.connect(addr1).transfer(addr2Address, ethers.parseEther('40'))
+    })
+
+    it('Should reset the limit the next day', async function () {
+      await token.connect(addr1).transfer(addr2Address, ethers.parseEther('100'))
+      await time.increase(24 * 60 * 60)
+
+      await token.connect(addr1).transfer(addr2Address, ethers.parseEther('100'))
+    })
+
+    it('Should apply the daily limit to the wallets of an investor together', async function () {
+      const investorIdentity = ethers.Wallet.createRandom().address
+      await mockIdentityRegistry.registerIdentity(addr1Address, investorIdentity, 42)
+      await mockIdentityRegistry.registerIdentity(addr2Address, investorIdentity, 42)
+      await token.connect(agent).mint(addr2Address, ethers.parseEther('1000'))
+
+      await token.connect(addr1).transfer(addr3Address, ethers.parseEther('60'))
+      await expect(token.connect(addr2).transfer(addr3Address, ethers.parseEther('50'))).to.be.revertedWith(
+        'Transfer not possible',
+      )
+      await token.connect(addr2).transfer(addr3Address, ethers.parseEther('40'))
+    })
+
+    it('Should not limit mints, nor transfers once disabled', async function () {
+      await token.connect(agent).mint(addr1Address, ethers.parseEther('1000'))
+
+      await callModule(module, 'setDailyTransferLimit', [0])
+      await token.connect(addr1).transfer(addr2Address, ethers.parseEther('500'))
+    })
+  })
+})
@@ -0,0 +1,278 @@
+import { Signer, TransactionReceipt } from 'ethers'
+import { expect } from 'chai'
+import { ethers } from 'hardhat'
+import {
+  SettlementCancelledEvent,
+  SettlementCreatedEvent,
+  SettlementExecutedEvent,
+  SettlementLegLockedEvent,
+  decodePrivateEvents,
+} from '@appliedblockchain/ucef'
+import { UCEF3643, UCEF3643Contracts, UCEF3643DvP } from '@appliedblockchain/ucef-3643'
+import { MockCompliance, MockIdentityRegistry, UCEFOnlyOwnerAndRegulator } from '../typechain-types'
+import { deployToken3643 } from './fixtures/deploy-3643'
+import { deployToken } from './fixtures/deploy-token'
+
+describe('UCEF3643DvP', function () {
+  let dvp: UCEF3643DvP
+  let securities: UCEF3643
+  let cash: UCEFOnlyOwnerAndRegulator
+  let mockIdentityRegistry: MockIdentityRegistry
+  let mockCompliance: MockCompliance
+  let owner: Signer
+  let ownerAddress: string
+  let seller: Signer
+  let sellerAddress: string
+  let buyer: Signer
+  let buyerAddress: string
+  let agent: Signer
+  let regulator: Signer
+  let regulatorAddress: string
+  let securitiesAddress: string
+  let cashAddress: string
+
+  const SECURITIES_AMOUNT = ethers.parseEther('10')
+  const CASH_AMOUNT = ethers.parseEther('1000')
+  const SETTLEMENT_ID = 0n
+
+  async function createSettlement() {
+    const tx = await dvp
+      .connect(seller)
+      .createSettlement(sellerAddress, buyerAddress, securitiesAddress, SECURITIES_AMOUNT, cashAddress, CASH_AMOUNT)
+    return (await tx.wait()) as TransactionReceipt
+  }
+
+  async function lockBothLegs() {
+    await createSettlement()
+    await dvp.connect(seller).lockSecurities(SETTLEMENT_ID)
+    await dvp.connect(buyer).lockCash(SETTLEMENT_ID)
+  }
+
+  beforeEach(async function () {
+    ;[owner, seller, buyer, agent, regulator] = await ethers.getSigners()
+    ownerAddress = await owner.getAddress()
+    sellerAddress = await seller.getAddress()
+    buyerAddress = await buyer.getAddress()
+    regulatorAddress = await regulator.getAddress()
+
+    const deployment = await deployToken3643({
+      agent,
+      name: 'Test Security',
+      symbol: 'SEC',
+      decimals: 18,
+      onchainID: ethers.ZeroAddress,
+    })
+    securities = deployment.token
+    mockIdentityRegistry = deployment.mockIdentityRegistry
+    mockCompliance = deployment.mockCompliance
+    securitiesAddress = await securities.getAddress()
+    await securities.setRegulator(regulatorAddress)
+
+    await mockIdentityRegistry.setIdentity(sellerAddress, 1, true)
+    await mockIdentityRegistry.setIdentity(buyerAddress, 1, true)
+    await mockCompliance.setCanTransfer(sellerAddress, true)
+    await securities.connect(agent).mint(sellerAddress, ethers.parseEther('100'))
+
+    // The cash token's regulator is its deployer
+    cash = await deployToken<UCEFOnlyOwnerAndRegulator>('UCEFOnlyOwnerAndRegulator')
+    cashAddress = await cash.getAddress()
+    await cash.mint(buyerAddress, ethers.parseEther('5000'))
+
+    const dvpFactory = await ethers.getContractFactory(
+      UCEF3643Contracts.UCEF3643DvP.abi,
+      UCEF3643Contracts.UCEF3643DvP.bytecode,
+    )
+    dvp = (await dvpFactory.deploy()) as unknown as UCEF3643DvP
+    await dvp.waitForDeployment()
+    // The DvP freezes the securities as an agent and moves them with the approval of the seller, without being
+    // allowed to view balances
+    await securities.addAgent(await dvp.getAddress())
+    await securities.connect(seller).approve(await dvp.getAddress(), SECURITIES_AMOUNT)
+    await cash.connect(buyer).approve(await dvp.getAddress(), CASH_AMOUNT)
+  })
+
+  describe('Creation', function () {
+    it('Should create a settlement visible to the counterparties and regulators', async function () {
+      const receipt = await createSettlement()
+
+      const [created] = decodePrivateEvents(receipt).filter(
+        (e): e is SettlementCreatedEvent => e.type === 'SettlementCreated',
+      )
+      expect(created.settlementId).to.equal(SETTLEMENT_ID)
+      expect(created.seller).to.equal(sellerAddress)
+      expect(created.buyer).to.equal(buyerAddress)
+      expect(created.securities).to.equal(securitiesAddress)
+      expect(created.securitiesAmount).to.equal(SECURITIES_AMOUNT)
+      expect(created.cash).to.equal(cashAddress)
+      expect(created.cashAmount).to.equal(CASH_AMOUNT)
+      expect(created.allowedViewers).to.deep.equal([sellerAddress, buyerAddress, regulatorAddress, ownerAddress])
+
+      const settlement = await dvp.connect(regulator).getSettlement(SETTLEMENT_ID)
+      expect(settlement.seller).to.equal(sellerAddress)
+      expect(settlement.cashAmount).to.equal(CASH_AMOUNT)
+    })
+
+    it('Should only let the counterparties read the settlement', async function () {
+      await createSettlement()
+
+      await expect(dvp.connect(agent).getSettlement(SETTLEMENT_ID)).to.be.revertedWith('Unauthorized settlement access')
+      await expect(dvp.connect(buyer).getSettlement(1)).to.be.revertedWith('settlement does not exist')
+    })
+
+    it('Should only let the counterparties create a settlement', async function () {
+      await expect(
+        dvp
+          .connect(agent)
+          .createSettlement(
+            sellerAddress,
+            buyerAddress,
+            securitiesAddress,
+            SECURITIES_AMOUNT,
+            cashAddress,
+            CASH_AMOUNT,
+          ),
+      ).to.be.revertedWith('only counterparties can create')
+    })
+  })
+
+  describe('Locking', function () {
+    beforeEach(async function () {
+      await createSettlement()
+    })
+
+    it('Should freeze the securities of the seller', async function () {
+      const tx = await dvp.connect(seller).lockSecurities(SETTLEMENT_ID)
+
+      const [locked] = decodePrivateEvents((await tx.wait()) as TransactionReceipt).filter(
+        (e): e is SettlementLegLockedEvent => e.type === 'SettlementLegLocked',
+      )
+      expect(locked.party).to.equal(sellerAddress)
+      expect(locked.token).to.equal(securitiesAddress)
+      expect(locked.amount).to.equal(SECURITIES_AMOUNT)
+      expect(await securities.connect(seller).getFrozenTokens(sellerAddress)).to.equal(SECURITIES_AMOUNT)
+      await expect(dvp.connect(seller).lockSecurities(SETTLEMENT_ID)).to.be.revertedWith('securities already locked')
+    })
+
+    it('Should hold the cash of the buyer', async function () {
+      await dvp.connect(buyer).lockCash(SETTLEMENT_ID)
+
+      expect(await cash.balanceOf(await dvp.getAddress())).to.equal(CASH_AMOUNT)
+      expect(await cash.connect(buyer).balanceOf(buyerAddress)).to.equal(ethers.parseEther('4000'))
+    })
+
+    it('Should only let each counterparty lock its own leg', async function () {
+      await expect(dvp.connect(buyer).lockSecurities(SETTLEMENT_ID)).to.be.revertedWith(
+        'only seller can lock securities',
+      )
+      await expect(dvp.connect(seller).lockCash(SETTLEMENT_ID)).to.be.revertedWith('only buyer can lock cash')
+    })
+  })
+
+  describe('Settlement', function () {
+    it('Should deliver the securities against the cash atomically', async function () {
+      await lockBothLegs()
+
+      const tx = await dvp.connect(buyer).settle(SETTLEMENT_ID)
+
+      expect(await securities.connect(buyer).balanceOf(buyerAddress)).to.equal(SECURITIES_AMOUNT)
+      expect(await securities.connect(seller).balanceOf(sellerAddress)).to.equal(ethers.parseEther('90'))
+      expect(await securities.connect(seller).getFrozenTokens(sellerAddress)).to.equal(0)
+      expect(await cash.connect(seller).balanceOf(sellerAddress)).to.equal(CASH_AMOUNT)
+      expect(await cash.balanceOf(await dvp.getAddress())).to.equal(0)
+
+      const [executed] = decodePrivateEvents((await tx.wait()) as TransactionReceipt).filter(
+        (e): e is SettlementExecutedEvent => e.type === 'SettlementExecuted',
+      )
+      expect(executed.settlementId).to.equal(SETTLEMENT_ID)
+      expect(executed.allowedViewers).to.deep.equal([sellerAddress, buyerAddress, regulatorAddress, ownerAddress])
+      expect((await dvp.connect(seller).getSettlement(SETTLEMENT_ID)).status).to.equal(2)
+    })
+
+    it('Should not settle before both legs are locked', async function () {
+      await createSettlement()
+      await dvp.connect(seller).lockSecurities(SETTLEMENT_ID)
+
+      await expect(dvp.connect(seller).settle(SETTLEMENT_ID)).to.be.revertedWith('settlement not locked')
+    })
+
+    it('Should not settle transfers rejected by the compliance', async function () {
+      await lockBothLegs()
+      await mockCompliance.setCanTransfer(sellerAddress, false)
+
+      await expect(dvp.connect(seller).settle(SETTLEMENT_ID)).to.be.revertedWith('Transfer not possible')
+    })
+
+    it('Should not settle to unverified buyers', async function () {
+      await lockBothLegs()
+      await mockIdentityRegistry.setVerified(buyerAddress, false)
+
+      await expect(dvp.connect(seller).settle(SETTLEMENT_ID)).to.be.revertedWith('Transfer not possible')
+    })
+
+    it('Should not settle while a wallet is frozen or the token is paused', async function () {
+      await lockBothLegs()
+
+      await securities.connect(agent).setAddressFrozen(buyerAddress, true)
+      await expect(dvp.connect(seller).settle(SETTLEMENT_ID)).to.be.revertedWith('wallet is frozen')
+      await securities.connect(agent).setAddressFrozen(buyerAddress, false)
+
+      await securities.connect(agent).pause()
+      await expect(dvp.connect(seller).settle(SETTLEMENT_ID)).to.be.revertedWith('Pausable: paused')
+    })
+
+    it('Should only let the counterparties settle', async function () {
+      await lockBothLegs()
+
+      await expect(dvp.connect(regulator).settle(SETTLEMENT_ID)).to.be.revertedWith('only counterparties can settle')
+    })
+  })
+
+  describe('Cancellation', function () {
+    it('Should refund both locked legs', async function () {
+      await lockBothLegs()
+
+      const tx = await dvp.connect(seller).cancel(SETTLEMENT_ID)
+
+      expect(await securities.connect(seller).getFrozenTokens(sellerAddress)).to.equal(0)
+      expect(await cash.connect(buyer).balanceOf(buyerAddress)).to.equal(ethers.parseEther('5000'))
+      const [cancelled] = decodePrivateEvents((await tx.wait()) as TransactionReceipt).filter(
+        (e): e is SettlementCancelledEvent => e.type === 'SettlementCancelled',
+      )
+      expect(cancelled.settlementId).to.equal(SETTLEMENT_ID)
+      expect(cancelled.cancelledBy).to.equal(sellerAddress)
+      await expect(dvp.connect(buyer).settle(SETTLEMENT_ID)).to.be.revertedWith('settlement not pending')
+    })
+
+    it('Should only refund the locked legs', async function () {
+      await createSettlement()
+      await dvp.connect(buyer).lockCash(SETTLEMENT_ID)
+
+      await dvp.connect(buyer).cancel(SETTLEMENT_ID)
+      expect(await cash.connect(buyer).balanceOf(buyerAddress)).to.equal(ethers.parseEther('5000'))
+      expect(await securities.connect(seller).getFrozenTokens(sellerAddress)).to.equal(0)
+    })
+
+    it('Should refund the cash when an agent already unfroze the securities', async function () {
+      await lockBothLegs()
+      await securities.connect(agent).unfreezePartialTokens(sellerAddress, SECURITIES_AMOUNT / 2n)
+
+      await dvp.connect(buyer).cancel(SETTLEMENT_ID)
+      expect(await cash.connect(buyer).balanceOf(buyerAddress)).to.equal(ethers.parseEther('5000'))
+      expect(await securities.connect(seller).getFrozenTokens(sellerAddress)).to.equal(SECURITIES_AMOUNT / 2n)
+      expect((await dvp.connect(seller).getSettlement(SETTLEMENT_ID)).status).to.equal(3)
+    })
+
+    it('Should not cancel executed settlements', async function () {
+      await lockBothLegs()
+      await dvp.connect(seller).settle(SETTLEMENT_ID)
+
+      await expect(dvp.connect(buyer).cancel(SETTLEMENT_ID)).to.be.revertedWith('settlement not pending')
+    })
+
+    it('Should only let the counterparties cancel', async function () {
+      await createSettlement()
+
+      await expect(dvp.connect(agent).cancel(SETTLEMENT_ID)).to.be.revertedWith('only counterparties can cancel')
+    })
+  })
+})
@@ -1,8 +1,11 @@
 import { expect } from 'chai'
 import { ethers } from 'hardhat'
-import { Signer } from 'ethers'
+import { Signer, TransactionReceipt } from 'ethers'
+import { time } from '@nomicfoundation/hardhat-network-helpers'
+import { decodePrivateEvents } from '@appliedblockchain/ucef'
 import { UCEFOnlyOwner } from '../../typechain-types'
 import { deployToken, transfer } from '../fixtures/deploy-token'
+import { expectPrivateEvent } from '../fixtures/private-events'
 describe('UCEFOnlyOwner', function () {
   let token: UCEFOnlyOwner
   let owner: Signer
@@ -56,6 +59,59 @@ describe('UCEFOnlyOwner', function () {
     })
   })
 
+  describe('Batch Transfers', function () {
+    const amounts = [TRANSFER_AMOUNT / 2n, TRANSFER_AMOUNT / 4n]
+
+    it('Should transfer to every recipient and emit one private Transfer event per recipient', async function () {
+      const tx = await token.connect(owner).batchTransfer([user1Address, user2Address], amounts)
+
+      const events = decodePrivateEvents((await tx.wait()) as TransactionReceipt)
+      expect(events).to.have.length(2)
+      for (const [i, recipient] of [user1Address, user2Address].entries()) {
+        const event = events[i]
+        expectPrivateEvent(event, 'Transfer')
+        expect(event.from).to.equal(ownerAddress)
+        expect(event.to).to.equal(recipient)
+        expect(event.value).to.equal(amounts[i])
+        expect(event.allowedViewers).to.deep.equal([ownerAddress, recipient])
+      }
+
+      expect(await token.connect(user1).balanceOf(user1Address)).to.equal(amounts[0])
+      expect(await token.connect(user2).balanceOf(user2Address)).to.equal(amounts[1])
+      expect(await token.balanceOf(ownerAddress)).to.equal(INITIAL_SUPPLY - amounts[0] - amounts[1])
+    })
+
+    it('Should check the balance against the total of the batch', async function () {
+      await expect(token.connect(owner).batchTransfer([user1Address, user2Address], [INITIAL_SUPPLY, 1n]))
+        .to.be.revertedWithCustomError(token, 'ERC20InsufficientBalance')
+        .withArgs(ownerAddress, INITIAL_SUPPLY, INITIAL_SUPPLY + 1n)
+    })
+
+    it('Should fail if the recipients and amounts do not match', async function () {
+      await expect(token.connect(owner).batchTransfer([user1Address, user2Address], [TRANSFER_AMOUNT]))
+        .to.be.revertedWithCustomError(token, 'UCEFInvalidBatchLength')
+        .withArgs(2n, 1n)
+    })
+
+    it('Should spend the allowance once for the total of the batch', async function () {
+      const total = amounts[0] + amounts[1]
+      await token.connect(owner).approve(user1Address, total)
+
+      await token.connect(user1).batchTransferFrom(ownerAddress, [user1Address, user2Address], amounts)
+
+      expect(await token.connect(user1).allowance(ownerAddress, user1Address)).to.equal(0n)
+      expect(await token.connect(user2).balanceOf(user2Address)).to.equal(amounts[1])
+    })
+
+    it('Should fail if the allowance does not cover the total of the batch', async function () {
+      await token.connect(owner).approve(user1Address, amounts[0])
+
+      await expect(
+        token.connect(user1).batchTransferFrom(ownerAddress, [user1Address, user2Address], amounts),
+      ).to.be.revertedWithCustomError(token, 'ERC20InsufficientAllowance')
+    })
+  })
+
   describe('balanceOf', function () {
     beforeEach(async function () {
       // Transfer some tokens to user1 for testing
@@ -201,5 +257,114 @@ describe('UCEFOnlyOwner', function () {
           .withArgs(ethers.ZeroAddress, 0n, 0n)
       })
     })
+
+    describe('Managing Allowances', function () {
+      it('Should increase and decrease allowance', async function () {
+        await token.connect(user1).increaseAllowance(user2Address, ALLOWANCE_AMOUNT)
+        await token.connect(user1).increaseAllowance(user2Address, ALLOWANCE_AMOUNT)
+        await token.connect(user1).decreaseAllowance(user2Address, 1n)
+
+        expect(await token.connect(user1).allowance(user1Address, user2Address)).to.equal(ALLOWANCE_AMOUNT * 2n - 1n)
+      })
+
+      it('Should not allow decreasing allowance below zero', async function () {
+        await token.connect(user1).approve(user2Address, ALLOWANCE_AMOUNT)
+
+        await expect(token.connect(user1).decreaseAllowance(user2Address, ALLOWANCE_AMOUNT + 1n))
+          .to.be.revertedWithCustomError(token, 'UCEFFailedDecreaseAllowance')
+          .withArgs(user2Address, ALLOWANCE_AMOUNT, ALLOWANCE_AMOUNT + 1n)
+      })
+
+      it('Should list the spenders of the owner', async function () {
+        await token.connect(user1).approve(user2Address, ALLOWANCE_AMOUNT)
+        await token.connect(user1).increaseAllowance(ownerAddress, ALLOWANCE_AMOUNT)
+        expect(await token.connect(user1).spendersOf(user1Address)).to.deep.equal([user2Address, ownerAddress])
+
+        await token.connect(user1).decreaseAllowance(ownerAddress, ALLOWANCE_AMOUNT)
+        expect(await token.connect(user1).spendersOf(user1Address)).to.deep.equal([user2Address])
+
+        await token.connect(user2).transferFrom(user1Address, user2Address, ALLOWANCE_AMOUNT)
+        expect(await token.connect(user1).spendersOf(user1Address)).to.deep.equal([])
+      })
+
+      it('Should not allow other addresses to list the spenders of the owner', async function () {
+        await token.connect(user1).approve(user2Address, ALLOWANCE_AMOUNT)
+
+        await expect(token.connect(user2).spendersOf(user1Address))
+          .to.be.revertedWithCustomError(token, 'UCEFUnauthorizedBalanceAccess')
+          .withArgs(user2Address, user1Address)
+      })
+
+      it('Should revoke all approvals', async function () {
+        await token.connect(user1).approve(user2Address, ALLOWANCE_AMOUNT)
+        await token.connect(user1).approve(ownerAddress, ethers.MaxUint256)
+
+        await token.connect(user1).revokeAllApprovals()
+
+        expect(await token.connect(user1).spendersOf(user1Address)).to.deep.equal([])
+        expect(await token.connect(user1).allowance(user1Address, user2Address)).to.equal(0n)
+        expect(await token.connect(user1).allowance(user1Address, ownerAddress)).to.equal(0n)
+      })
+    })
+
+    describe('Allowance Expiry', function () {
+      const ONE_DAY = 24 * 60 * 60
+      let expiry: number
+
+      beforeEach(async function () {
+        expiry = (await time.latest()) + ONE_DAY
+        await token.connect(user1).approveUntil(user2Address, ALLOWANCE_AMOUNT, expiry)
+      })
+
+      it('Should allow spending before the expiry', async function () {
+        expect(await token.connect(user2).allowanceExpiry(user1Address, user2Address)).to.equal(expiry)
+
+        await token.connect(user2).transferFrom(user1Address, user2Address, ALLOWANCE_AMOUNT / 2n)
+        expect(await token.connect(user2).allowance(user1Address, user2Address)).to.equal(ALLOWANCE_AMOUNT / 2n)
+      })
+
+      it('Should not allow spending after the expiry', async function () {
+        await time.increaseTo(expiry)
+
+        expect(await token.connect(user2).allowance(user1Address, user2Address)).to.equal(0n)
+        expect(await token.connect(user1).spendersOf(user1Address)).to.deep.equal([])
+        await expect(token.connect(user2).transferFrom(user1Address, user2Address, 1n))
+          .to.be.revertedWithCustomError(token, 'UCEFExpiredAllowance')
+          .withArgs(user2Address, expiry)
+      })
+
+      it('Should not allow an expiry in the past', async function () {
+        const past = (await time.latest()) - 1
+
+        await expect(token.connect(user1).approveUntil(user2Address, ALLOWANCE_AMOUNT, past))
+          .to.be.revertedWithCustomError(token, 'UCEFInvalidAllowanceExpiry')
+          .withArgs(past)
+      })
+
+      it('Should clear the expiry when approving without expiry', async function () {
+        await token.connect(user1).approve(user2Address, ALLOWANCE_AMOUNT)
+        await time.increaseTo(expiry)
+
+        expect(await token.connect(user2).allowanceExpiry(user1Address, user2Address)).to.equal(0n)
+        await token.connect(user2).transferFrom(user1Address, user2Address, ALLOWANCE_AMOUNT)
+      })
+
+      it('Should increase expired allowances from zero without expiry', async function () {
+        await time.increaseTo(expiry)
+
+        await token.connect(user1).increaseAllowance(user2Address, ALLOWANCE_AMOUNT)
+
+        expect(await token.connect(user2).allowanceExpiry(user1Address, user2Address)).to.equal(0n)
+        expect(await token.connect(user2).allowance(user1Address, user2Address)).to.equal(ALLOWANCE_AMOUNT)
+        await token.connect(user2).transferFrom(user1Address, user2Address, ALLOWANCE_AMOUNT)
+      })
+
+      it('Should revoke expired approvals', async function () {
+        await time.increaseTo(expiry)
+
+        await token.connect(user1).revokeAllApprovals()
+        expect(await token.connect(user2).allowanceExpiry(user1Address, user2Address)).to.equal(0n)
+      })
+    })
   })
 })
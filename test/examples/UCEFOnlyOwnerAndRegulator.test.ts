@@ -1,6 +1,7 @@
 import { expect } from 'chai'
 import { ethers } from 'hardhat'
-import { Signer } from 'ethers'
+import { Signer, TransactionReceipt } from 'ethers'
+import { decodePrivateEvents } from '@appliedblockchain/ucef'
 import { UCEFOnlyOwnerAndRegulator } from '../../typechain-types'
 import { deployToken, transfer } from '../fixtures/deploy-token'
 
@@ -61,6 +62,14 @@ describe('UCEFOnlyOwnerAndRegulator', function () {
       const doubleAmount = TRANSFER_AMOUNT * 2n
       await expect(token.connect(user1).transfer(user2Address, doubleAmount)).to.be.reverted
     })
+
+    it('Should include the regulator in the private events of a batch transfer', async function () {
+      const tx = await token.connect(user1).batchTransfer([user2Address, regulatorAddress], [1n, 2n])
+
+      const [toUser2, toRegulator] = decodePrivateEvents((await tx.wait()) as TransactionReceipt)
+      expect(toUser2.allowedViewers).to.deep.equal([regulatorAddress, user1Address, user2Address])
+      expect(toRegulator.allowedViewers).to.deep.equal([regulatorAddress, user1Address])
+    })
   })
 
   describe('balanceOf', function () {
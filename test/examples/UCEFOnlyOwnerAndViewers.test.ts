@@ -0,0 +1,146 @@
+import { expect } from 'chai'
+import { ethers } from 'hardhat'
+import { Signer, TransactionReceipt } from 'ethers'
+import { decodePrivateEvents } from '@appliedblockchain/ucef'
+import { UCEFOnlyOwnerAndViewers } from '../../typechain-types'
+import { deployToken, transfer } from '../fixtures/deploy-token'
+import { expectPrivateEvent } from '../fixtures/private-events'
+
+describe('UCEFOnlyOwnerAndViewers', function () {
+  let token: UCEFOnlyOwnerAndViewers
+  let admin: Signer
+  let auditor: Signer
+  let taxAuthority: Signer
+  let user1: Signer
+  let user2: Signer
+  let adminAddress: string
+  let auditorAddress: string
+  let taxAuthorityAddress: string
+  let user1Address: string
+  let user2Address: string
+  let BALANCE_VIEWER_ROLE: string
+  let EVENT_VIEWER_ROLE: string
+
+  const INITIAL_SUPPLY = ethers.parseUnits('100', 18)
+  const TRANSFER_AMOUNT = ethers.parseUnits('50', 18)
+
+  beforeEach(async function () {
+    ;[admin, auditor, taxAuthority, user1, user2] = await ethers.getSigners()
+    adminAddress = await admin.getAddress()
+    auditorAddress = await auditor.getAddress()
+    taxAuthorityAddress = await taxAuthority.getAddress()
+    user1Address = await user1.getAddress()
+    user2Address = await user2.getAddress()
+
+    token = await deployToken<UCEFOnlyOwnerAndViewers>('UCEFOnlyOwnerAndViewers', [], {
+      initialSupply: INITIAL_SUPPLY,
+    })
+    BALANCE_VIEWER_ROLE = await token.BALANCE_VIEWER_ROLE()
+    EVENT_VIEWER_ROLE = await token.EVENT_VIEWER_ROLE()
+
+    await transfer(token.connect(admin), user1Address, TRANSFER_AMOUNT)
+  })
+
+  describe('Deployment', function () {
+    it('Should grant the admin role to the deployer', async function () {
+      expect(await token.hasRole(await token.DEFAULT_ADMIN_ROLE(), adminAddress)).to.be.true
+    })
+
+    it('Should support the ERC-165 and IAccessControl interfaces', async function () {
+      expect(await token.supportsInterface('0x01ffc9a7')).to.be.true
+      expect(await token.supportsInterface('0x7965db0b')).to.be.true
+      expect(await token.supportsInterface('0xffffffff')).to.be.false
+    })
+  })
+
+  describe('Role management', function () {
+    it('Should allow the admin to grant roles to several accounts', async function () {
+      await token.grantRole(BALANCE_VIEWER_ROLE, auditorAddress)
+      await token.grantRole(BALANCE_VIEWER_ROLE, taxAuthorityAddress)
+
+      expect(await token.getRoleMembers(BALANCE_VIEWER_ROLE)).to.deep.equal([auditorAddress, taxAuthorityAddress])
+    })
+
+    it('Should not allow non-admins to grant roles', async function () {
+      await expect(token.connect(user1).grantRole(BALANCE_VIEWER_ROLE, user1Address))
+        .to.be.revertedWithCustomError(token, 'AccessControlUnauthorizedAccount')
+        .withArgs(user1Address, await token.DEFAULT_ADMIN_ROLE())
+    })
+
+    it('Should not allow non-admins to enumerate role members', async function () {
+      await expect(token.connect(auditor).getRoleMembers(BALANCE_VIEWER_ROLE)).to.be.revertedWithCustomError(
+        token,
+        'AccessControlUnauthorizedAccount',
+      )
+    })
+
+    it('Should announce role changes through private events only', async function () {
+      const tx = await token.grantRole(EVENT_VIEWER_ROLE, auditorAddress)
+      const receipt = (await tx.wait()) as TransactionReceipt
+
+      const topics = receipt.logs.map((log) => log.topics[0])
+      expect(topics).not.to.include(token.interface.getEvent('RoleGranted').topicHash)
+
+      const [event] = decodePrivateEvents(receipt)
+      expectPrivateEvent(event, 'RoleGranted')
+      expect(event.role).to.equal(EVENT_VIEWER_ROLE)
+      expect(event.account).to.equal(auditorAddress)
+      expect(event.sender).to.equal(adminAddress)
+      expect(event.allowedViewers).to.deep.equal([adminAddress, auditorAddress])
+    })
+
+    it('Should allow members to renounce their role', async function () {
+      await token.grantRole(BALANCE_VIEWER_ROLE, auditorAddress)
+      await token.connect(auditor).renounceRole(BALANCE_VIEWER_ROLE, auditorAddress)
+
+      expect(await token.hasRole(BALANCE_VIEWER_ROLE, auditorAddress)).to.be.false
+    })
+  })
+
+  describe('balanceOf', function () {
+    it('Should allow users to access their own balance', async function () {
+      expect(await token.connect(user1).balanceOf(user1Address)).to.equal(TRANSFER_AMOUNT)
+    })
+
+    it('Should allow balance viewers to access any account balance', async function () {
+      await token.grantRole(BALANCE_VIEWER_ROLE, auditorAddress)
+      await token.grantRole(BALANCE_VIEWER_ROLE, taxAuthorityAddress)
+
+      expect(await token.connect(auditor).balanceOf(user1Address)).to.equal(TRANSFER_AMOUNT)
+      expect(await token.connect(taxAuthority).balanceOf(user1Address)).to.equal(TRANSFER_AMOUNT)
+    })
+
+    it('Should not allow event viewers or revoked viewers to access balances', async function () {
+      await token.grantRole(EVENT_VIEWER_ROLE, auditorAddress)
+      await token.grantRole(BALANCE_VIEWER_ROLE, taxAuthorityAddress)
+      await token.revokeRole(BALANCE_VIEWER_ROLE, taxAuthorityAddress)
+
+      await expect(token.connect(auditor).balanceOf(user1Address))
+        .to.be.revertedWithCustomError(token, 'UCEFUnauthorizedBalanceAccess')
+        .withArgs(auditorAddress, user1Address)
+      await expect(token.connect(taxAuthority).balanceOf(user1Address))
+        .to.be.revertedWithCustomError(token, 'UCEFUnauthorizedBalanceAccess')
+        .withArgs(taxAuthorityAddress, user1Address)
+    })
+  })
+
+  describe('Event viewers', function () {
+    it('Should include event viewers in transfer events', async function () {
+      await token.grantRole(EVENT_VIEWER_ROLE, auditorAddress)
+      await token.grantRole(EVENT_VIEWER_ROLE, taxAuthorityAddress)
+      await token.grantRole(BALANCE_VIEWER_ROLE, adminAddress)
+
+      const tx = await token.connect(user1).transfer(user2Address, TRANSFER_AMOUNT)
+      const [event] = decodePrivateEvents((await tx.wait()) as TransactionReceipt)
+      expect(event.allowedViewers).to.deep.equal([auditorAddress, taxAuthorityAddress, user1Address, user2Address])
+    })
+
+    it('Should include event viewers in approval events', async function () {
+      await token.grantRole(EVENT_VIEWER_ROLE, auditorAddress)
+
+      const tx = await token.connect(user1).approve(user2Address, TRANSFER_AMOUNT)
+      const [event] = decodePrivateEvents((await tx.wait()) as TransactionReceipt)
+      expect(event.allowedViewers).to.deep.equal([auditorAddress, user1Address, user2Address])
+    })
+  })
+})
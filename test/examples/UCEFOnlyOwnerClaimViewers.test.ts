@@ -0,0 +1,161 @@
+import { expect } from 'chai'
+import { ethers } from 'hardhat'
+import { Signer, TransactionReceipt } from 'ethers'
+import { ClaimViewerUpdatedEvent, decodePrivateEvents } from '@appliedblockchain/ucef'
+import {
+  MockClaimIssuer,
+  MockIdentity,
+  MockIdentityRegistry,
+  MockTrustedIssuersRegistry,
+  UCEFOnlyOwnerClaimViewers,
+} from '../../typechain-types'
+import { deployToken } from '../fixtures/deploy-token'
+
+describe('UCEFOnlyOwnerClaimViewers', function () {
+  let token: UCEFOnlyOwnerClaimViewers
+  let identityRegistry: MockIdentityRegistry
+  let claimIssuer: MockClaimIssuer
+  let auditorIdentity: MockIdentity
+  let holder: Signer
+  let recipient: Signer
+  let auditor: Signer
+  let holderAddress: string
+  let recipientAddress: string
+  let auditorAddress: string
+  let auditorIdentityAddress: string
+
+  const INITIAL_BALANCE = ethers.parseUnits('1000', 18)
+  const TRANSFER_AMOUNT = ethers.parseUnits('100', 18)
+  const AUDITOR_TOPIC = ethers.id('AUDITOR')
+
+  beforeEach(async function () {
+    ;[, holder, recipient, auditor] = await ethers.getSigners()
+    holderAddress = await holder.getAddress()
+    recipientAddress = await recipient.getAddress()
+    auditorAddress = await auditor.getAddress()
+
+    const ClaimIssuerFactory = await ethers.getContractFactory('MockClaimIssuer')
+    claimIssuer = (await ClaimIssuerFactory.deploy()) as unknown as MockClaimIssuer
+    const claimIssuerAddress = await claimIssuer.getAddress()
+
+    const TrustedIssuersRegistryFactory = await ethers.getContractFactory('MockTrustedIssuersRegistry')
+    const trustedIssuersRegistry =
+      (await TrustedIssuersRegistryFactory.deploy()) as unknown as MockTrustedIssuersRegistry
+    await trustedIssuersRegistry.setTrustedIssuers(AUDITOR_TOPIC, [claimIssuerAddress])
+
+    const IdentityRegistryFactory = await ethers.getContractFactory('MockIdentityRegistry')
+    identityRegistry = (await IdentityRegistryFactory.deploy()) as unknown as MockIdentityRegistry
+    await identityRegistry.setIssuersRegistry(await trustedIssuersRegistry.getAddress())
+
+    const IdentityFactory = await ethers.getContractFactory('MockIdentity')
+    auditorIdentity = (await IdentityFactory.deploy()) as unknown as MockIdentity
+    auditorIdentityAddress = await auditorIdentity.getAddress()
+    await auditorIdentity.addClaim(AUDITOR_TOPIC, claimIssuerAddress)
+    await identityRegistry.registerIdentity(auditorAddress, auditorIdentityAddress, 0)
+
+    token = await deployToken<UCEFOnlyOwnerClaimViewers>(
+      'UCEFOnlyOwnerClaimViewers',
+      [await identityRegistry.getAddress(), [AUDITOR_TOPIC]],
+      {},
+    )
+    await token.mint(holderAddress, INITIAL_BALANCE)
+  })
+
+  describe('Balance Access', function () {
+    it('Should allow holders of a valid viewer claim to view balances', async function () {
+      expect(await token.hasViewerClaim(auditorAddress)).to.be.true
+      expect(await token.connect(auditor).balanceOf(holderAddress)).to.equal(INITIAL_BALANCE)
+    })
+
+    it('Should not allow addresses without a viewer claim to view balances', async function () {
+      await expect(token.connect(recipient).balanceOf(holderAddress))
+        .to.be.revertedWithCustomError(token, 'UCEFUnauthorizedBalanceAccess')
+        .withArgs(recipientAddress, holderAddress)
+    })
+
+    it('Should not allow identities that do not implement getClaim', async function () {
+      await identityRegistry.registerIdentity(auditorAddress, await token.getAddress(), 0)
+
+      expect(await token.hasViewerClaim(auditorAddress)).to.be.false
+      await expect(token.connect(auditor).balanceOf(holderAddress))
+        .to.be.revertedWithCustomError(token, 'UCEFUnauthorizedBalanceAccess')
+        .withArgs(auditorAddress, holderAddress)
+    })
+
+    it('Should stop allowing access once the claim is revoked', async function () {
+      await claimIssuer.setClaimRevoked(auditorIdentityAddress, AUDITOR_TOPIC, true)
+
+      expect(await token.hasViewerClaim(auditorAddress)).to.be.false
+      await expect(token.connect(auditor).balanceOf(holderAddress)).to.be.revertedWithCustomError(
+        token,
+        'UCEFUnauthorizedBalanceAccess',
+      )
+    })
+
+    it('Should only grant access for the viewer claim topics', async function () {
+      await expect(token.setViewerClaimTopics([ethers.id('REGULATOR')]))
+        .to.emit(token, 'ViewerClaimTopicsUpdated')
+        .withArgs([ethers.id('REGULATOR')])
+
+      expect(await token.viewerClaimTopics()).to.deep.equal([ethers.id('REGULATOR')])
+      await expect(token.connect(auditor).balanceOf(holderAddress)).to.be.revertedWithCustomError(
+        token,
+        'UCEFUnauthorizedBalanceAccess',
+      )
+    })
+  })
+
+  describe('Event Access', function () {
+    it('Should include registered claim viewers in transfer events', async function () {
+      const registerTx = await token.connect(auditor).addClaimViewer(auditorAddress)
+      const [registered] = decodePrivateEvents((await registerTx.wait()) as TransactionReceipt).filter(
+        (e): e is ClaimViewerUpdatedEvent => e.type === 'ClaimViewerUpdated',
+      )
+      expect(registered.viewer).to.equal(auditorAddress)
+      expect(registered.registered).to.be.true
+      expect(registered.allowedViewers).to.deep.equal([auditorAddress])
+      expect(await token.isClaimViewer(auditorAddress)).to.be.true
+
+      const tx = await token.connect(holder).transfer(recipientAddress, TRANSFER_AMOUNT)
+      const [event] = decodePrivateEvents((await tx.wait()) as TransactionReceipt)
+      expect(event.type).to.equal('Transfer')
+      expect(event.allowedViewers).to.deep.equal([holderAddress, recipientAddress, auditorAddress])
+    })
+
+    it('Should not register addresses without a viewer claim', async function () {
+      await expect(token.addClaimViewer(recipientAddress))
+        .to.be.revertedWithCustomError(token, 'UCEFInvalidClaimViewer')
+        .withArgs(recipientAddress)
+    })
+
+    it('Should allow anyone to remove claim viewers once their claim is revoked', async function () {
+      await token.addClaimViewer(auditorAddress)
+      await expect(token.connect(recipient).removeClaimViewer(auditorAddress))
+        .to.be.revertedWithCustomError(token, 'UCEFInvalidClaimViewer')
+        .withArgs(auditorAddress)
+
+      await claimIssuer.setClaimRevoked(auditorIdentityAddress, AUDITOR_TOPIC, true)
+      await token.connect(recipient).removeClaimViewer(auditorAddress)
+      expect(await token.isClaimViewer(auditorAddress)).to.be.false
+
+      const tx = await token.connect(holder).transfer(recipientAddress, TRANSFER_AMOUNT)
+      const [event] = decodePrivateEvents((await tx.wait()) as TransactionReceipt)
+      expect(event.allowedViewers).to.deep.equal([holderAddress, recipientAddress])
+    })
+
+    it('Should not include registered claim viewers without viewer claim topics', async function () {
+      await token.addClaimViewer(auditorAddress)
+      await token.setViewerClaimTopics([])
+
+      const tx = await token.connect(holder).transfer(recipientAddress, TRANSFER_AMOUNT)
+      const [event] = decodePrivateEvents((await tx.wait()) as TransactionReceipt)
+      expect(event.allowedViewers).to.deep.equal([holderAddress, recipientAddress])
+    })
+  })
+
+  it('Should only allow the deployer to set the viewer claim topics', async function () {
+    await expect(token.connect(holder).setViewerClaimTopics([]))
+      .to.be.revertedWithCustomError(token, 'UCEFOnlyOwnerClaimViewersUnauthorizedAccount')
+      .withArgs(holderAddress)
+  })
+})
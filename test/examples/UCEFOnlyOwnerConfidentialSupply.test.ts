@@ -0,0 +1,75 @@
+import { expect } from 'chai'
+import { ethers } from 'hardhat'
+import { Signer, TransactionReceipt } from 'ethers'
+import { decodePrivateEvents } from '@appliedblockchain/ucef'
+import { UCEFOnlyOwnerConfidentialSupply } from '../../typechain-types'
+import { deployToken } from '../fixtures/deploy-token'
+import { expectPrivateEvent } from '../fixtures/private-events'
+
+describe('UCEFOnlyOwnerConfidentialSupply', function () {
+  let token: UCEFOnlyOwnerConfidentialSupply
+  let owner: Signer
+  let holder: Signer
+  let auditor: Signer
+  let ownerAddress: string
+  let holderAddress: string
+  let auditorAddress: string
+
+  const INITIAL_SUPPLY = ethers.parseUnits('100', 18)
+  const CAP = ethers.parseUnits('1000000', 18)
+
+  beforeEach(async function () {
+    ;[owner, holder, auditor] = await ethers.getSigners()
+    ownerAddress = await owner.getAddress()
+    holderAddress = await holder.getAddress()
+    auditorAddress = await auditor.getAddress()
+
+    token = await deployToken<UCEFOnlyOwnerConfidentialSupply>('UCEFOnlyOwnerConfidentialSupply', [], {
+      initialSupply: INITIAL_SUPPLY,
+    })
+  })
+
+  it('Should make the deployer a supply viewer', async function () {
+    expect(await token.isSupplyViewer(ownerAddress)).to.be.true
+    expect(await token.totalSupply()).to.equal(INITIAL_SUPPLY)
+  })
+
+  it('Should not allow other addresses to view the total supply', async function () {
+    await expect(token.connect(holder).totalSupply())
+      .to.be.revertedWithCustomError(token, 'UCEFUnauthorizedSupplyAccess')
+      .withArgs(holderAddress)
+  })
+
+  it('Should allow supply viewers to grant and revoke access to the total supply', async function () {
+    const tx = await token.setSupplyViewer(auditorAddress, true)
+    expect(await token.connect(auditor).totalSupply()).to.equal(INITIAL_SUPPLY)
+
+    const [event] = decodePrivateEvents((await tx.wait()) as TransactionReceipt)
+    expectPrivateEvent(event, 'SupplyViewerUpdated')
+    expect(event.viewer).to.equal(auditorAddress)
+    expect(event.allowed).to.be.true
+    expect(event.allowedViewers).to.deep.equal([auditorAddress, ownerAddress])
+
+    await token.setSupplyViewer(auditorAddress, false)
+    await expect(token.connect(auditor).totalSupply()).to.be.revertedWithCustomError(
+      token,
+      'UCEFUnauthorizedSupplyAccess',
+    )
+  })
+
+  it('Should not allow other addresses to manage supply viewers', async function () {
+    await expect(token.connect(holder).setSupplyViewer(holderAddress, true))
+      .to.be.revertedWithCustomError(token, 'UCEFUnauthorizedSupplyAccess')
+      .withArgs(holderAddress)
+  })
+
+  it('Should keep enforcing the cap', async function () {
+    await expect(token.connect(holder).mint(holderAddress, CAP))
+      .to.be.revertedWithCustomError(token, 'ERC20ExceededCap')
+      .withArgs(0n, CAP)
+
+    await expect(token.mint(holderAddress, CAP))
+      .to.be.revertedWithCustomError(token, 'ERC20ExceededCap')
+      .withArgs(INITIAL_SUPPLY + CAP, CAP)
+  })
+})
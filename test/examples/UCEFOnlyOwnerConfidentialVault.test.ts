@@ -0,0 +1,174 @@
+import { expect } from 'chai'
+import { ethers } from 'hardhat'
+import { ContractTransactionResponse, Signer, TransactionReceipt } from 'ethers'
+import { decodePrivateEvents } from '@appliedblockchain/ucef'
+import { UCEFOnlyOwner, UCEFOnlyOwnerConfidentialVault } from '../../typechain-types'
+import { deployToken } from '../fixtures/deploy-token'
+import { expectPrivateEvent } from '../fixtures/private-events'
+
+describe('UCEFOnlyOwnerConfidentialVault', function () {
+  let asset: UCEFOnlyOwner
+  let vault: UCEFOnlyOwnerConfidentialVault
+  let holder: Signer
+  let spender: Signer
+  let holderAddress: string
+  let spenderAddress: string
+  let vaultAddress: string
+
+  const INITIAL_BALANCE = ethers.parseUnits('1000', 18)
+  const DEPOSIT_AMOUNT = ethers.parseUnits('100', 18)
+
+  beforeEach(async function () {
+    ;[, holder, spender] = await ethers.getSigners()
+    holderAddress = await holder.getAddress()
+    spenderAddress = await spender.getAddress()
+
+    asset = await deployToken<UCEFOnlyOwner>('UCEFOnlyOwner', [], {})
+    await asset.mint(holderAddress, INITIAL_BALANCE)
+
+    const VaultFactory = await ethers.getContractFactory('UCEFOnlyOwnerConfidentialVault')
+    vault = (await VaultFactory.deploy(await asset.getAddress())) as unknown as UCEFOnlyOwnerConfidentialVault
+    await vault.waitForDeployment()
+    vaultAddress = await vault.getAddress()
+
+    await asset.connect(holder).approve(vaultAddress, ethers.MaxUint256)
+  })
+
+  async function vaultPrivateEvents(tx: Promise<ContractTransactionResponse>) {
+    const receipt = (await (await tx).wait()) as TransactionReceipt
+    return decodePrivateEvents(receipt).filter((event) => event.log.address === vaultAddress)
+  }
+
+  describe('deposit', function () {
+    it('Should mint shares and emit a private Deposit event', async function () {
+      const tx = vault.connect(holder).deposit(DEPOSIT_AMOUNT, holderAddress)
+      const receipt = (await (await tx).wait()) as TransactionReceipt
+      const topics = receipt.logs.map((log) => log.topics[0])
+      expect(topics).not.to.include(vault.interface.getEvent('Deposit').topicHash)
+
+      const [event] = (await vaultPrivateEvents(tx)).filter((e) => e.type === 'Deposit')
+      expectPrivateEvent(event, 'Deposit')
+      expect(event.sender).to.equal(holderAddress)
+      expect(event.owner).to.equal(holderAddress)
+      expect(event.assets).to.equal(DEPOSIT_AMOUNT)
+      expect(event.shares).to.equal(DEPOSIT_AMOUNT)
+      expect(event.allowedViewers).to.deep.equal([holderAddress])
+
+      expect(await vault.connect(holder).balanceOf(holderAddress)).to.equal(DEPOSIT_AMOUNT)
+      expect(await asset.connect(holder).balanceOf(holderAddress)).to.equal(INITIAL_BALANCE - DEPOSIT_AMOUNT)
+    })
+
+    it('Should not account for assets transferred outside of a deposit', async function () {
+      await vault.connect(holder).deposit(DEPOSIT_AMOUNT, holderAddress)
+      await asset.connect(holder).transfer(vaultAddress, DEPOSIT_AMOUNT)
+
+      expect(await vault.totalAssets()).to.equal(DEPOSIT_AMOUNT)
+    })
+  })
+
+  describe('mint', function () {
+    it('Should pull the assets of the minted shares', async function () {
+      await vault.connect(holder).deposit(DEPOSIT_AMOUNT, holderAddress)
+
+      const tx = vault.connect(holder).mint(DEPOSIT_AMOUNT / 2n, spenderAddress)
+      const [event] = (await vaultPrivateEvents(tx)).filter((e) => e.type === 'Deposit')
+      expectPrivateEvent(event, 'Deposit')
+      expect(event.assets).to.equal(DEPOSIT_AMOUNT / 2n)
+      expect(event.allowedViewers).to.deep.equal([holderAddress, spenderAddress])
+
+      expect(await vault.connect(spender).balanceOf(spenderAddress)).to.equal(DEPOSIT_AMOUNT / 2n)
+      expect(await vault.totalAssets()).to.equal((DEPOSIT_AMOUNT * 3n) / 2n)
+    })
+  })
+
+  describe('withdraw', function () {
+    beforeEach(async function () {
+      await vault.connect(holder).deposit(DEPOSIT_AMOUNT, holderAddress)
+    })
+
+    it('Should burn shares and emit a private Withdraw event', async function () {
+      const amount = DEPOSIT_AMOUNT / 4n
+      const tx = vault.connect(holder).withdraw(amount, holderAddress, holderAddress)
+      const receipt = (await (await tx).wait()) as TransactionReceipt
+      const topics = receipt.logs.map((log) => log.topics[0])
+      expect(topics).not.to.include(vault.interface.getEvent('Withdraw').topicHash)
+
+      const [event] = (await vaultPrivateEvents(tx)).filter((e) => e.type === 'Withdraw')
+      expectPrivateEvent(event, 'Withdraw')
+      expect(event.assets).to.equal(amount)
+      expect(event.shares).to.equal(amount)
+      expect(event.allowedViewers).to.deep.equal([holderAddress])
+
+      expect(await vault.connect(holder).balanceOf(holderAddress)).to.equal(DEPOSIT_AMOUNT - amount)
+      expect(await vault.totalAssets()).to.equal(DEPOSIT_AMOUNT - amount)
+    })
+
+    it('Should allow approved spenders to withdraw', async function () {
+      await vault.connect(holder).approve(spenderAddress, DEPOSIT_AMOUNT)
+
+      await vault.connect(spender).withdraw(DEPOSIT_AMOUNT, spenderAddress, holderAddress)
+
+      expect(await asset.connect(spender).balanceOf(spenderAddress)).to.equal(DEPOSIT_AMOUNT)
+      expect(await vault.connect(holder).balanceOf(holderAddress)).to.equal(0n)
+    })
+
+    it('Should not allow withdrawing more than the owner holds', async function () {
+      await expect(vault.connect(holder).withdraw(DEPOSIT_AMOUNT + 1n, holderAddress, holderAddress))
+        .to.be.revertedWithCustomError(vault, 'ERC4626ExceededMaxWithdraw')
+        .withArgs(holderAddress, DEPOSIT_AMOUNT + 1n, DEPOSIT_AMOUNT)
+    })
+  })
+
+  describe('redeem', function () {
+    it('Should return the assets of the redeemed shares', async function () {
+      await vault.connect(holder).deposit(DEPOSIT_AMOUNT, holderAddress)
+
+      const tx = vault.connect(holder).redeem(DEPOSIT_AMOUNT, spenderAddress, holderAddress)
+      const [event] = (await vaultPrivateEvents(tx)).filter((e) => e.type === 'Withdraw')
+      expectPrivateEvent(event, 'Withdraw')
+      expect(event.receiver).to.equal(spenderAddress)
+      expect(event.assets).to.equal(DEPOSIT_AMOUNT)
+      expect(event.allowedViewers).to.deep.equal([holderAddress, spenderAddress])
+
+      expect(await asset.connect(spender).balanceOf(spenderAddress)).to.equal(DEPOSIT_AMOUNT)
+      expect(await vault.totalAssets()).to.equal(0n)
+    })
+  })
+
+  describe('Vault Views', function () {
+    beforeEach(async function () {
+      await vault.connect(holder).deposit(DEPOSIT_AMOUNT, holderAddress)
+    })
+
+    it('Should allow supply viewers to view the holdings and share price', async function () {
+      expect(await vault.totalAssets()).to.equal(DEPOSIT_AMOUNT)
+      expect(await vault.totalSupply()).to.equal(DEPOSIT_AMOUNT)
+      expect(await vault.convertToShares(DEPOSIT_AMOUNT)).to.equal(DEPOSIT_AMOUNT)
+      expect(await vault.previewRedeem(DEPOSIT_AMOUNT)).to.equal(DEPOSIT_AMOUNT)
+    })
+
+    it('Should not allow other addresses to view the holdings and share price', async function () {
+      await expect(vault.connect(holder).totalAssets())
+        .to.be.revertedWithCustomError(vault, 'UCEFUnauthorizedSupplyAccess')
+        .withArgs(holderAddress)
+      await expect(vault.connect(holder).convertToAssets(DEPOSIT_AMOUNT))
+        .to.be.revertedWithCustomError(vault, 'UCEFUnauthorizedSupplyAccess')
+        .withArgs(holderAddress)
+      await expect(vault.connect(holder).previewDeposit(DEPOSIT_AMOUNT))
+        .to.be.revertedWithCustomError(vault, 'UCEFUnauthorizedSupplyAccess')
+        .withArgs(holderAddress)
+    })
+
+    it('Should restrict maxWithdraw and maxRedeem to the owner', async function () {
+      expect(await vault.connect(holder).maxWithdraw(holderAddress)).to.equal(DEPOSIT_AMOUNT)
+      expect(await vault.connect(holder).maxRedeem(holderAddress)).to.equal(DEPOSIT_AMOUNT)
+
+      await expect(vault.connect(spender).maxWithdraw(holderAddress))
+        .to.be.revertedWithCustomError(vault, 'UCEFUnauthorizedBalanceAccess')
+        .withArgs(spenderAddress, holderAddress)
+      await expect(vault.connect(spender).maxRedeem(holderAddress))
+        .to.be.revertedWithCustomError(vault, 'UCEFUnauthorizedBalanceAccess')
+        .withArgs(spenderAddress, holderAddress)
+    })
+  })
+})
@@ -0,0 +1,144 @@
+import { expect } from 'chai'
+import { ethers } from 'hardhat'
+import { Signer, TransactionReceipt } from 'ethers'
+import { mine } from '@nomicfoundation/hardhat-network-helpers'
+import { decodePrivateEvents } from '@appliedblockchain/ucef'
+import { MockVoteTallier, UCEFOnlyOwnerConfidentialVotes } from '../../typechain-types'
+import { deployToken } from '../fixtures/deploy-token'
+import { expectPrivateEvent } from '../fixtures/private-events'
+
+describe('UCEFOnlyOwnerConfidentialVotes', function () {
+  let token: UCEFOnlyOwnerConfidentialVotes
+  let holder: Signer
+  let delegatee: Signer
+  let stranger: Signer
+  let holderAddress: string
+  let delegateeAddress: string
+  let strangerAddress: string
+
+  const INITIAL_SUPPLY = ethers.parseUnits('100', 18)
+
+  beforeEach(async function () {
+    ;[, holder, delegatee, stranger] = await ethers.getSigners()
+    holderAddress = await holder.getAddress()
+    delegateeAddress = await delegatee.getAddress()
+    strangerAddress = await stranger.getAddress()
+
+    token = await deployToken<UCEFOnlyOwnerConfidentialVotes>('UCEFOnlyOwnerConfidentialVotes', [], {})
+    await token.mint(holderAddress, INITIAL_SUPPLY)
+  })
+
+  describe('Delegation', function () {
+    it('Should emit delegation changes as private events', async function () {
+      const tx = await token.connect(holder).delegate(delegateeAddress)
+
+      const receipt = (await tx.wait()) as TransactionReceipt
+      const topics = receipt.logs.map((log) => log.topics[0])
+      expect(topics).not.to.include(token.interface.getEvent('DelegateChanged').topicHash)
+      expect(topics).not.to.include(token.interface.getEvent('DelegateVotesChanged').topicHash)
+
+      const [delegateChanged, delegateVotesChanged] = decodePrivateEvents(receipt)
+      expectPrivateEvent(delegateChanged, 'DelegateChanged')
+      expect(delegateChanged.delegator).to.equal(holderAddress)
+      expect(delegateChanged.fromDelegate).to.equal(ethers.ZeroAddress)
+      expect(delegateChanged.toDelegate).to.equal(delegateeAddress)
+      expect(delegateChanged.allowedViewers).to.deep.equal([holderAddress, delegateeAddress])
+
+      expectPrivateEvent(delegateVotesChanged, 'DelegateVotesChanged')
+      expect(delegateVotesChanged.delegate).to.equal(delegateeAddress)
+      expect(delegateVotesChanged.newVotes).to.equal(INITIAL_SUPPLY)
+      expect(delegateVotesChanged.allowedViewers).to.deep.equal([delegateeAddress])
+    })
+
+    it('Should move voting power with transfers', async function () {
+      await token.connect(holder).delegate(holderAddress)
+      await token.connect(holder).transfer(strangerAddress, INITIAL_SUPPLY / 4n)
+
+      expect(await token.connect(holder).getVotes(holderAddress)).to.equal((INITIAL_SUPPLY * 3n) / 4n)
+    })
+  })
+
+  describe('Vote Views', function () {
+    beforeEach(async function () {
+      await token.connect(holder).delegate(holderAddress)
+    })
+
+    it('Should allow the account to view its votes', async function () {
+      expect(await token.connect(holder).getVotes(holderAddress)).to.equal(INITIAL_SUPPLY)
+      expect(await token.connect(holder).delegates(holderAddress)).to.equal(holderAddress)
+      expect(await token.connect(holder).numCheckpoints(holderAddress)).to.equal(1n)
+    })
+
+    it('Should not allow other addresses to view the votes of an account', async function () {
+      await expect(token.connect(stranger).getVotes(holderAddress))
+        .to.be.revertedWithCustomError(token, 'UCEFUnauthorizedBalanceAccess')
+        .withArgs(strangerAddress, holderAddress)
+      await expect(token.connect(stranger).delegates(holderAddress))
+        .to.be.revertedWithCustomError(token, 'UCEFUnauthorizedBalanceAccess')
+        .withArgs(strangerAddress, holderAddress)
+      await expect(token.connect(stranger).checkpoints(holderAddress, 0))
+        .to.be.revertedWithCustomError(token, 'UCEFUnauthorizedBalanceAccess')
+        .withArgs(strangerAddress, holderAddress)
+    })
+
+    it('Should allow vote talliers to view the votes of any account', async function () {
+      await token.setVoteTallier(strangerAddress, true)
+      const blockNumber = await ethers.provider.getBlockNumber()
+      await mine()
+
+      expect(await token.connect(stranger).getPastVotes(holderAddress, blockNumber)).to.equal(INITIAL_SUPPLY)
+      expect(await token.connect(stranger).getPastTotalSupply(blockNumber)).to.equal(INITIAL_SUPPLY)
+    })
+
+    it('Should not allow removed vote talliers to view past votes', async function () {
+      await token.setVoteTallier(strangerAddress, true)
+      await token.setVoteTallier(strangerAddress, false)
+      const blockNumber = await ethers.provider.getBlockNumber()
+      await mine()
+
+      await expect(token.connect(stranger).getPastVotes(holderAddress, blockNumber))
+        .to.be.revertedWithCustomError(token, 'UCEFUnauthorizedBalanceAccess')
+        .withArgs(strangerAddress, holderAddress)
+    })
+
+    it('Should only allow the owner to manage vote talliers', async function () {
+      await expect(token.connect(holder).setVoteTallier(holderAddress, true))
+        .to.be.revertedWithCustomError(token, 'OwnableUnauthorizedAccount')
+        .withArgs(holderAddress)
+    })
+  })
+
+  describe('Vote tallier contract', function () {
+    let tallier: MockVoteTallier
+    let tallierAddress: string
+    let proposalId: bigint
+
+    beforeEach(async function () {
+      await token.connect(holder).delegate(holderAddress)
+
+      const TallierFactory = await ethers.getContractFactory('MockVoteTallier')
+      tallier = (await TallierFactory.deploy(await token.getAddress())) as unknown as MockVoteTallier
+      await tallier.waitForDeployment()
+      tallierAddress = await tallier.getAddress()
+
+      await tallier.connect(holder).propose()
+      proposalId = await tallier.proposalCount()
+      await mine()
+    })
+
+    it('Should tally votes and quorum when the contract is a vote tallier', async function () {
+      await token.setVoteTallier(tallierAddress, true)
+
+      await tallier.connect(holder).castVote(proposalId)
+      expect(await tallier.proposalVotes(proposalId)).to.equal(INITIAL_SUPPLY)
+      expect(await tallier.quorum(await tallier.proposalSnapshot(proposalId))).to.equal((INITIAL_SUPPLY * 4n) / 100n)
+      expect(await tallier.quorumReached(proposalId)).to.be.true
+    })
+
+    it('Should not allow an unregistered contract to tally votes', async function () {
+      await expect(tallier.connect(holder).castVote(proposalId))
+        .to.be.revertedWithCustomError(token, 'UCEFUnauthorizedBalanceAccess')
+        .withArgs(tallierAddress, holderAddress)
+    })
+  })
+})
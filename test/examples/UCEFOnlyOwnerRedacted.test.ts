@@ -0,0 +1,45 @@
+import { expect } from 'chai'
+import { ethers } from 'hardhat'
+import { Signer } from 'ethers'
+import { UCEFOnlyOwnerRedacted } from '../../typechain-types'
+import { deployToken } from '../fixtures/deploy-token'
+
+describe('UCEFOnlyOwnerRedacted', function () {
+  let token: UCEFOnlyOwnerRedacted
+  let owner: Signer
+  let spender: Signer
+  let ownerAddress: string
+  let spenderAddress: string
+
+  const INITIAL_SUPPLY = ethers.parseUnits('100', 18)
+  const EXCESS_AMOUNT = ethers.parseUnits('150', 18)
+  const CAP = ethers.parseUnits('1000000', 18)
+
+  beforeEach(async function () {
+    ;[owner, spender] = await ethers.getSigners()
+    ownerAddress = await owner.getAddress()
+    spenderAddress = await spender.getAddress()
+
+    token = await deployToken<UCEFOnlyOwnerRedacted>('UCEFOnlyOwnerRedacted', [], { initialSupply: INITIAL_SUPPLY })
+  })
+
+  it('Should reveal the balance to the account owner', async function () {
+    await expect(token.transfer(spenderAddress, EXCESS_AMOUNT))
+      .to.be.revertedWithCustomError(token, 'ERC20InsufficientBalance')
+      .withArgs(ownerAddress, INITIAL_SUPPLY, EXCESS_AMOUNT)
+  })
+
+  it('Should redact the balance for spenders', async function () {
+    await token.approve(spenderAddress, ethers.MaxUint256)
+
+    await expect(token.connect(spender).transferFrom(ownerAddress, spenderAddress, EXCESS_AMOUNT))
+      .to.be.revertedWithCustomError(token, 'ERC20InsufficientBalance')
+      .withArgs(ownerAddress, 0n, EXCESS_AMOUNT)
+  })
+
+  it('Should redact the total supply when exceeding the cap', async function () {
+    await expect(token.connect(spender).mint(spenderAddress, CAP))
+      .to.be.revertedWithCustomError(token, 'ERC20ExceededCap')
+      .withArgs(0n, CAP)
+  })
+})
@@ -1,8 +1,11 @@
 import { expect } from 'chai'
 import { ethers } from 'hardhat'
-import { Signer } from 'ethers'
+import { Signer, TransactionReceipt } from 'ethers'
+import { time } from '@nomicfoundation/hardhat-network-helpers'
+import { decodePrivateEvents, formatSharingState, getSharingState } from '@appliedblockchain/ucef'
 import { UCEFOnlyOwnerSharable } from '../../typechain-types'
 import { deployToken } from '../fixtures/deploy-token'
+import { expectPrivateEvent } from '../fixtures/private-events'
 
 describe('UCEFOnlyOwnerSharable', function () {
   let token: UCEFOnlyOwnerSharable
@@ -132,6 +135,207 @@ describe('UCEFOnlyOwnerSharable', function () {
     })
   })
 
+  describe('Viewer grants', function () {
+    const ONE_DAY = 24 * 60 * 60
+
+    beforeEach(async function () {
+      await token.mint(user1Address, INITIAL_SUPPLY)
+    })
+
+    it('Should grant viewing permission until the expiry', async function () {
+      const expiry = (await time.latest()) + ONE_DAY
+      await token.connect(user1).grantViewerUntil(viewerAddress, expiry, await token.SCOPE_BALANCE())
+
+      expect(await token.viewerGrant(user1Address, viewerAddress)).to.deep.equal([BigInt(expiry), 1n])
+      expect(await token.connect(viewer).balanceOf(user1Address)).to.equal(INITIAL_SUPPLY)
+
+      await time.increaseTo(expiry)
+
+      expect(await token.hasViewPermission(user1Address, viewerAddress)).to.be.false
+      expect(await token.viewerGrant(user1Address, viewerAddress)).to.deep.equal([0n, 0n])
+      await expect(token.connect(viewer).balanceOf(user1Address)).to.be.revertedWithCustomError(
+        token,
+        'UCEFSharableUnauthorizedViewer',
+      )
+    })
+
+    it('Should announce the expiry and scope in a ViewerGrantUpdated private event', async function () {
+      const expiry = (await time.latest()) + ONE_DAY
+      const tx = await token.connect(user1).grantViewerUntil(viewerAddress, expiry, await token.SCOPE_ALL())
+
+      const [permission, grant] = decodePrivateEvents((await tx.wait()) as TransactionReceipt)
+      expectPrivateEvent(permission, 'ViewerPermissionUpdated')
+      expect(permission.eventType).to.equal(ethers.id('ViewerPermissionUpdated(address,address,bool)'))
+      expect(permission.status).to.be.true
+
+      expectPrivateEvent(grant, 'ViewerGrantUpdated')
+      expect(grant.eventType).to.equal(await token.EVENT_TYPE_VIEWER_GRANT_UPDATED())
+      expect(grant.account).to.equal(user1Address)
+      expect(grant.viewer).to.equal(viewerAddress)
+      expect(grant.expiry).to.equal(BigInt(expiry))
+      expect(grant.scope).to.equal(await token.SCOPE_ALL())
+      expect(grant.allowedViewers).to.deep.equal(permission.allowedViewers)
+    })
+
+    it('Should not allow expired or empty grants', async function () {
+      const now = await time.latest()
+      await expect(token.connect(user1).grantViewerUntil(viewerAddress, now, 1))
+        .to.be.revertedWithCustomError(token, 'UCEFSharableInvalidGrant')
+        .withArgs(now, 1)
+      await expect(
+        token.connect(user1).grantViewerUntil(viewerAddress, now + ONE_DAY, 0),
+      ).to.be.revertedWithCustomError(token, 'UCEFSharableInvalidGrant')
+      await expect(
+        token.connect(user1).grantViewerUntil(viewerAddress, now + ONE_DAY, 8),
+      ).to.be.revertedWithCustomError(token, 'UCEFSharableInvalidGrant')
+    })
+
+    it('Should only show balances to viewers with the balance scope', async function () {
+      const expiry = (await time.latest()) + ONE_DAY
+      await token.connect(user1).grantViewerUntil(viewerAddress, expiry, await token.SCOPE_TRANSFER_EVENTS())
+
+      await expect(token.connect(viewer).balanceOf(user1Address)).to.be.revertedWithCustomError(
+        token,
+        'UCEFSharableUnauthorizedViewer',
+      )
+    })
+
+    it('Should include viewers with the transfer events scope in transfer events', async function () {
+      const expiry = (await time.latest()) + ONE_DAY
+      await token.connect(user1).grantViewerUntil(viewerAddress, expiry, await token.SCOPE_TRANSFER_EVENTS())
+      await token.connect(user2).grantViewer(supervisorAddress)
+
+      const tx = await token.connect(user1).transfer(user2Address, TRANSFER_AMOUNT)
+      const [event] = decodePrivateEvents((await tx.wait()) as TransactionReceipt)
+      expect(event.allowedViewers).to.deep.equal([ownerAddress, user1Address, user2Address, viewerAddress])
+
+      await time.increaseTo(expiry)
+
+      const expiredTx = await token.connect(user1).transfer(user2Address, TRANSFER_AMOUNT)
+      const [expiredEvent] = decodePrivateEvents((await expiredTx.wait()) as TransactionReceipt)
+      expect(expiredEvent.allowedViewers).to.deep.equal([ownerAddress, user1Address, user2Address])
+    })
+
+    it('Should include viewers granted by both parties once in transfer events', async function () {
+      const expiry = (await time.latest()) + ONE_DAY
+      const scope = await token.SCOPE_TRANSFER_EVENTS()
+      await token.connect(user1).grantViewerUntil(viewerAddress, expiry, scope)
+      await token.connect(user2).grantViewerUntil(viewerAddress, expiry, scope)
+      await token.connect(user2).grantViewerUntil(user1Address, expiry, scope)
+
+      const tx = await token.connect(user1).transfer(user2Address, TRANSFER_AMOUNT)
+      const [event] = decodePrivateEvents((await tx.wait()) as TransactionReceipt)
+      expect(event.allowedViewers).to.deep.equal([ownerAddress, user1Address, user2Address, viewerAddress])
+    })
+
+    it('Should include viewers once in self-transfer events', async function () {
+      const expiry = (await time.latest()) + ONE_DAY
+      await token.connect(user1).grantViewerUntil(viewerAddress, expiry, await token.SCOPE_TRANSFER_EVENTS())
+
+      const tx = await token.connect(user1).transfer(user1Address, TRANSFER_AMOUNT)
+      const [event] = decodePrivateEvents((await tx.wait()) as TransactionReceipt)
+      expectPrivateEvent(event, 'Transfer')
+      expect(event.allowedViewers).to.deep.equal([ownerAddress, user1Address, viewerAddress])
+      expect(event.from).to.equal(user1Address)
+      expect(event.to).to.equal(user1Address)
+    })
+
+    it('Should only show allowances to viewers with the allowances scope', async function () {
+      await token.connect(user1).approve(user2Address, TRANSFER_AMOUNT)
+      await expect(token.connect(viewer).allowance(user1Address, user2Address)).to.be.revertedWithCustomError(
+        token,
+        'UCEFUnauthorizedBalanceAccess',
+      )
+
+      const expiry = (await time.latest()) + ONE_DAY
+      await token.connect(user1).grantViewerUntil(viewerAddress, expiry, await token.SCOPE_ALLOWANCES())
+
+      expect(await token.connect(viewer).allowance(user1Address, user2Address)).to.equal(TRANSFER_AMOUNT)
+    })
+  })
+
+  describe('Viewer lists', function () {
+    const ONE_DAY = 24 * 60 * 60
+
+    it('Should list the viewers with an active grant', async function () {
+      const expiry = (await time.latest()) + ONE_DAY
+      await token.connect(user1).grantViewer(viewerAddress)
+      await token.connect(user1).grantViewerUntil(user2Address, expiry, await token.SCOPE_ALL())
+
+      expect(await token.connect(user1).viewersOf(user1Address)).to.deep.equal([viewerAddress, user2Address])
+
+      await time.increaseTo(expiry)
+
+      expect(await token.connect(user1).viewersOf(user1Address)).to.deep.equal([viewerAddress])
+    })
+
+    it('Should only allow the account owner and the supervisor to list viewers', async function () {
+      await token.connect(user1).grantViewer(viewerAddress)
+
+      expect(await token.connect(owner).viewersOf(user1Address)).to.deep.equal([viewerAddress])
+      await expect(token.connect(viewer).viewersOf(user1Address))
+        .to.be.revertedWithCustomError(token, 'UCEFSharableUnauthorizedViewer')
+        .withArgs(viewerAddress)
+    })
+
+    it('Should cap the number of viewers of an account', async function () {
+      const maxViewers = Number(await token.MAX_VIEWERS())
+      const viewers = Array.from({ length: maxViewers }, () => ethers.Wallet.createRandom().address)
+      for (const address of viewers) {
+        await token.connect(user1).grantViewer(address)
+      }
+
+      await expect(token.connect(user1).grantViewer(viewerAddress))
+        .to.be.revertedWithCustomError(token, 'UCEFSharableTooManyViewers')
+        .withArgs(user1Address)
+      // Existing viewers can still be granted again
+      await token.connect(user1).grantViewerUntil(viewers[0], (await time.latest()) + ONE_DAY, await token.SCOPE_ALL())
+    })
+
+    it('Should revoke expired grants to make room for new viewers', async function () {
+      const maxViewers = Number(await token.MAX_VIEWERS())
+      const expiry = (await time.latest()) + ONE_DAY
+      const viewers = Array.from({ length: maxViewers }, () => ethers.Wallet.createRandom().address)
+      await token.connect(user1).grantViewerUntil(viewers[0], expiry, await token.SCOPE_BALANCE())
+      for (const address of viewers.slice(1)) {
+        await token.connect(user1).grantViewer(address)
+      }
+
+      await time.increaseTo(expiry)
+
+      const tx = await token.connect(user1).grantViewer(viewerAddress)
+      const [revoked, granted] = decodePrivateEvents((await tx.wait()) as TransactionReceipt)
+      expectPrivateEvent(revoked, 'ViewerPermissionUpdated')
+      expectPrivateEvent(granted, 'ViewerPermissionUpdated')
+      expect(revoked.viewer).to.equal(viewers[0])
+      expect(revoked.status).to.be.false
+      expect(granted.viewer).to.equal(viewerAddress)
+      expect(granted.status).to.be.true
+      expect(await token.connect(user1).viewersOf(user1Address)).to.have.lengthOf(maxViewers)
+    })
+
+    it('Should revoke all viewers', async function () {
+      await token.connect(user1).grantViewer(viewerAddress)
+      await token.connect(user1).grantViewer(user2Address)
+      await token.connect(user1).revokeAllViewers()
+
+      expect(await token.connect(user1).viewersOf(user1Address)).to.deep.equal([])
+      expect(await token.hasViewPermission(user1Address, viewerAddress)).to.be.false
+      expect(await token.hasViewPermission(user1Address, user2Address)).to.be.false
+    })
+
+    it('Should render the sharing state of an account', async function () {
+      await token.connect(user1).grantViewer(viewerAddress)
+
+      const state = await getSharingState(user1, await token.getAddress(), user1Address)
+      expect(state.supervisor).to.equal(ownerAddress)
+      expect(state.viewers).to.have.lengthOf(1)
+      expect(state.viewers[0].viewer).to.equal(viewerAddress)
+      expect(state.viewers[0].scopes).to.deep.equal(['balance'])
+      expect(formatSharingState(state)).to.contain(`${viewerAddress} [balance] expires never`)
+    })
+  })
+
   describe('Supervisor management', function () {
     it('Should allow supervisor to update supervisor', async function () {
       await expect(token.connect(owner).updateSupervisor(supervisorAddress))
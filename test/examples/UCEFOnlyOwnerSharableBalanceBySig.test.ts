@@ -0,0 +1,74 @@
+import { expect } from 'chai'
+import { ethers } from 'hardhat'
+import { Signer } from 'ethers'
+import { time } from '@nomicfoundation/hardhat-network-helpers'
+import { balanceOfWithSignature, signBalanceQuery } from '@appliedblockchain/ucef'
+import { UCEFOnlyOwnerSharableBalanceBySig } from '../../typechain-types'
+import { deployToken } from '../fixtures/deploy-token'
+
+describe('UCEFOnlyOwnerSharableBalanceBySig', function () {
+  let token: UCEFOnlyOwnerSharableBalanceBySig
+  let tokenAddress: string
+  let holder: Signer
+  let auditor: Signer
+  let holderAddress: string
+  let auditorAddress: string
+
+  const INITIAL_SUPPLY = ethers.parseUnits('100', 18)
+  const ONE_HOUR = 60 * 60
+
+  beforeEach(async function () {
+    ;[, holder, auditor] = await ethers.getSigners()
+    holderAddress = await holder.getAddress()
+    auditorAddress = await auditor.getAddress()
+
+    token = await deployToken<UCEFOnlyOwnerSharableBalanceBySig>('UCEFOnlyOwnerSharableBalanceBySig', [], {})
+    tokenAddress = await token.getAddress()
+    await token.mint(holderAddress, INITIAL_SUPPLY)
+  })
+
+  async function signQuery(signer: Signer, deadlineOffset = ONE_HOUR) {
+    return signBalanceQuery(signer, tokenAddress, {
+      account: holderAddress,
+      deadline: (await time.latest()) + deadlineOffset,
+    })
+  }
+
+  it('Should return the balance to the account owner from any caller', async function () {
+    const query = await signQuery(holder)
+
+    expect(await balanceOfWithSignature(ethers.provider, tokenAddress, query)).to.equal(INITIAL_SUPPLY)
+  })
+
+  it('Should return the balance to viewers granted by the account owner', async function () {
+    await token.connect(holder).grantViewer(auditorAddress)
+    const query = await signQuery(auditor)
+
+    expect(await balanceOfWithSignature(ethers.provider, tokenAddress, query)).to.equal(INITIAL_SUPPLY)
+  })
+
+  it('Should not return the balance to unauthorized viewers', async function () {
+    const { account, viewer, deadline, signature } = await signQuery(auditor)
+
+    await expect(token.balanceOfWithSignature(account, viewer, deadline, signature))
+      .to.be.revertedWithCustomError(token, 'UCEFUnauthorizedBalanceAccess')
+      .withArgs(auditorAddress, holderAddress)
+  })
+
+  it('Should not accept a signature from another address than the viewer', async function () {
+    const { account, deadline, signature } = await signQuery(auditor)
+
+    await expect(
+      token.balanceOfWithSignature(account, holderAddress, deadline, signature),
+    ).to.be.revertedWithCustomError(token, 'UCEFBalanceQueryInvalidSigner')
+  })
+
+  it('Should not accept expired signatures', async function () {
+    const { account, viewer, deadline, signature } = await signQuery(holder, 60)
+    await time.increase(120)
+
+    await expect(token.balanceOfWithSignature(account, viewer, deadline, signature))
+      .to.be.revertedWithCustomError(token, 'UCEFBalanceQueryExpiredSignature')
+      .withArgs(deadline)
+  })
+})
@@ -0,0 +1,92 @@
+import { expect } from 'chai'
+import { ethers } from 'hardhat'
+import { Signer } from 'ethers'
+import { time } from '@nomicfoundation/hardhat-network-helpers'
+import { anyValue } from '@nomicfoundation/hardhat-chai-matchers/withArgs'
+import { signViewerGrant, signViewerRevocation } from '@appliedblockchain/ucef'
+import { UCEFOnlyOwnerSharableBySig } from '../../typechain-types'
+import { deployToken } from '../fixtures/deploy-token'
+
+describe('UCEFOnlyOwnerSharableBySig', function () {
+  let token: UCEFOnlyOwnerSharableBySig
+  let tokenAddress: string
+  let holder: Signer
+  let auditor: Signer
+  let relayer: Signer
+  let holderAddress: string
+  let auditorAddress: string
+
+  const INITIAL_SUPPLY = ethers.parseUnits('100', 18)
+  const ONE_DAY = 24 * 60 * 60
+
+  beforeEach(async function () {
+    ;[, holder, auditor, relayer] = await ethers.getSigners()
+    holderAddress = await holder.getAddress()
+    auditorAddress = await auditor.getAddress()
+
+    token = await deployToken<UCEFOnlyOwnerSharableBySig>('UCEFOnlyOwnerSharableBySig', [], {})
+    tokenAddress = await token.getAddress()
+    await token.mint(holderAddress, INITIAL_SUPPLY)
+  })
+
+  async function signGrant(signer: Signer = holder, deadlineOffset = ONE_DAY) {
+    const now = await time.latest()
+    return signViewerGrant(signer, tokenAddress, {
+      viewer: auditorAddress,
+      expiry: now + 7 * ONE_DAY,
+      scope: await token.SCOPE_BALANCE(),
+      deadline: now + deadlineOffset,
+    })
+  }
+
+  describe('grantViewerBySig', function () {
+    it('Should grant viewing permission from a relayed signature', async function () {
+      const { account, viewer, expiry, scope, deadline, v, r, s } = await signGrant()
+      await token.connect(relayer).grantViewerBySig(account, viewer, expiry, scope, deadline, v, r, s)
+
+      expect(await token.hasViewPermission(holderAddress, auditorAddress)).to.be.true
+      expect(await token.connect(auditor).balanceOf(holderAddress)).to.equal(INITIAL_SUPPLY)
+      expect(await token.nonces(holderAddress)).to.equal(1n)
+    })
+
+    it('Should not allow replaying a signature', async function () {
+      const { account, viewer, expiry, scope, deadline, v, r, s } = await signGrant()
+      await token.connect(relayer).grantViewerBySig(account, viewer, expiry, scope, deadline, v, r, s)
+
+      await expect(
+        token.connect(relayer).grantViewerBySig(account, viewer, expiry, scope, deadline, v, r, s),
+      ).to.be.revertedWithCustomError(token, 'UCEFSharableInvalidSigner')
+    })
+
+    it('Should not allow signatures from another account', async function () {
+      const { viewer, expiry, scope, deadline, v, r, s } = await signGrant(auditor)
+
+      await expect(token.connect(relayer).grantViewerBySig(holderAddress, viewer, expiry, scope, deadline, v, r, s))
+        .to.be.revertedWithCustomError(token, 'UCEFSharableInvalidSigner')
+        .withArgs(anyValue, holderAddress)
+    })
+
+    it('Should not allow expired signatures', async function () {
+      const { account, viewer, expiry, scope, deadline, v, r, s } = await signGrant(holder, 60)
+      await time.increase(120)
+
+      await expect(token.connect(relayer).grantViewerBySig(account, viewer, expiry, scope, deadline, v, r, s))
+        .to.be.revertedWithCustomError(token, 'UCEFSharableExpiredSignature')
+        .withArgs(deadline)
+    })
+  })
+
+  describe('revokeViewerBySig', function () {
+    it('Should revoke viewing permission from a relayed signature', async function () {
+      await token.connect(holder).grantViewer(auditorAddress)
+
+      const { account, viewer, deadline, v, r, s } = await signViewerRevocation(holder, tokenAddress, {
+        viewer: auditorAddress,
+        deadline: (await time.latest()) + ONE_DAY,
+      })
+      await token.connect(relayer).revokeViewerBySig(account, viewer, deadline, v, r, s)
+
+      expect(await token.hasViewPermission(holderAddress, auditorAddress)).to.be.false
+    })
+  })
+})
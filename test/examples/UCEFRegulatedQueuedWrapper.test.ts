@@ -0,0 +1,246 @@
+import { expect } from 'chai'
+import { ethers } from 'hardhat'
+import { ContractTransactionResponse, Signer, TransactionReceipt } from 'ethers'
+import { time } from '@nomicfoundation/hardhat-network-helpers'
+import {
+  WithdrawalFailedEvent,
+  WithdrawalRequestedEvent,
+  WithdrawalSettledEvent,
+  decodePrivateEvents,
+} from '@appliedblockchain/ucef'
+import { MockBlockingToken, UCEFOnlyOwner, UCEFRegulatedQueuedWrapper } from '../../typechain-types'
+import { deployToken } from '../fixtures/deploy-token'
+
+describe('UCEFRegulatedQueuedWrapper', function () {
+  let underlying: UCEFOnlyOwner
+  let wrapper: UCEFRegulatedQueuedWrapper
+  let regulator: Signer
+  let holder: Signer
+  let recipient: Signer
+  let regulatorAddress: string
+  let holderAddress: string
+  let recipientAddress: string
+  let wrapperAddress: string
+
+  const INITIAL_BALANCE = ethers.parseUnits('1000', 18)
+  const DEPOSIT_AMOUNT = ethers.parseUnits('100', 18)
+  const DELAY = 3600
+  const BATCH_INTERVAL = 86400
+
+  beforeEach(async function () {
+    ;[regulator, holder, recipient] = await ethers.getSigners()
+    regulatorAddress = await regulator.getAddress()
+    holderAddress = await holder.getAddress()
+    recipientAddress = await recipient.getAddress()
+
+    underlying = await deployToken<UCEFOnlyOwner>('UCEFOnlyOwner', [], {})
+    await underlying.mint(holderAddress, INITIAL_BALANCE)
+
+    const WrapperFactory = await ethers.getContractFactory('UCEFRegulatedQueuedWrapper')
+    wrapper = (await WrapperFactory.deploy(await underlying.getAddress())) as unknown as UCEFRegulatedQueuedWrapper
+    await wrapper.waitForDeployment()
+    wrapperAddress = await wrapper.getAddress()
+
+    await underlying.connect(holder).approve(wrapperAddress, ethers.MaxUint256)
+    await wrapper.connect(holder).depositFor(holderAddress, DEPOSIT_AMOUNT)
+  })
+
+  async function wrapperPrivateEvents(tx: Promise<ContractTransactionResponse>) {
+    const receipt = (await (await tx).wait()) as TransactionReceipt
+    return decodePrivateEvents(receipt).filter((event) => event.log.address === wrapperAddress)
+  }
+
+  describe('Requesting Withdrawals', function () {
+    it('Should burn the wrapped tokens and queue the withdrawal', async function () {
+      const tx = wrapper.connect(holder).withdrawTo(recipientAddress, DEPOSIT_AMOUNT)
+
+      const [event] = (await wrapperPrivateEvents(tx)).filter(
+        (e): e is WithdrawalRequestedEvent => e.type === 'WithdrawalRequested',
+      )
+      expect(event.type).to.equal('WithdrawalRequested')
+      expect(event.requestId).to.equal(0n)
+      expect(event.owner).to.equal(holderAddress)
+      expect(event.receiver).to.equal(recipientAddress)
+      expect(event.value).to.equal(DEPOSIT_AMOUNT)
+      expect(event.allowedViewers).to.deep.equal([regulatorAddress, holderAddress])
+
+      expect(await wrapper.connect(holder).balanceOf(holderAddress)).to.equal(0n)
+      expect(await underlying.connect(recipient).balanceOf(recipientAddress)).to.equal(0n)
+      expect(await wrapper.queuedAssets()).to.equal(DEPOSIT_AMOUNT)
+    })
+
+    it('Should round the settlement time up to the next batch', async function () {
+      await wrapper.setWithdrawalDelay(DELAY)
+      await wrapper.setWithdrawalBatchInterval(BATCH_INTERVAL)
+
+      await wrapper.connect(holder).requestWithdrawal(holderAddress, DEPOSIT_AMOUNT / 2n)
+      await time.increase(DELAY)
+      await wrapper.connect(holder).requestWithdrawal(holderAddress, DEPOSIT_AMOUNT / 2n)
+
+      const first = await wrapper.connect(holder).withdrawalRequest(0)
+      const second = await wrapper.connect(holder).withdrawalRequest(1)
+      expect(first.readyAt % BigInt(BATCH_INTERVAL)).to.equal(0n)
+      expect(second.readyAt).to.equal(first.readyAt)
+    })
+
+    it('Should not allow requesting more than the balance', async function () {
+      await expect(
+        wrapper.connect(holder).requestWithdrawal(holderAddress, DEPOSIT_AMOUNT + 1n),
+      ).to.be.revertedWithCustomError(wrapper, 'ERC20InsufficientBalance')
+    })
+  })
+
+  describe('Settling Withdrawals', function () {
+    beforeEach(async function () {
+      await wrapper.setWithdrawalDelay(DELAY)
+      await wrapper.connect(holder).withdrawTo(recipientAddress, DEPOSIT_AMOUNT)
+    })
+
+    it('Should not settle requests before they are ready', async function () {
+      expect(await wrapper.settleWithdrawals.staticCall(10)).to.equal(0n)
+    })
+
+    it('Should send the underlying tokens once ready', async function () {
+      await time.increase(DELAY)
+
+      const tx = wrapper.settleWithdrawals(10)
+      const [event] = (await wrapperPrivateEvents(tx)).filter(
+        (e): e is WithdrawalSettledEvent => e.type === 'WithdrawalSettled',
+      )
+      expect(event.type).to.equal('WithdrawalSettled')
+      expect(event.requestId).to.equal(0n)
+      expect(event.receiver).to.equal(recipientAddress)
+      expect(event.value).to.equal(DEPOSIT_AMOUNT)
+      expect(event.allowedViewers).to.deep.equal([regulatorAddress, holderAddress])
+
+      expect(await underlying.connect(recipient).balanceOf(recipientAddress)).to.equal(DEPOSIT_AMOUNT)
+      expect(await wrapper.queuedAssets()).to.equal(0n)
+      expect((await wrapper.connect(holder).withdrawalRequest(0)).settled).to.equal(true)
+    })
+
+    it('Should settle requests in order up to the given limit', async function () {
+      await wrapper.connect(holder).depositFor(holderAddress, DEPOSIT_AMOUNT)
+      await wrapper.connect(holder).withdrawTo(holderAddress, DEPOSIT_AMOUNT)
+      await time.increase(DELAY)
+
+      await wrapper.settleWithdrawals(1)
+      expect((await wrapper.connect(holder).withdrawalRequest(0)).settled).to.equal(true)
+      expect((await wrapper.connect(holder).withdrawalRequest(1)).settled).to.equal(false)
+
+      await wrapper.settleWithdrawals(1)
+      expect((await wrapper.connect(holder).withdrawalRequest(1)).settled).to.equal(true)
+    })
+  })
+
+  describe('Failed Withdrawals', function () {
+    let blockingUnderlying: MockBlockingToken
+    let blockingWrapper: UCEFRegulatedQueuedWrapper
+    let blockingWrapperAddress: string
+
+    beforeEach(async function () {
+      blockingUnderlying = await deployToken<MockBlockingToken>('MockBlockingToken', [], {})
+      await blockingUnderlying.mint(holderAddress, INITIAL_BALANCE)
+
+      const WrapperFactory = await ethers.getContractFactory('UCEFRegulatedQueuedWrapper')
+      blockingWrapper = (await WrapperFactory.deploy(
+        await blockingUnderlying.getAddress(),
+      )) as unknown as UCEFRegulatedQueuedWrapper
+      await blockingWrapper.waitForDeployment()
+      blockingWrapperAddress = await blockingWrapper.getAddress()
+
+      await blockingUnderlying.connect(holder).approve(blockingWrapperAddress, ethers.MaxUint256)
+      await blockingWrapper.connect(holder).depositFor(holderAddress, DEPOSIT_AMOUNT)
+      await blockingWrapper.connect(holder).withdrawTo(recipientAddress, DEPOSIT_AMOUNT / 2n)
+      await blockingWrapper.connect(holder).withdrawTo(holderAddress, DEPOSIT_AMOUNT / 2n)
+      await blockingUnderlying.setBlocked(recipientAddress, true)
+    })
+
+    it('Should mark failed transfers without blocking the queue', async function () {
+      const tx = await blockingWrapper.settleWithdrawals(10)
+      const events = decodePrivateEvents((await tx.wait()) as TransactionReceipt).filter(
+        (event) => event.log.address === blockingWrapperAddress,
+      )
+
+      const [failed] = events.filter((e): e is WithdrawalFailedEvent => e.type === 'WithdrawalFailed')
+      expect(failed.type).to.equal('WithdrawalFailed')
+      expect(failed.requestId).to.equal(0n)
+      expect(failed.receiver).to.equal(recipientAddress)
+      expect(failed.value).to.equal(DEPOSIT_AMOUNT / 2n)
+      expect(failed.allowedViewers).to.deep.equal([regulatorAddress, holderAddress])
+
+      const [settled] = events.filter((e): e is WithdrawalSettledEvent => e.type === 'WithdrawalSettled')
+      expect(settled.requestId).to.equal(1n)
+
+      const request = await blockingWrapper.connect(holder).withdrawalRequest(0)
+      expect(request.failed).to.equal(true)
+      expect(request.settled).to.equal(false)
+      expect(await blockingUnderlying.connect(holder).balanceOf(holderAddress)).to.equal(
+        INITIAL_BALANCE - DEPOSIT_AMOUNT / 2n,
+      )
+      expect(await blockingWrapper.queuedAssets()).to.equal(DEPOSIT_AMOUNT / 2n)
+    })
+
+    it('Should allow the requester to send a failed request to another receiver', async function () {
+      await blockingWrapper.settleWithdrawals(10)
+
+      const tx = await blockingWrapper.connect(holder).retryWithdrawal(0, holderAddress)
+      const [event] = decodePrivateEvents((await tx.wait()) as TransactionReceipt).filter(
+        (e): e is WithdrawalSettledEvent => e.type === 'WithdrawalSettled',
+      )
+      expect(event.type).to.equal('WithdrawalSettled')
+      expect(event.requestId).to.equal(0n)
+      expect(event.receiver).to.equal(holderAddress)
+      expect(event.value).to.equal(DEPOSIT_AMOUNT / 2n)
+
+      const request = await blockingWrapper.connect(holder).withdrawalRequest(0)
+      expect(request.settled).to.equal(true)
+      expect(request.receiver).to.equal(holderAddress)
+      expect(await blockingUnderlying.connect(holder).balanceOf(holderAddress)).to.equal(INITIAL_BALANCE)
+      expect(await blockingWrapper.queuedAssets()).to.equal(0n)
+
+      await expect(blockingWrapper.connect(holder).retryWithdrawal(0, holderAddress))
+        .to.be.revertedWithCustomError(blockingWrapper, 'UCEFWithdrawalRequestNotFailed')
+        .withArgs(0n)
+    })
+
+    it('Should only allow the requester to retry failed requests', async function () {
+      await blockingWrapper.settleWithdrawals(10)
+
+      await expect(blockingWrapper.connect(regulator).retryWithdrawal(0, regulatorAddress))
+        .to.be.revertedWithCustomError(blockingWrapper, 'UCEFUnauthorizedWithdrawalRequestAccess')
+        .withArgs(regulatorAddress, 0n)
+      await expect(blockingWrapper.connect(holder).retryWithdrawal(1, holderAddress))
+        .to.be.revertedWithCustomError(blockingWrapper, 'UCEFWithdrawalRequestNotFailed')
+        .withArgs(1n)
+    })
+  })
+
+  describe('Queue Privacy', function () {
+    beforeEach(async function () {
+      await wrapper.connect(holder).withdrawTo(recipientAddress, DEPOSIT_AMOUNT)
+    })
+
+    it('Should allow the requester and the regulator to view a request', async function () {
+      expect((await wrapper.connect(holder).withdrawalRequest(0)).value).to.equal(DEPOSIT_AMOUNT)
+      expect((await wrapper.connect(regulator).withdrawalRequest(0)).value).to.equal(DEPOSIT_AMOUNT)
+    })
+
+    it('Should not allow other addresses to view a request', async function () {
+      await expect(wrapper.connect(recipient).withdrawalRequest(0))
+        .to.be.revertedWithCustomError(wrapper, 'UCEFUnauthorizedWithdrawalRequestAccess')
+        .withArgs(recipientAddress, 0n)
+    })
+
+    it('Should revert for nonexistent requests', async function () {
+      await expect(wrapper.connect(holder).withdrawalRequest(1))
+        .to.be.revertedWithCustomError(wrapper, 'UCEFNonexistentWithdrawalRequest')
+        .withArgs(1n)
+    })
+
+    it('Should only allow the regulator to configure the queue', async function () {
+      await expect(wrapper.connect(holder).setWithdrawalDelay(DELAY))
+        .to.be.revertedWithCustomError(wrapper, 'UCEFRegulatedUnauthorizedAccount')
+        .withArgs(holderAddress)
+    })
+  })
+})
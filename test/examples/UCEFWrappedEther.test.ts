@@ -0,0 +1,111 @@
+import { expect } from 'chai'
+import { ethers } from 'hardhat'
+import { ContractTransactionResponse, Signer, TransactionReceipt } from 'ethers'
+import { NativeDepositEvent, WithdrawalEvent, decodePrivateEvents } from '@appliedblockchain/ucef'
+import { UCEFWrappedEther } from '../../typechain-types'
+import { deployToken } from '../fixtures/deploy-token'
+
+describe('UCEFWrappedEther', function () {
+  let token: UCEFWrappedEther
+  let holder: Signer
+  let recipient: Signer
+  let holderAddress: string
+  let recipientAddress: string
+  let tokenAddress: string
+
+  const DEPOSIT_AMOUNT = ethers.parseEther('1')
+
+  beforeEach(async function () {
+    ;[, holder, recipient] = await ethers.getSigners()
+    holderAddress = await holder.getAddress()
+    recipientAddress = await recipient.getAddress()
+
+    token = await deployToken<UCEFWrappedEther>('UCEFWrappedEther', [], {})
+    tokenAddress = await token.getAddress()
+  })
+
+  async function privateEvents(tx: Promise<ContractTransactionResponse>) {
+    return decodePrivateEvents((await (await tx).wait()) as TransactionReceipt)
+  }
+
+  async function expectExactReserve() {
+    expect(await ethers.provider.getBalance(tokenAddress)).to.equal(await token.totalSupply())
+  }
+
+  describe('deposit', function () {
+    it('Should wrap the native currency sent and emit a private NativeDeposit event', async function () {
+      const tx = token.connect(holder).deposit({ value: DEPOSIT_AMOUNT })
+      await expect(tx).to.changeEtherBalances([holder, token], [-DEPOSIT_AMOUNT, DEPOSIT_AMOUNT])
+
+      const [event] = (await privateEvents(tx)).filter((e): e is NativeDepositEvent => e.type === 'NativeDeposit')
+      expect(event.type).to.equal('NativeDeposit')
+      expect(event.account).to.equal(holderAddress)
+      expect(event.value).to.equal(DEPOSIT_AMOUNT)
+      expect(event.allowedViewers).to.deep.equal([holderAddress])
+
+      expect(await token.connect(holder).balanceOf(holderAddress)).to.equal(DEPOSIT_AMOUNT)
+      await expectExactReserve()
+    })
+
+    it('Should wrap native currency sent directly to the contract', async function () {
+      await holder.sendTransaction({ to: tokenAddress, value: DEPOSIT_AMOUNT })
+
+      expect(await token.connect(holder).balanceOf(holderAddress)).to.equal(DEPOSIT_AMOUNT)
+      await expectExactReserve()
+    })
+  })
+
+  describe('withdraw', function () {
+    beforeEach(async function () {
+      await token.connect(holder).deposit({ value: DEPOSIT_AMOUNT })
+    })
+
+    it('Should unwrap to the sender and emit a private Withdrawal event', async function () {
+      const amount = DEPOSIT_AMOUNT / 4n
+      const tx = token.connect(holder).withdraw(amount)
+      await expect(tx).to.changeEtherBalances([holder, token], [amount, -amount])
+
+      const [event] = (await privateEvents(tx)).filter((e): e is WithdrawalEvent => e.type === 'Withdrawal')
+      expect(event.type).to.equal('Withdrawal')
+      expect(event.account).to.equal(holderAddress)
+      expect(event.value).to.equal(amount)
+      expect(event.allowedViewers).to.deep.equal([holderAddress])
+
+      expect(await token.connect(holder).balanceOf(holderAddress)).to.equal(DEPOSIT_AMOUNT - amount)
+      await expectExactReserve()
+    })
+
+    it('Should unwrap to another account with withdrawTo', async function () {
+      await expect(token.connect(holder).withdrawTo(recipientAddress, DEPOSIT_AMOUNT)).to.changeEtherBalances(
+        [recipient, token],
+        [DEPOSIT_AMOUNT, -DEPOSIT_AMOUNT],
+      )
+
+      expect(await token.connect(holder).balanceOf(holderAddress)).to.equal(0n)
+      await expectExactReserve()
+    })
+
+    it('Should not allow unwrapping to the wrapper itself', async function () {
+      await expect(token.connect(holder).withdrawTo(tokenAddress, DEPOSIT_AMOUNT))
+        .to.be.revertedWithCustomError(token, 'ERC20InvalidReceiver')
+        .withArgs(tokenAddress)
+    })
+
+    it('Should not allow unwrapping more than the balance', async function () {
+      await expect(token.connect(holder).withdraw(DEPOSIT_AMOUNT + 1n)).to.be.revertedWithCustomError(
+        token,
+        'ERC20InsufficientBalance',
+      )
+    })
+  })
+
+  describe('Balance Privacy', function () {
+    it('Should not allow other addresses to view wrapped balances', async function () {
+      await token.connect(holder).deposit({ value: DEPOSIT_AMOUNT })
+
+      await expect(token.connect(recipient).balanceOf(holderAddress))
+        .to.be.revertedWithCustomError(token, 'UCEFUnauthorizedBalanceAccess')
+        .withArgs(recipientAddress, holderAddress)
+    })
+  })
+})
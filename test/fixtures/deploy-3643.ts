@@ -61,7 +61,7 @@ export async function deployToken3643({
   )) as unknown as UCEF3643
 
   // Register and verify agent identity
-  await mockIdentityRegistry.registerIdentity(agentAddress, 1, true)
+  await mockIdentityRegistry.setIdentity(agentAddress, 1, true)
   await mockIdentityRegistry.setVerified(agentAddress, true)
 
   // Grant agent role to our test agent
@@ -0,0 +1,12 @@
+import { expect } from 'chai'
+
+/**
+ * Asserts that a decoded private event (or indexer history entry) has the given type, narrowing it for the
+ * assertions on its fields
+ */
+export function expectPrivateEvent<TEvent extends { type: string }, TType extends TEvent['type']>(
+  event: TEvent | null | undefined,
+  type: TType,
+): asserts event is Extract<TEvent, { type: TType }> {
+  expect(event?.type).to.equal(type)
+}
@@ -0,0 +1,49 @@
+import { expect } from 'chai'
+import { ethers } from 'hardhat'
+import { Signer } from 'ethers'
+import {
+  UCEFContracts,
+  createDeployer,
+  deployUCEFOwned,
+  deployUCEFRegulated,
+  deployUCEFSharable,
+} from '@appliedblockchain/ucef'
+
+describe('Contract registry and deploy helpers', function () {
+  let deployer: Signer
+  let regulator: Signer
+  let regulatorAddress: string
+
+  beforeEach(async function () {
+    ;[deployer, regulator] = await ethers.getSigners()
+    regulatorAddress = await regulator.getAddress()
+  })
+
+  it('Should expose the artifacts of every UCEF contract', async function () {
+    for (const [name, artifact] of Object.entries(UCEFContracts)) {
+      expect(artifact.contractName).to.equal(name)
+      expect(artifact.abi).to.be.an('array').that.is.not.empty
+    }
+  })
+
+  it('Should deploy UCEFOwned', async function () {
+    const token = await deployUCEFOwned(deployer, 'Owned Token', 'OWN')
+    expect(await token.name()).to.equal('Owned Token')
+    expect(await token.symbol()).to.equal('OWN')
+  })
+
+  it('Should deploy UCEFRegulated', async function () {
+    const token = await deployUCEFRegulated(deployer, regulatorAddress, 'Regulated Token', 'REG')
+    expect(await token.regulator()).to.equal(regulatorAddress)
+  })
+
+  it('Should deploy UCEFSharable', async function () {
+    const token = await deployUCEFSharable(deployer, regulatorAddress, 'Sharable Token', 'SHR')
+    expect(await token.supervisor()).to.equal(regulatorAddress)
+  })
+
+  it('Should refuse to create a deployer for abstract contracts', async function () {
+    expect(() => createDeployer(UCEFContracts.UCEFPausable)).to.throw('UCEFPausable is abstract')
+    expect(() => createDeployer(UCEFContracts.IUCEF)).to.throw('IUCEF is abstract')
+  })
+})
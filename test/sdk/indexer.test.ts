@@ -0,0 +1,126 @@
+import { expect } from 'chai'
+import { ethers } from 'hardhat'
+import { Signer } from 'ethers'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { JsonCheckpointStore, PrivateEventIndexer } from '@appliedblockchain/ucef'
+import { UCEFOnlyOwnerAndRegulator } from '../../typechain-types'
+import { deployToken } from '../fixtures/deploy-token'
+import { expectPrivateEvent } from '../fixtures/private-events'
+
+describe('Private events indexer', function () {
+  let token: UCEFOnlyOwnerAndRegulator
+  let tokenAddress: string
+  let regulatorAddress: string
+  let user1: Signer
+  let user2: Signer
+  let user3: Signer
+  let user1Address: string
+  let user2Address: string
+  let user3Address: string
+  let storePath: string
+
+  const AMOUNT = ethers.parseUnits('100', 18)
+
+  beforeEach(async function () {
+    let regulator: Signer
+    ;[regulator, user1, user2, user3] = await ethers.getSigners()
+    regulatorAddress = await regulator.getAddress()
+    user1Address = await user1.getAddress()
+    user2Address = await user2.getAddress()
+    user3Address = await user3.getAddress()
+
+    token = await deployToken<UCEFOnlyOwnerAndRegulator>('UCEFOnlyOwnerAndRegulator', [], {})
+    tokenAddress = await token.getAddress()
+    storePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'ucef-indexer-')), 'checkpoints.json')
+
+    await token.mint(user1Address, AMOUNT)
+    await token.connect(user1).transfer(user2Address, AMOUNT / 4n)
+    await token.connect(user2).transfer(user3Address, AMOUNT / 10n)
+    await token.connect(user1).approve(user3Address, AMOUNT)
+  })
+
+  afterEach(function () {
+    fs.rmSync(path.dirname(storePath), { recursive: true, force: true })
+  })
+
+  function createIndexer(viewer: string) {
+    return new PrivateEventIndexer({
+      provider: ethers.provider,
+      token: tokenAddress,
+      viewer,
+      store: new JsonCheckpointStore(storePath),
+    })
+  }
+
+  it('Should reconstruct all balances for the regulator', async function () {
+    const indexer = createIndexer(regulatorAddress)
+    await indexer.sync()
+
+    expect(indexer.getBalance(user1Address)).to.equal(await token.connect(user1).balanceOf(user1Address))
+    expect(indexer.getBalance(user2Address)).to.equal(await token.connect(user2).balanceOf(user2Address))
+    expect(indexer.getBalance(user3Address)).to.equal(await token.connect(user3).balanceOf(user3Address))
+    expect(indexer.getAllowance(user1Address, user3Address)).to.equal(AMOUNT)
+  })
+
+  it('Should build the history of an account', async function () {
+    const indexer = createIndexer(regulatorAddress)
+    await indexer.sync()
+
+    const history = indexer.getHistory(user1Address)
+    expect(history.map((entry) => entry.type)).to.deep.equal(['Transfer', 'Transfer', 'Approval'])
+
+    const [mint, transfer] = history
+    expectPrivateEvent(mint, 'Transfer')
+    expectPrivateEvent(transfer, 'Transfer')
+    expect(mint.from).to.equal(ethers.ZeroAddress)
+    expect(mint.value).to.equal(AMOUNT)
+    expect(transfer.to).to.equal(user2Address)
+    expect(transfer.value).to.equal(AMOUNT / 4n)
+  })
+
+  it('Should attach transfer references to the history', async function () {
+    const reference = ethers.id('INV-2024-001')
+    await token.connect(user2).transferWithReference(user3Address, AMOUNT / 20n, reference, '0x1234')
+
+    const indexer = createIndexer(regulatorAddress)
+    await indexer.sync()
+
+    const history = indexer.getHistory(user3Address)
+    expect(history.map((entry) => entry.type)).to.deep.equal(['Transfer', 'Approval', 'Transfer'])
+    const [received, , referenced] = history
+    expectPrivateEvent(received, 'Transfer')
+    expectPrivateEvent(referenced, 'Transfer')
+    expect(received.reference).to.equal(undefined)
+    expect(referenced.reference).to.equal(reference)
+    expect(referenced.memo).to.equal('0x1234')
+    expect(indexer.getBalance(user3Address)).to.equal(await token.connect(user3).balanceOf(user3Address))
+  })
+
+  it('Should only index the events visible to the viewer', async function () {
+    const indexer = createIndexer(user3Address)
+    await indexer.sync()
+
+    expect(indexer.getHistory(user1Address).map((entry) => entry.type)).to.deep.equal(['Approval'])
+    expect(indexer.getHistory(user2Address)).to.have.lengthOf(1)
+    expect(indexer.getBalance(user3Address)).to.equal(AMOUNT / 10n)
+  })
+
+  it('Should resume from the last checkpoint', async function () {
+    const indexer = createIndexer(regulatorAddress)
+    const state = await indexer.sync()
+    expect(state.lastBlock).to.equal(await ethers.provider.getBlockNumber())
+
+    await token.connect(user3).transfer(user1Address, AMOUNT / 20n)
+
+    // A new indexer picks up the checkpoint saved to the store and only scans the new blocks
+    const resumed = createIndexer(regulatorAddress)
+    await resumed.sync()
+
+    expect(resumed.state?.lastBlock).to.equal(await ethers.provider.getBlockNumber())
+    expect(resumed.getHistory(user3Address)).to.have.lengthOf(3)
+    expect(resumed.getBalance(user1Address)).to.equal(await token.connect(user1).balanceOf(user1Address))
+    expect(resumed.getBalance(user3Address)).to.equal(await token.connect(user3).balanceOf(user3Address))
+  })
+})
@@ -0,0 +1,163 @@
+import { expect } from 'chai'
+import { ethers } from 'hardhat'
+import { Signer, TransactionReceipt } from 'ethers'
+import { PrivateEventDecoder, decodePrivateEvent, decodePrivateEvents } from '@appliedblockchain/ucef'
+import { UCEFOnlyOwnerAndRegulator, UCEFOnlyOwnerSharable } from '../../typechain-types'
+import { deployToken } from '../fixtures/deploy-token'
+import { expectPrivateEvent } from '../fixtures/private-events'
+
+describe('Private events decoder', function () {
+  let regulator: Signer
+  let user1: Signer
+  let user2: Signer
+  let regulatorAddress: string
+  let user1Address: string
+  let user2Address: string
+
+  const AMOUNT = ethers.parseUnits('100', 18)
+
+  beforeEach(async function () {
+    ;[regulator, user1, user2] = await ethers.getSigners()
+    regulatorAddress = await regulator.getAddress()
+    user1Address = await user1.getAddress()
+    user2Address = await user2.getAddress()
+  })
+
+  describe('UCEFRegulated events', function () {
+    let token: UCEFOnlyOwnerAndRegulator
+
+    beforeEach(async function () {
+      token = await deployToken<UCEFOnlyOwnerAndRegulator>('UCEFOnlyOwnerAndRegulator', [], {})
+    })
+
+    it('Should decode Transfer events with their allowed viewers', async function () {
+      await token.mint(user1Address, AMOUNT)
+      const tx = await token.connect(user1).transfer(user2Address, AMOUNT)
+      const receipt = (await tx.wait()) as TransactionReceipt
+
+      const events = decodePrivateEvents(receipt)
+      expect(events).to.have.lengthOf(1)
+
+      const [event] = events
+      expectPrivateEvent(event, 'Transfer')
+      expect(event.eventType).to.equal(await token.EVENT_TYPE_TRANSFER())
+      expect(event.from).to.equal(user1Address)
+      expect(event.to).to.equal(user2Address)
+      expect(event.value).to.equal(AMOUNT)
+      expect(event.allowedViewers).to.deep.equal([regulatorAddress, user1Address, user2Address])
+    })
+
+    it('Should decode Approval events', async function () {
+      const tx = await token.connect(user1).approve(user2Address, AMOUNT)
+      const receipt = (await tx.wait()) as TransactionReceipt
+
+      const event = decodePrivateEvent(receipt.logs[0])
+      expectPrivateEvent(event, 'Approval')
+      expect(event.owner).to.equal(user1Address)
+      expect(event.spender).to.equal(user2Address)
+      expect(event.value).to.equal(AMOUNT)
+    })
+
+    it('Should decode TransferReference events with the viewers of the transfer', async function () {
+      await token.mint(user1Address, AMOUNT)
+      const reference = ethers.id('INV-2024-001')
+      const memo = ethers.toUtf8Bytes('encrypted memo')
+
+      const tx = await token.connect(user1).transferWithReference(user2Address, AMOUNT, reference, memo)
+      const [transfer, event] = decodePrivateEvents((await tx.wait()) as TransactionReceipt)
+
+      expectPrivateEvent(event, 'TransferReference')
+      expect(event.eventType).to.equal(await token.EVENT_TYPE_TRANSFER_REFERENCE())
+      expect(event.from).to.equal(user1Address)
+      expect(event.to).to.equal(user2Address)
+      expect(event.value).to.equal(AMOUNT)
+      expect(event.reference).to.equal(reference)
+      expect(event.memo).to.equal(ethers.hexlify(memo))
+      expect(event.allowedViewers).to.deep.equal(transfer.allowedViewers)
+    })
+
+    it('Should decode TransferReference events of transfers from an allowance', async function () {
+      await token.mint(user1Address, AMOUNT)
+      await token.connect(user1).approve(user2Address, AMOUNT)
+      const reference = ethers.id('INV-2024-002')
+
+      const tx = await token
+        .connect(user2)
+        .transferFromWithReference(user1Address, user2Address, AMOUNT, reference, '0x')
+      const [, event] = decodePrivateEvents((await tx.wait()) as TransactionReceipt)
+
+      expectPrivateEvent(event, 'TransferReference')
+      expect(event.from).to.equal(user1Address)
+      expect(event.reference).to.equal(reference)
+      expect(event.memo).to.equal('0x')
+      expect(await token.connect(user1).allowance(user1Address, user2Address)).to.equal(0n)
+    })
+
+    it('Should decode RegulatorUpdated events', async function () {
+      const tx = await token.connect(regulator).updateRegulator(user1Address)
+      const receipt = (await tx.wait()) as TransactionReceipt
+
+      const [event] = decodePrivateEvents(receipt)
+      expectPrivateEvent(event, 'RegulatorUpdated')
+      expect(event.previousRegulator).to.equal(regulatorAddress)
+      expect(event.newRegulator).to.equal(user1Address)
+      expect(event.allowedViewers).to.deep.equal([regulatorAddress, user1Address])
+    })
+  })
+
+  describe('UCEFSharable events', function () {
+    let token: UCEFOnlyOwnerSharable
+
+    beforeEach(async function () {
+      token = await deployToken<UCEFOnlyOwnerSharable>('UCEFOnlyOwnerSharable', [], {})
+    })
+
+    it('Should decode ViewerPermissionUpdated events', async function () {
+      const tx = await token.connect(user1).grantViewer(user2Address)
+      const receipt = (await tx.wait()) as TransactionReceipt
+
+      const [event] = decodePrivateEvents(receipt)
+      expectPrivateEvent(event, 'ViewerPermissionUpdated')
+      expect(event.eventType).to.equal(await token.EVENT_TYPE_VIEWER_PERMISSION_UPDATED())
+      expect(event.account).to.equal(user1Address)
+      expect(event.viewer).to.equal(user2Address)
+      expect(event.status).to.be.true
+    })
+
+    it('Should decode SupervisorUpdated events', async function () {
+      const tx = await token.connect(regulator).updateSupervisor(user1Address)
+      const receipt = (await tx.wait()) as TransactionReceipt
+
+      const [event] = decodePrivateEvents(receipt)
+      expectPrivateEvent(event, 'SupervisorUpdated')
+      expect(event.previousSupervisor).to.equal(regulatorAddress)
+      expect(event.newSupervisor).to.equal(user1Address)
+    })
+  })
+
+  describe('Custom event types', function () {
+    it('Should skip unknown event types', async function () {
+      const token = await deployToken<UCEFOnlyOwnerAndRegulator>('UCEFOnlyOwnerAndRegulator', [], {})
+      const tx = await token.mint(user1Address, AMOUNT)
+      const receipt = (await tx.wait()) as TransactionReceipt
+
+      const decoder = new PrivateEventDecoder([])
+      expect(decoder.decodeAll(receipt)).to.have.lengthOf(0)
+    })
+
+    it('Should decode registered custom event types', async function () {
+      const token = await deployToken<UCEFOnlyOwnerAndRegulator>('UCEFOnlyOwnerAndRegulator', [], {})
+      const tx = await token.mint(user1Address, AMOUNT)
+      const receipt = (await tx.wait()) as TransactionReceipt
+
+      // Re-register the Transfer event type under custom parameter names
+      const decoder = new PrivateEventDecoder<never>([]).register<'Transfer', { sender: string; recipient: string }>(
+        'Transfer(address sender, address recipient, uint256 amount)',
+      )
+      const [event] = decoder.decodeAll(receipt)
+      expect(event.type).to.equal('Transfer')
+      expect(event.sender).to.equal(ethers.ZeroAddress)
+      expect(event.recipient).to.equal(user1Address)
+    })
+  })
+})